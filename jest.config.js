@@ -1,5 +1,6 @@
 export default {
   testEnvironment: 'node',
+  testMatch: ['**/__tests__/**/*.test.ts'],
   collectCoverage: true,
   coverageProvider: 'v8',
   coverageDirectory: 'coverage',
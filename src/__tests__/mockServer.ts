@@ -0,0 +1,68 @@
+import { createServer } from 'http';
+import { Client } from '../client';
+import type { RequestListener } from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * A local HTTP server standing in for the Twitter API in tests
+ */
+export interface MockServer {
+  /**
+   * The URL the server listens on, to be used as the base URL of the API
+   */
+  baseURL: string;
+
+  /**
+   * Stops the server from accepting new connections and resolves once the open ones are closed
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * The context given to the callback of {@link withMockServer}
+ */
+export interface MockServerContext {
+  /**
+   * The URL the server listens on
+   */
+  baseURL: string;
+
+  /**
+   * A client sending both its API and upload requests to the server
+   */
+  client: Client;
+}
+
+/**
+ * Starts a mock server on a random local port.
+ * @param handler The function that responds to the requests made to the server
+ * @returns A {@link MockServer} object
+ */
+export async function startMockServer(handler: RequestListener): Promise<MockServer> {
+  const server = createServer(handler);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return {
+    baseURL,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
+
+/**
+ * Runs a test against a mock server, closing the server once the test is done whether it passed or not.
+ * @param handler The function that responds to the requests made to the server
+ * @param callback The test to run
+ */
+export async function withMockServer(
+  handler: RequestListener,
+  callback: (context: MockServerContext) => Promise<void>,
+): Promise<void> {
+  const server = await startMockServer(handler);
+  const { baseURL } = server;
+  const client = new Client({ events: [], api: { version: 2, baseURL, uploadURL: `${baseURL}/1.1` } });
+  try {
+    await callback({ baseURL, client });
+  } finally {
+    await server.close();
+  }
+}
@@ -0,0 +1,26 @@
+import { CustomError } from '../errors';
+import type { Client } from '../client';
+import type { AuthProvider, AuthRequest } from '../typings';
+
+/**
+ * The provider that authorizes requests using the app-only bearer token of the client
+ */
+export class BearerAuthProvider implements AuthProvider {
+  /**
+   * The instance of {@link Client} whose bearer token is used
+   */
+  client: Client;
+
+  /**
+   * @param client The logged in {@link Client} instance
+   */
+  constructor(client: Client) {
+    Object.defineProperty(this, 'client', { writable: true, enumerable: false });
+    this.client = client;
+  }
+
+  authorize(request: AuthRequest): void {
+    if (!this.client.token) throw new CustomError('NO_BEARER_TOKEN');
+    request.headers.Authorization = `Bearer ${this.client.token}`;
+  }
+}
@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+import OAuth from 'oauth-1.0a';
+import { CustomError } from '../errors';
+import type { Client } from '../client';
+import type { AuthProvider, AuthRequest } from '../typings';
+
+/**
+ * The provider that signs requests on behalf of a user with OAuth 1.0a, using the credentials the client
+ * was logged in with
+ */
+export class OAuth1AuthProvider implements AuthProvider {
+  /**
+   * The instance of {@link Client} whose credentials are used
+   */
+  client: Client;
+
+  /**
+   * @param client The logged in {@link Client} instance
+   */
+  constructor(client: Client) {
+    Object.defineProperty(this, 'client', { writable: true, enumerable: false });
+    this.client = client;
+  }
+
+  authorize(request: AuthRequest): void {
+    const clientCredentials = this.client.credentials;
+    if (!clientCredentials) throw new CustomError('NO_CLIENT_CREDENTIALS');
+
+    const oauth = new OAuth({
+      consumer: {
+        key: clientCredentials.consumerKey,
+        secret: clientCredentials.consumerSecret,
+      },
+      signature_method: 'HMAC-SHA1',
+      hash_function(base_string, key) {
+        return crypto.createHmac('sha1', key).update(base_string).digest('base64');
+      },
+    });
+
+    request.headers.Authorization = oauth.toHeader(
+      oauth.authorize(
+        {
+          url: request.url,
+          method: request.method,
+        },
+        {
+          key: clientCredentials.accessToken,
+          secret: clientCredentials.accessTokenSecret,
+        },
+      ),
+    ).Authorization;
+  }
+}
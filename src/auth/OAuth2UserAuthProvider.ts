@@ -0,0 +1,28 @@
+import { CustomError } from '../errors';
+import type { Client } from '../client';
+import type { AuthProvider, AuthRequest } from '../typings';
+
+/**
+ * The provider that authorizes requests on behalf of a user with the OAuth 2.0 token of {@link Client.oauth2},
+ * refreshing it whenever it is about to expire
+ */
+export class OAuth2UserAuthProvider implements AuthProvider {
+  /**
+   * The instance of {@link Client} whose OAuth 2.0 token is used
+   */
+  client: Client;
+
+  /**
+   * @param client The logged in {@link Client} instance
+   */
+  constructor(client: Client) {
+    Object.defineProperty(this, 'client', { writable: true, enumerable: false });
+    this.client = client;
+  }
+
+  async authorize(request: AuthRequest): Promise<void> {
+    const oauth2 = this.client.oauth2;
+    if (!oauth2) throw new CustomError('NO_OAUTH2_TOKEN');
+    request.headers.Authorization = `Bearer ${await oauth2.getAccessToken()}`;
+  }
+}
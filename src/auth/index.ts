@@ -0,0 +1,3 @@
+export * from './BearerAuthProvider';
+export * from './OAuth1AuthProvider';
+export * from './OAuth2UserAuthProvider';
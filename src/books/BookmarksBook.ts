@@ -0,0 +1,108 @@
+import { AuthProviderName, Collection } from '../util';
+import { BaseBook } from './BaseBook';
+import { CustomError } from '../errors';
+import { RequestData } from '../structures';
+import type { Client } from '../client';
+import type { Tweet } from '../structures';
+import type { BookmarksBookOptions, RequestOptions } from '../typings';
+import type { GetUsersLikedTweetsQuery, GetUsersLikedTweetsResponse, Snowflake } from 'twitter-types';
+
+/**
+ * A class for fetching tweets bookmarked by the authorized user
+ *
+ * **Note**: This requires the client to be logged in using {@link Client.loginWithOAuth2}
+ */
+export class BookmarksBook extends BaseBook {
+  /**
+   * The token for fetching next page
+   */
+  #nextToken?: string;
+
+  /**
+   * Whether an initial request for fetching the first page has already been made
+   *
+   * **Note**: Use this to not throw `PAGINATED_RESPONSE_TAIL_REACHED` error for initial page request in {@link BookmarksBook.fetchNextPage}
+   */
+  #hasMadeInitialRequest?: boolean;
+
+  /**
+   * The ID of the user this book belongs to
+   */
+  userId: Snowflake;
+
+  /**
+   * The maximum amount of tweets that will be fetched per page.
+   *
+   * **Note:** This is the max count and will **not** always be equal to the number of tweets fetched in a page
+   */
+  maxResultsPerPage: number | null;
+
+  /**
+   * Whether there are more pages of tweets to be fetched
+   *
+   * **Note:** Use this as a check for deciding whether to fetch more pages
+   */
+  hasMore: boolean;
+
+  /**
+   * @param client The logged in {@link Client} instance
+   * @param options The options to initialize the bookmarks book with
+   */
+  constructor(client: Client, options: BookmarksBookOptions) {
+    super(client);
+
+    this.hasMore = true;
+    this.userId = options.userId;
+    this.maxResultsPerPage = options.maxResultsPerPage ?? null;
+  }
+
+  /**
+   * Fetches the next page of the book if there is one.
+   * @param options The options for the request
+   * @returns A {@link Collection} of {@link Tweet} objects bookmarked by the owner of this book
+   */
+  async fetchNextPage(options?: RequestOptions): Promise<Collection<Snowflake, Tweet>> {
+    if (!this.#hasMadeInitialRequest) {
+      this.#hasMadeInitialRequest = true;
+      return this.#fetchPages(undefined, options?.signal);
+    }
+    if (!this.#nextToken) throw new CustomError('PAGINATED_RESPONSE_TAIL_REACHED');
+    return this.#fetchPages(this.#nextToken, options?.signal);
+  }
+
+  // #### 🚧 PRIVATE METHODS 🚧 ####
+
+  async #fetchPages(token?: string, signal?: AbortSignal): Promise<Collection<Snowflake, Tweet>> {
+    if (!this.client.oauth2) throw new CustomError('OAUTH2_USER_TOKEN_REQUIRED', 'fetch the bookmarked tweets');
+    const bookmarkedTweetsCollection = new Collection<Snowflake, Tweet>();
+    const queryParameters = this.client.options.queryParameters;
+    // The bookmarks endpoint takes the same query and responds in the same shape as the liked tweets one
+    const query: GetUsersLikedTweetsQuery = {
+      expansions: queryParameters?.tweetExpansions,
+      'media.fields': queryParameters?.mediaFields,
+      'place.fields': queryParameters?.placeFields,
+      'poll.fields': queryParameters?.pollFields,
+      'tweet.fields': queryParameters?.tweetFields,
+      'user.fields': queryParameters?.userFields,
+      pagination_token: token,
+    };
+    if (this.maxResultsPerPage) query.max_results = this.maxResultsPerPage;
+    const requestData = new RequestData({
+      query,
+      isUserContext: true,
+      authProvider: AuthProviderName.OAUTH2_USER,
+      signal,
+    });
+    const data: GetUsersLikedTweetsResponse = await this.client._api.users(this.userId).bookmarks.get(requestData);
+    this.#nextToken = data.meta.next_token;
+    this.hasMore = data.meta.next_token ? true : false;
+    if (data.meta.result_count === 0) return bookmarkedTweetsCollection;
+    const rawTweets = data.data;
+    const rawIncludes = data.includes;
+    for (const rawTweet of rawTweets) {
+      const tweet = this.client.tweets._add(rawTweet.id, { data: rawTweet, includes: rawIncludes });
+      bookmarkedTweetsCollection.set(tweet.id, tweet);
+    }
+    return bookmarkedTweetsCollection;
+  }
+}
@@ -0,0 +1,132 @@
+import { Collection } from '../util';
+import { BaseBook } from './BaseBook';
+import { CustomError } from '../errors';
+import { RequestData } from '../structures';
+import type { Client } from '../client';
+import type { DMEvent } from '../structures';
+import type { DMEventsBookOptions, DMEventType, GetDMEventsResponse, RequestOptions } from '../typings';
+import type { Snowflake } from 'twitter-types';
+
+/**
+ * A class for fetching the events of the direct message conversations of the authorized user
+ */
+export class DMEventsBook extends BaseBook {
+  /**
+   * The token for fetching next page
+   */
+  #nextToken?: string;
+
+  /**
+   * The token for fetching previous page
+   */
+  #previousToken?: string;
+
+  /**
+   * Whether an initial request for fetching the first page has already been made
+   *
+   * **Note**: Use this to not throw `PAGINATED_RESPONSE_TAIL_REACHED` error for initial page request in {@link DMEventsBook.fetchNextPage}
+   */
+  #hasMadeInitialRequest?: boolean;
+
+  /**
+   * The ID of the user whose one-to-one conversation with the authorized user this book belongs to
+   */
+  participantId: Snowflake | null;
+
+  /**
+   * The ID of the conversation this book belongs to. The book fetches the events of all the conversations of the
+   * authorized user if neither this nor {@link DMEventsBook.participantId} is set
+   */
+  conversationId: string | null;
+
+  /**
+   * The types of the events the book will fetch
+   */
+  eventTypes: Array<DMEventType> | null;
+
+  /**
+   * The maximum amount of events that will be fetched per page.
+   *
+   * **Note:** This is the max count and will **not** always be equal to the number of events fetched in a page
+   */
+  maxResultsPerPage: number | null;
+
+  /**
+   * Whether there are more pages of events to be fetched
+   *
+   * **Note:** Use this as a check for deciding whether to fetch more pages
+   */
+  hasMore: boolean;
+
+  /**
+   * @param client The logged in {@link Client} instance
+   * @param options The options to initialize the DM events book with
+   */
+  constructor(client: Client, options?: DMEventsBookOptions) {
+    super(client);
+    this.hasMore = true;
+    this.participantId = options?.participantId ?? null;
+    this.conversationId = options?.conversationId ?? null;
+    this.eventTypes = options?.eventTypes ?? null;
+    this.maxResultsPerPage = options?.maxResultsPerPage ?? null;
+  }
+
+  /**
+   * Fetches the next page of the book if there is one.
+   * @param options The options for the request
+   * @returns A {@link Collection} of {@link DMEvent} objects
+   */
+  async fetchNextPage(options?: RequestOptions): Promise<Collection<Snowflake, DMEvent>> {
+    if (!this.#hasMadeInitialRequest) {
+      this.#hasMadeInitialRequest = true;
+      return this.#fetchPages(undefined, options?.signal);
+    }
+    if (!this.#nextToken) throw new CustomError('PAGINATED_RESPONSE_TAIL_REACHED');
+    return this.#fetchPages(this.#nextToken, options?.signal);
+  }
+
+  /**
+   * Fetches the previous page of the book if there is one.
+   * @param options The options for the request
+   * @returns A {@link Collection} of {@link DMEvent} objects
+   */
+  async fetchPreviousPage(options?: RequestOptions): Promise<Collection<Snowflake, DMEvent>> {
+    if (!this.#previousToken) throw new CustomError('PAGINATED_RESPONSE_HEAD_REACHED');
+    return this.#fetchPages(this.#previousToken, options?.signal);
+  }
+
+  // #### 🚧 PRIVATE METHODS 🚧 ####
+
+  async #fetchPages(token?: string, signal?: AbortSignal): Promise<Collection<Snowflake, DMEvent>> {
+    const dmEventsCollection = new Collection<Snowflake, DMEvent>();
+    const queryParameters = this.client.options.queryParameters;
+    const query = {
+      'dm_event.fields': queryParameters?.dmEventFields,
+      expansions: queryParameters?.dmEventExpansions,
+      'media.fields': queryParameters?.mediaFields,
+      'tweet.fields': queryParameters?.tweetFields,
+      'user.fields': queryParameters?.userFields,
+      event_types: this.eventTypes ?? undefined,
+      max_results: this.maxResultsPerPage ?? undefined,
+      pagination_token: token,
+    };
+    const requestData = new RequestData({ query, isUserContext: true, signal });
+    let data: GetDMEventsResponse;
+    if (this.conversationId) {
+      data = await this.client._api.dm_conversations(this.conversationId).dm_events.get(requestData);
+    } else if (this.participantId) {
+      data = await this.client._api.dm_conversations.with(this.participantId).dm_events.get(requestData);
+    } else {
+      data = await this.client._api.dm_events.get(requestData);
+    }
+    this.#nextToken = data.meta.next_token;
+    this.#previousToken = data.meta.previous_token;
+    this.hasMore = data.meta.next_token ? true : false;
+    if (data.meta.result_count === 0 || !data.data) return dmEventsCollection;
+    for (const rawDMEvent of data.data) {
+      const dmEvent = this.client.directMessages._add(rawDMEvent.id, { data: rawDMEvent, includes: data.includes });
+      dmEventsCollection.set(dmEvent.id, dmEvent);
+    }
+    return dmEventsCollection;
+  }
+}
@@ -0,0 +1,111 @@
+import { Collection } from '../util';
+import { BaseBook } from './BaseBook';
+import { CustomError } from '../errors';
+import { RequestData } from '../structures';
+import type { Client } from '../client';
+import type { List } from '../structures';
+import type { GetListsResponse, FollowedListsBookOptions, RequestOptions } from '../typings';
+import type { Snowflake } from 'twitter-types';
+
+/**
+ * A class for fetching lists followed by a twitter user
+ */
+export class FollowedListsBook extends BaseBook {
+  /**
+   * The token for fetching next page
+   */
+  #nextToken?: string;
+
+  /**
+   * The token for fetching previous page
+   */
+  #previousToken?: string;
+
+  /**
+   * Whether an initial request for fetching the first page has already been made
+   *
+   * **Note**: Use this to not throw `PAGINATED_RESPONSE_TAIL_REACHED` error for initial page request in {@link FollowedListsBook.fetchNextPage}
+   */
+  #hasMadeInitialRequest?: boolean;
+
+  /**
+   * The ID of the user this book belongs to
+   */
+  userId: Snowflake;
+
+  /**
+   * The maximum amount of lists that will be fetched per page.
+   *
+   * **Note:** This is the max count and will **not** always be equal to the number of lists fetched in a page
+   */
+  maxResultsPerPage: number | null;
+
+  /**
+   * Whether there are more pages of lists to be fetched
+   *
+   * **Note:** Use this as a check for deciding whether to fetch more pages
+   */
+  hasMore: boolean;
+
+  /**
+   * @param client The logged in {@link Client} instance
+   * @param options The options to initialize the followed lists book with
+   */
+  constructor(client: Client, options: FollowedListsBookOptions) {
+    super(client);
+
+    this.hasMore = true;
+    this.userId = options.userId;
+    this.maxResultsPerPage = options.maxResultsPerPage ?? null;
+  }
+
+  /**
+   * Fetches the next page of the book if there is one.
+   * @param options The options for the request
+   * @returns A {@link Collection} of {@link List} objects followed by the owner of this book
+   */
+  async fetchNextPage(options?: RequestOptions): Promise<Collection<Snowflake, List>> {
+    if (!this.#hasMadeInitialRequest) {
+      this.#hasMadeInitialRequest = true;
+      return this.#fetchPages(undefined, options?.signal);
+    }
+    if (!this.#nextToken) throw new CustomError('PAGINATED_RESPONSE_TAIL_REACHED');
+    return this.#fetchPages(this.#nextToken, options?.signal);
+  }
+
+  /**
+   * Fetches the previous page of the book if there is one.
+   * @param options The options for the request
+   * @returns A {@link Collection} of {@link List} objects followed by the owner of this book
+   */
+  async fetchPreviousPage(options?: RequestOptions): Promise<Collection<Snowflake, List>> {
+    if (!this.#previousToken) throw new CustomError('PAGINATED_RESPONSE_HEAD_REACHED');
+    return this.#fetchPages(this.#previousToken, options?.signal);
+  }
+
+  // #### 🚧 PRIVATE METHODS 🚧 ####
+
+  async #fetchPages(token?: string, signal?: AbortSignal): Promise<Collection<Snowflake, List>> {
+    const followedListsCollection = new Collection<Snowflake, List>();
+    const queryParameters = this.client.options.queryParameters;
+    const query = {
+      expansions: queryParameters?.listExpansions,
+      'list.fields': queryParameters?.listFields,
+      'user.fields': queryParameters?.userFields,
+      max_results: this.maxResultsPerPage ?? undefined,
+      pagination_token: token,
+    };
+    const requestData = new RequestData({ query, signal });
+    const data: GetListsResponse = await this.client._api.users(this.userId).followed_lists.get(requestData);
+    this.#nextToken = data.meta.next_token;
+    this.#previousToken = data.meta.previous_token;
+    this.hasMore = data.meta.next_token ? true : false;
+    if (data.meta.result_count === 0 || !data.data) return followedListsCollection;
+    const rawIncludes = data.includes;
+    for (const rawList of data.data) {
+      const list = this.client.lists._add(rawList.id, { data: rawList, includes: rawIncludes });
+      followedListsCollection.set(list.id, list);
+    }
+    return followedListsCollection;
+  }
+}
@@ -4,7 +4,7 @@ import { CustomError } from '../errors';
 import { RequestData } from '../structures';
 import type { Client } from '../client';
 import type { User } from '../structures';
-import type { FollowersBookOptions } from '../typings';
+import type { FollowersBookOptions, RequestOptions } from '../typings';
 import type { GetUsersFollowersQuery, GetUsersFollowersResponse, Snowflake } from 'twitter-types';
 
 /**
@@ -61,29 +61,31 @@ export class FollowersBook extends BaseBook {
 
   /**
    * Fetches the next page of the book if there is one.
+   * @param options The options for the request
    * @returns A {@link Collection} of {@link User} objects who have been following the owner of this book
    */
-  async fetchNextPage(): Promise<Collection<Snowflake, User>> {
+  async fetchNextPage(options?: RequestOptions): Promise<Collection<Snowflake, User>> {
     if (!this.#hasMadeInitialRequest) {
       this.#hasMadeInitialRequest = true;
-      return this.#fetchPages();
+      return this.#fetchPages(undefined, options?.signal);
     }
     if (!this.#nextToken) throw new CustomError('PAGINATED_RESPONSE_TAIL_REACHED');
-    return this.#fetchPages(this.#nextToken);
+    return this.#fetchPages(this.#nextToken, options?.signal);
   }
 
   /**
    * Fetches the previous page of the book if there is one.
+   * @param options The options for the request
    * @returns A {@link Collection} of {@link User} objects who have been following the owner of this book
    */
-  async fetchPreviousPage(): Promise<Collection<Snowflake, User>> {
+  async fetchPreviousPage(options?: RequestOptions): Promise<Collection<Snowflake, User>> {
     if (!this.#previousToken) throw new CustomError('PAGINATED_RESPONSE_HEAD_REACHED');
-    return this.#fetchPages(this.#previousToken);
+    return this.#fetchPages(this.#previousToken, options?.signal);
   }
 
   // #### 🚧 PRIVATE METHODS 🚧 ####
 
-  async #fetchPages(token?: string): Promise<Collection<Snowflake, User>> {
+  async #fetchPages(token?: string, signal?: AbortSignal): Promise<Collection<Snowflake, User>> {
     const followersCollection = new Collection<Snowflake, User>();
     const queryParameters = this.client.options.queryParameters;
     const query: GetUsersFollowersQuery = {
@@ -93,7 +95,7 @@ export class FollowersBook extends BaseBook {
       pagination_token: token,
     };
     if (this.maxResultsPerPage) query.max_results = this.maxResultsPerPage;
-    const requestData = new RequestData({ query });
+    const requestData = new RequestData({ query, signal });
     const data: GetUsersFollowersResponse = await this.client._api.users(this.userId).followers.get(requestData);
     this.#nextToken = data.meta.next_token;
     this.#previousToken = data.meta.previous_token;
@@ -0,0 +1,287 @@
+import { setTimeout as wait } from 'timers/promises';
+import { Collection, ClientEvents } from '../util';
+import { BaseBook } from './BaseBook';
+import { CustomError } from '../errors';
+import { RequestData } from '../structures';
+import type { Client } from '../client';
+import type { Tweet } from '../structures';
+import type { HomeTimelineBookOptions, RequestOptions } from '../typings';
+import type {
+  GetUsersTweetsQuery,
+  GetUsersTweetsResponse,
+  Snowflake,
+  TweetTypeExcludesRequestParameter,
+} from 'twitter-types';
+
+/**
+ * A class for fetching the reverse-chronological home timeline of the authorized user, which is made of the tweets
+ * composed by the user and the accounts they follow
+ */
+export class HomeTimelineBook extends BaseBook {
+  /**
+   * The token for fetching next page
+   */
+  #nextToken?: string;
+
+  /**
+   * The token for fetching previous page
+   */
+  #previousToken?: string;
+
+  /**
+   * Whether an initial request for fetching the first page has already been made
+   *
+   * **Note**: Use this to not throw `PAGINATED_RESPONSE_TAIL_REACHED` error for initial page request in {@link HomeTimelineBook.fetchNextPage}
+   */
+  #hasMadeInitialRequest?: boolean;
+
+  /**
+   * The controller for stopping the polling started by {@link HomeTimelineBook.startPolling}
+   */
+  #pollingController: AbortController | null;
+
+  /**
+   * Whether the book has polled for new tweets at least once, which marks the point after which tweets are new
+   */
+  #hasPolled: boolean;
+
+  /**
+   * The ID of the user this book belongs to
+   */
+  userId: Snowflake;
+
+  /**
+   * The maximum amount of tweets that will be fetched per page.
+   *
+   * **Note:** This is the max count and will **not** always be equal to the number of tweets fetched in a page
+   */
+  maxResultsPerPage: number | null;
+
+  /**
+   * Whether there are more pages of tweets to be fetched
+   *
+   * **Note:** Use this as a check for deciding whether to fetch more pages
+   */
+  hasMore: boolean;
+
+  /**
+   * The book will fetch tweets that were created after this tweet ID
+   */
+  afterTweetId: Snowflake | null;
+
+  /**
+   * The book will fetch tweets that were created before this tweet ID
+   */
+  beforeTweetId: Snowflake | null;
+
+  /**
+   * The book will fetch tweets that were created after this timestamp
+   */
+  afterTimestamp: number | null;
+
+  /**
+   * The book will fetch tweets that were created before this timestamp
+   */
+  beforeTimestamp: number | null;
+
+  /**
+   * The types of tweets that the book will not fetch
+   */
+  exclude: Array<TweetTypeExcludesRequestParameter> | null;
+
+  /**
+   * The ID of the newest tweet fetched by the book, which {@link HomeTimelineBook.fetchNewTweets} fetches the
+   * tweets created after
+   */
+  newestTweetId: Snowflake | null;
+
+  /**
+   * @param client The logged in {@link Client} instance
+   * @param options The options to initialize the home timeline book with
+   */
+  constructor(client: Client, options: HomeTimelineBookOptions) {
+    super(client);
+    this.hasMore = true;
+    this.userId = options.userId;
+    this.exclude = options.exclude ?? null;
+    this.afterTweetId = options.afterTweetId ?? null;
+    this.beforeTweetId = options.beforeTweetId ?? null;
+    this.afterTimestamp = options.afterTimestamp ?? null;
+    this.beforeTimestamp = options.beforeTimestamp ?? null;
+    this.maxResultsPerPage = options.maxResultsPerPage ?? null;
+    this.newestTweetId = null;
+    this.#pollingController = null;
+    this.#hasPolled = false;
+  }
+
+  /**
+   * Whether the book is polling for new tweets
+   */
+  get polling(): boolean {
+    return this.#pollingController !== null;
+  }
+
+  /**
+   * Fetches the next page of the book if there is one.
+   * @param options The options for the request
+   * @returns A {@link Collection} of {@link Tweet} objects in the home timeline of the owner of this book
+   */
+  async fetchNextPage(options?: RequestOptions): Promise<Collection<Snowflake, Tweet>> {
+    if (!this.#hasMadeInitialRequest) {
+      this.#hasMadeInitialRequest = true;
+      return this.#fetchPages(undefined, options?.signal);
+    }
+    if (!this.#nextToken) throw new CustomError('PAGINATED_RESPONSE_TAIL_REACHED');
+    return this.#fetchPages(this.#nextToken, options?.signal);
+  }
+
+  /**
+   * Fetches the previous page of the book if there is one.
+   * @param options The options for the request
+   * @returns A {@link Collection} of {@link Tweet} objects in the home timeline of the owner of this book
+   */
+  async fetchPreviousPage(options?: RequestOptions): Promise<Collection<Snowflake, Tweet>> {
+    if (!this.#previousToken) throw new CustomError('PAGINATED_RESPONSE_HEAD_REACHED');
+    return this.#fetchPages(this.#previousToken, options?.signal);
+  }
+
+  /**
+   * Fetches the tweets created after {@link HomeTimelineBook.newestTweetId}, without affecting the pages of the book.
+   * If the book has not fetched any tweets yet, only the latest page is fetched.
+   *
+   * **Note**: New tweets are fetched regardless of {@link HomeTimelineBook.afterTimestamp} and
+   * {@link HomeTimelineBook.beforeTimestamp}, which only bound the pages of the book
+   * @param options The options for the request
+   * @returns A {@link Collection} of the new {@link Tweet} objects, newest first
+   */
+  async fetchNewTweets(options?: RequestOptions): Promise<Collection<Snowflake, Tweet>> {
+    const { newTweets, newestTweetId } = await this.#fetchNewTweets(options?.signal);
+    this.#advanceNewestTweetId(newestTweetId);
+    return newTweets;
+  }
+
+  /**
+   * Starts polling for new tweets, emitting a `homeTimelineTweetCreate` event for each of them from oldest to newest.
+   * If the book has not fetched any tweets yet, the first poll only marks the point after which tweets are new.
+   *
+   * **Note**: Failed polls emit a `homeTimelinePollError` event and polling continues on the next interval
+   * @param interval The time in milliseconds to wait between polls, `60000` by default
+   */
+  startPolling(interval = 60000): void {
+    if (this.#pollingController) return;
+    const controller = new AbortController();
+    this.#pollingController = controller;
+    this.#poll(interval, controller.signal).finally(() => {
+      if (this.#pollingController === controller) this.#pollingController = null;
+    });
+  }
+
+  /**
+   * Stops polling for new tweets.
+   */
+  stopPolling(): void {
+    this.#pollingController?.abort();
+    this.#pollingController = null;
+    this.#hasPolled = false;
+  }
+
+  // #### 🚧 PRIVATE METHODS 🚧 ####
+
+  async #fetchPages(token?: string, signal?: AbortSignal): Promise<Collection<Snowflake, Tweet>> {
+    const query: GetUsersTweetsQuery = { pagination_token: token };
+    if (this.afterTweetId) query.since_id = this.afterTweetId;
+    if (this.beforeTweetId) query.until_id = this.beforeTweetId;
+    if (this.afterTimestamp) query.start_time = new Date(this.afterTimestamp).toISOString();
+    if (this.beforeTimestamp) query.end_time = new Date(this.beforeTimestamp).toISOString();
+    const data = await this.#request(query, signal);
+    this.#advanceNewestTweetId(data.meta.newest_id ?? null);
+    this.#nextToken = data.meta.next_token;
+    this.#previousToken = data.meta.previous_token;
+    this.hasMore = data.meta.next_token ? true : false;
+    return this.#patchTweets(data);
+  }
+
+  async #request(timelineQuery: GetUsersTweetsQuery, signal?: AbortSignal): Promise<GetUsersTweetsResponse> {
+    const queryParameters = this.client.options.queryParameters;
+    // The home timeline endpoint takes the same query and responds in the same shape as the composed tweets one
+    const query: GetUsersTweetsQuery = {
+      expansions: queryParameters?.tweetExpansions,
+      'media.fields': queryParameters?.mediaFields,
+      'place.fields': queryParameters?.placeFields,
+      'poll.fields': queryParameters?.pollFields,
+      'tweet.fields': queryParameters?.tweetFields,
+      'user.fields': queryParameters?.userFields,
+      ...timelineQuery,
+    };
+    if (this.exclude) query.exclude = this.exclude;
+    if (this.maxResultsPerPage) query.max_results = this.maxResultsPerPage;
+    const requestData = new RequestData({ query, isUserContext: true, signal });
+    return this.client._api.users(this.userId).timelines.reverse_chronological.get(requestData);
+  }
+
+  async #fetchNewTweets(
+    signal?: AbortSignal,
+  ): Promise<{ newTweets: Collection<Snowflake, Tweet>; newestTweetId: Snowflake | null }> {
+    const newTweets = new Collection<Snowflake, Tweet>();
+    const sinceId = this.newestTweetId;
+    // The newest ID is only committed by the caller once all the pages are fetched, so that a failed page or a
+    // stopped poll does not skip the tweets that were not handed over
+    let newestTweetId: Snowflake | null = null;
+    let token: string | undefined;
+    do {
+      const data = await this.#request(
+        { since_id: sinceId ?? this.afterTweetId ?? undefined, pagination_token: token },
+        signal,
+      );
+      if (!newestTweetId) newestTweetId = data.meta.newest_id ?? null;
+      for (const [id, tweet] of this.#patchTweets(data)) newTweets.set(id, tweet);
+      token = sinceId ? data.meta.next_token : undefined;
+    } while (token);
+    return { newTweets, newestTweetId };
+  }
+
+  #advanceNewestTweetId(tweetId: Snowflake | null): void {
+    if (tweetId && (!this.newestTweetId || BigInt(tweetId) > BigInt(this.newestTweetId))) {
+      this.newestTweetId = tweetId;
+    }
+  }
+
+  #patchTweets(data: GetUsersTweetsResponse): Collection<Snowflake, Tweet> {
+    const tweetsCollection = new Collection<Snowflake, Tweet>();
+    if (data.meta.result_count === 0) return tweetsCollection;
+    const rawTweets = data.data;
+    const rawIncludes = data.includes;
+    for (const rawTweet of rawTweets) {
+      const tweet = this.client.tweets._add(rawTweet.id, { data: rawTweet, includes: rawIncludes }, false);
+      tweetsCollection.set(tweet.id, tweet);
+    }
+    return tweetsCollection;
+  }
+
+  async #poll(interval: number, signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+      // Without a tweet fetched before, the tweets of the first poll are the ones that were already there
+      const isFirstPoll = !this.#hasPolled && this.newestTweetId === null;
+      try {
+        const { newTweets, newestTweetId } = await this.#fetchNewTweets(signal);
+        // Tweets fetched after polling was stopped are left to be fetched again instead of being skipped
+        if (signal.aborted) break;
+        if (!isFirstPoll) {
+          for (const tweet of [...newTweets.values()].reverse()) {
+            this.client.emit(ClientEvents.HOME_TIMELINE_TWEET_CREATE, tweet);
+          }
+        }
+        this.#advanceNewestTweetId(newestTweetId);
+        this.#hasPolled = true;
+      } catch (error) {
+        if (signal.aborted) break;
+        this.client.emit(ClientEvents.HOME_TIMELINE_POLL_ERROR, error);
+      }
+      try {
+        await wait(interval, undefined, { signal });
+      } catch {
+        break;
+      }
+    }
+  }
+}
@@ -4,7 +4,7 @@ import { CustomError } from '../errors';
 import { RequestData } from '../structures';
 import type { Client } from '../client';
 import type { Tweet } from '../structures';
-import type { LikedTweetsBookOptions } from '../typings';
+import type { LikedTweetsBookOptions, RequestOptions } from '../typings';
 import type { GetUsersLikedTweetsQuery, GetUsersLikedTweetsResponse, Snowflake } from 'twitter-types';
 
 /**
@@ -61,29 +61,31 @@ export class LikedTweetsBook extends BaseBook {
 
   /**
    * Fetches the next page of the book if there is one.
+   * @param options The options for the request
    * @returns A {@link Collection} of {@link Tweet} objects liked by the owner of this book
    */
-  async fetchNextPage(): Promise<Collection<Snowflake, Tweet>> {
+  async fetchNextPage(options?: RequestOptions): Promise<Collection<Snowflake, Tweet>> {
     if (!this.#hasMadeInitialRequest) {
       this.#hasMadeInitialRequest = true;
-      return this.#fetchPages();
+      return this.#fetchPages(undefined, options?.signal);
     }
     if (!this.#nextToken) throw new CustomError('PAGINATED_RESPONSE_TAIL_REACHED');
-    return this.#fetchPages(this.#nextToken);
+    return this.#fetchPages(this.#nextToken, options?.signal);
   }
 
   /**
    * Fetches the previous page of the book if there is one.
+   * @param options The options for the request
    * @returns A {@link Collection} of {@link Tweet} objects liked by the owner of this book
    */
-  async fetchPreviousPage(): Promise<Collection<Snowflake, Tweet>> {
+  async fetchPreviousPage(options?: RequestOptions): Promise<Collection<Snowflake, Tweet>> {
     if (!this.#previousToken) throw new CustomError('PAGINATED_RESPONSE_HEAD_REACHED');
-    return this.#fetchPages(this.#previousToken);
+    return this.#fetchPages(this.#previousToken, options?.signal);
   }
 
   // #### 🚧 PRIVATE METHODS 🚧 ####
 
-  async #fetchPages(token?: string): Promise<Collection<Snowflake, Tweet>> {
+  async #fetchPages(token?: string, signal?: AbortSignal): Promise<Collection<Snowflake, Tweet>> {
     const likedTweetsCollection = new Collection<Snowflake, Tweet>();
     const queryParameters = this.client.options.queryParameters;
     const query: GetUsersLikedTweetsQuery = {
@@ -96,7 +98,7 @@ export class LikedTweetsBook extends BaseBook {
       pagination_token: token,
     };
     if (this.maxResultsPerPage) query.max_results = this.maxResultsPerPage;
-    const requestData = new RequestData({ query });
+    const requestData = new RequestData({ query, signal });
     const data: GetUsersLikedTweetsResponse = await this.client._api.users(this.userId).liked_tweets.get(requestData);
     this.#nextToken = data.meta.next_token;
     this.#previousToken = data.meta.previous_token;
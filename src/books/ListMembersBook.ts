@@ -0,0 +1,113 @@
+import { Collection } from '../util';
+import { BaseBook } from './BaseBook';
+import { CustomError } from '../errors';
+import { RequestData } from '../structures';
+import type { Client } from '../client';
+import type { User } from '../structures';
+import type { ListMembersBookOptions, RequestOptions } from '../typings';
+import type { GetUsersFollowersQuery, GetUsersFollowersResponse, Snowflake } from 'twitter-types';
+
+/**
+ * A class for fetching the members of a list
+ */
+export class ListMembersBook extends BaseBook {
+  /**
+   * The token for fetching next page
+   */
+  #nextToken?: string;
+
+  /**
+   * The token for fetching previous page
+   */
+  #previousToken?: string;
+
+  /**
+   * Whether an initial request for fetching the first page has already been made
+   *
+   * **Note**: Use this to not throw `PAGINATED_RESPONSE_TAIL_REACHED` error for initial page request in {@link ListMembersBook.fetchNextPage}
+   */
+  #hasMadeInitialRequest?: boolean;
+
+  /**
+   * The ID of the list this book belongs to
+   */
+  listId: Snowflake;
+
+  /**
+   * The maximum amount of users that will be fetched per page.
+   *
+   * **Note:** This is the max count and will **not** always be equal to the number of users fetched in a page
+   */
+  maxResultsPerPage: number | null;
+
+  /**
+   * Whether there are more pages of users to be fetched
+   *
+   * **Note:** Use this as a check for deciding whether to fetch more pages
+   */
+  hasMore: boolean;
+
+  /**
+   * @param client The logged in {@link Client} instance
+   * @param options The options to initialize the list members book with
+   */
+  constructor(client: Client, options: ListMembersBookOptions) {
+    super(client);
+
+    this.hasMore = true;
+    this.listId = options.listId;
+    this.maxResultsPerPage = options.maxResultsPerPage ?? null;
+  }
+
+  /**
+   * Fetches the next page of the book if there is one.
+   * @param options The options for the request
+   * @returns A {@link Collection} of {@link User} objects that are members of the list of this book
+   */
+  async fetchNextPage(options?: RequestOptions): Promise<Collection<Snowflake, User>> {
+    if (!this.#hasMadeInitialRequest) {
+      this.#hasMadeInitialRequest = true;
+      return this.#fetchPages(undefined, options?.signal);
+    }
+    if (!this.#nextToken) throw new CustomError('PAGINATED_RESPONSE_TAIL_REACHED');
+    return this.#fetchPages(this.#nextToken, options?.signal);
+  }
+
+  /**
+   * Fetches the previous page of the book if there is one.
+   * @param options The options for the request
+   * @returns A {@link Collection} of {@link User} objects that are members of the list of this book
+   */
+  async fetchPreviousPage(options?: RequestOptions): Promise<Collection<Snowflake, User>> {
+    if (!this.#previousToken) throw new CustomError('PAGINATED_RESPONSE_HEAD_REACHED');
+    return this.#fetchPages(this.#previousToken, options?.signal);
+  }
+
+  // #### 🚧 PRIVATE METHODS 🚧 ####
+
+  async #fetchPages(token?: string, signal?: AbortSignal): Promise<Collection<Snowflake, User>> {
+    const membersCollection = new Collection<Snowflake, User>();
+    const queryParameters = this.client.options.queryParameters;
+    // The endpoint takes the same query and responds in the same shape as the followers one of users
+    const query: GetUsersFollowersQuery = {
+      expansions: queryParameters?.userExpansions,
+      'tweet.fields': queryParameters?.tweetFields,
+      'user.fields': queryParameters?.userFields,
+      pagination_token: token,
+    };
+    if (this.maxResultsPerPage) query.max_results = this.maxResultsPerPage;
+    const requestData = new RequestData({ query, signal });
+    const data: GetUsersFollowersResponse = await this.client._api.lists(this.listId).members.get(requestData);
+    this.#nextToken = data.meta.next_token;
+    this.#previousToken = data.meta.previous_token;
+    this.hasMore = data.meta.next_token ? true : false;
+    if (data.meta.result_count === 0) return membersCollection;
+    const rawUsers = data.data;
+    const rawIncludes = data.includes;
+    for (const rawUser of rawUsers) {
+      const user = this.client.users._add(rawUser.id, { data: rawUser, includes: rawIncludes });
+      membersCollection.set(user.id, user);
+    }
+    return membersCollection;
+  }
+}
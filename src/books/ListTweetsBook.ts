@@ -0,0 +1,116 @@
+import { Collection } from '../util';
+import { BaseBook } from './BaseBook';
+import { CustomError } from '../errors';
+import { RequestData } from '../structures';
+import type { Client } from '../client';
+import type { Tweet } from '../structures';
+import type { ListTweetsBookOptions, RequestOptions } from '../typings';
+import type { GetUsersLikedTweetsQuery, GetUsersLikedTweetsResponse, Snowflake } from 'twitter-types';
+
+/**
+ * A class for fetching the tweets of the members of a list
+ */
+export class ListTweetsBook extends BaseBook {
+  /**
+   * The token for fetching next page
+   */
+  #nextToken?: string;
+
+  /**
+   * The token for fetching previous page
+   */
+  #previousToken?: string;
+
+  /**
+   * Whether an initial request for fetching the first page has already been made
+   *
+   * **Note**: Use this to not throw `PAGINATED_RESPONSE_TAIL_REACHED` error for initial page request in {@link ListTweetsBook.fetchNextPage}
+   */
+  #hasMadeInitialRequest?: boolean;
+
+  /**
+   * The ID of the list this book belongs to
+   */
+  listId: Snowflake;
+
+  /**
+   * The maximum amount of tweets that will be fetched per page.
+   *
+   * **Note:** This is the max count and will **not** always be equal to the number of tweets fetched in a page
+   */
+  maxResultsPerPage: number | null;
+
+  /**
+   * Whether there are more pages of tweets to be fetched
+   *
+   * **Note:** Use this as a check for deciding whether to fetch more pages
+   */
+  hasMore: boolean;
+
+  /**
+   * @param client The logged in {@link Client} instance
+   * @param options The options to initialize the list tweets book with
+   */
+  constructor(client: Client, options: ListTweetsBookOptions) {
+    super(client);
+
+    this.hasMore = true;
+    this.listId = options.listId;
+    this.maxResultsPerPage = options.maxResultsPerPage ?? null;
+  }
+
+  /**
+   * Fetches the next page of the book if there is one.
+   * @param options The options for the request
+   * @returns A {@link Collection} of {@link Tweet} objects composed by the members of the list of this book
+   */
+  async fetchNextPage(options?: RequestOptions): Promise<Collection<Snowflake, Tweet>> {
+    if (!this.#hasMadeInitialRequest) {
+      this.#hasMadeInitialRequest = true;
+      return this.#fetchPages(undefined, options?.signal);
+    }
+    if (!this.#nextToken) throw new CustomError('PAGINATED_RESPONSE_TAIL_REACHED');
+    return this.#fetchPages(this.#nextToken, options?.signal);
+  }
+
+  /**
+   * Fetches the previous page of the book if there is one.
+   * @param options The options for the request
+   * @returns A {@link Collection} of {@link Tweet} objects composed by the members of the list of this book
+   */
+  async fetchPreviousPage(options?: RequestOptions): Promise<Collection<Snowflake, Tweet>> {
+    if (!this.#previousToken) throw new CustomError('PAGINATED_RESPONSE_HEAD_REACHED');
+    return this.#fetchPages(this.#previousToken, options?.signal);
+  }
+
+  // #### 🚧 PRIVATE METHODS 🚧 ####
+
+  async #fetchPages(token?: string, signal?: AbortSignal): Promise<Collection<Snowflake, Tweet>> {
+    const listTweetsCollection = new Collection<Snowflake, Tweet>();
+    const queryParameters = this.client.options.queryParameters;
+    // The endpoint takes the same query and responds in the same shape as the liked tweets one of users
+    const query: GetUsersLikedTweetsQuery = {
+      expansions: queryParameters?.tweetExpansions,
+      'media.fields': queryParameters?.mediaFields,
+      'place.fields': queryParameters?.placeFields,
+      'poll.fields': queryParameters?.pollFields,
+      'tweet.fields': queryParameters?.tweetFields,
+      'user.fields': queryParameters?.userFields,
+      pagination_token: token,
+    };
+    if (this.maxResultsPerPage) query.max_results = this.maxResultsPerPage;
+    const requestData = new RequestData({ query, signal });
+    const data: GetUsersLikedTweetsResponse = await this.client._api.lists(this.listId).tweets.get(requestData);
+    this.#nextToken = data.meta.next_token;
+    this.#previousToken = data.meta.previous_token;
+    this.hasMore = data.meta.next_token ? true : false;
+    if (data.meta.result_count === 0) return listTweetsCollection;
+    const rawTweets = data.data;
+    const rawIncludes = data.includes;
+    for (const rawTweet of rawTweets) {
+      const tweet = this.client.tweets._add(rawTweet.id, { data: rawTweet, includes: rawIncludes });
+      listTweetsCollection.set(tweet.id, tweet);
+    }
+    return listTweetsCollection;
+  }
+}
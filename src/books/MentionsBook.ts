@@ -4,7 +4,7 @@ import { CustomError } from '../errors';
 import { RequestData } from '../structures';
 import type { Client } from '../client';
 import type { Tweet } from '../structures';
-import type { MentionsBookOptions } from '../typings';
+import type { MentionsBookOptions, RequestOptions } from '../typings';
 import type { GetUsersMentionTweetsQuery, GetUsersMentionTweetsResponse, Snowflake } from 'twitter-types';
 
 /**
@@ -84,29 +84,31 @@ export class MentionsBook extends BaseBook {
 
   /**
    * Fetches the next page of the book if there is one.
+   * @param options The options for the request
    * @returns A {@link Collection} of {@link Tweets} mentioning the owner of this book
    */
-  async fetchNextPage(): Promise<Collection<Snowflake, Tweet>> {
+  async fetchNextPage(options?: RequestOptions): Promise<Collection<Snowflake, Tweet>> {
     if (!this.#hasMadeInitialRequest) {
       this.#hasMadeInitialRequest = true;
-      return this.#fetchPages();
+      return this.#fetchPages(undefined, options?.signal);
     }
     if (!this.#nextToken) throw new CustomError('PAGINATED_RESPONSE_TAIL_REACHED');
-    return this.#fetchPages(this.#nextToken);
+    return this.#fetchPages(this.#nextToken, options?.signal);
   }
 
   /**
    * Fetches the previous page of the book if there is one.
+   * @param options The options for the request
    * @returns A {@link Collection} of {@link Tweets} mentioning the owner of this book
    */
-  async fetchPreviousPage(): Promise<Collection<Snowflake, Tweet>> {
+  async fetchPreviousPage(options?: RequestOptions): Promise<Collection<Snowflake, Tweet>> {
     if (!this.#previousToken) throw new CustomError('PAGINATED_RESPONSE_HEAD_REACHED');
-    return this.#fetchPages(this.#previousToken);
+    return this.#fetchPages(this.#previousToken, options?.signal);
   }
 
   // #### 🚧 PRIVATE METHODS 🚧 ####
 
-  async #fetchPages(token?: string): Promise<Collection<Snowflake, Tweet>> {
+  async #fetchPages(token?: string, signal?: AbortSignal): Promise<Collection<Snowflake, Tweet>> {
     const mentioningTweetsCollection = new Collection<Snowflake, Tweet>();
     const queryParameters = this.client.options.queryParameters;
     const query: GetUsersMentionTweetsQuery = {
@@ -123,7 +125,7 @@ export class MentionsBook extends BaseBook {
     if (this.maxResultsPerPage) query.max_results = this.maxResultsPerPage;
     if (this.afterTimestamp) query.start_time = new Date(this.afterTimestamp).toISOString();
     if (this.beforeTimestamp) query.end_time = new Date(this.beforeTimestamp).toISOString();
-    const requestData = new RequestData({ query });
+    const requestData = new RequestData({ query, signal });
     const data: GetUsersMentionTweetsResponse = await this.client._api.users(this.userId).mentions.get(requestData);
     this.#nextToken = data.meta.next_token;
     this.#previousToken = data.meta.previous_token;
@@ -4,7 +4,7 @@ import { CustomError } from '../errors';
 import { RequestData } from '../structures';
 import type { Client } from '../client';
 import type { User } from '../structures';
-import type { MutesBookOptions } from '../typings';
+import type { MutesBookOptions, RequestOptions } from '../typings';
 import type { GetUsersMutingQuery, GetUsersMutingResponse, Snowflake } from 'twitter-types';
 
 /**
@@ -60,29 +60,31 @@ export class MutesBook extends BaseBook {
 
   /**
    * Fetches the next page of the book if there is one.
+   * @param options The options for the request
    * @returns A {@link Collection} of {@link User} objects that have been muted by the authorized user
    */
-  async fetchNextPage(): Promise<Collection<Snowflake, User>> {
+  async fetchNextPage(options?: RequestOptions): Promise<Collection<Snowflake, User>> {
     if (!this.#hasMadeInitialRequest) {
       this.#hasMadeInitialRequest = true;
-      return this.#fetchPages();
+      return this.#fetchPages(undefined, options?.signal);
     }
     if (!this.#nextToken) throw new CustomError('PAGINATED_RESPONSE_TAIL_REACHED');
-    return this.#fetchPages(this.#nextToken);
+    return this.#fetchPages(this.#nextToken, options?.signal);
   }
 
   /**
    * Fetches the previous page of the book if there is one.
+   * @param options The options for the request
    * @returns A {@link Collection} of {@link User} objects that have been muted by the authorized user
    */
-  async fetchPreviousPage(): Promise<Collection<Snowflake, User>> {
+  async fetchPreviousPage(options?: RequestOptions): Promise<Collection<Snowflake, User>> {
     if (!this.#previousToken) throw new CustomError('PAGINATED_RESPONSE_HEAD_REACHED');
-    return this.#fetchPages(this.#previousToken);
+    return this.#fetchPages(this.#previousToken, options?.signal);
   }
 
   // #### 🚧 PRIVATE METHODS 🚧 ####
 
-  async #fetchPages(token?: string): Promise<Collection<Snowflake, User>> {
+  async #fetchPages(token?: string, signal?: AbortSignal): Promise<Collection<Snowflake, User>> {
     const mutedUsersCollection = new Collection<Snowflake, User>();
     const queryParameters = this.client.options.queryParameters;
     const query: GetUsersMutingQuery = {
@@ -92,7 +94,7 @@ export class MutesBook extends BaseBook {
       pagination_token: token,
     };
     if (this.maxResultsPerPage) query.max_results = this.maxResultsPerPage;
-    const requestData = new RequestData({ query, isUserContext: true });
+    const requestData = new RequestData({ query, isUserContext: true, signal });
     const data: GetUsersMutingResponse = await this.client._api.users(this.userId).muting.get(requestData);
     this.#nextToken = data.meta.next_token;
     this.#previousToken = data.meta.previous_token;
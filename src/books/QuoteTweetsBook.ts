@@ -0,0 +1,111 @@
+import { Collection } from '../util';
+import { BaseBook } from './BaseBook';
+import { CustomError } from '../errors';
+import { RequestData } from '../structures';
+import type { Client } from '../client';
+import type { Tweet } from '../structures';
+import type { QuoteTweetsBookOptions, RequestOptions } from '../typings';
+import type {
+  GetUsersTweetsQuery,
+  GetUsersTweetsResponse,
+  Snowflake,
+  TweetTypeExcludesRequestParameter,
+} from 'twitter-types';
+
+/**
+ * A class for fetching tweets that quote a tweet
+ */
+export class QuoteTweetsBook extends BaseBook {
+  /**
+   * The token for fetching next page
+   */
+  #nextToken?: string;
+
+  /**
+   * Whether an initial request for fetching the first page has already been made
+   *
+   * **Note**: Use this to not throw `PAGINATED_RESPONSE_TAIL_REACHED` error for initial page request in {@link QuoteTweetsBook.fetchNextPage}
+   */
+  #hasMadeInitialRequest?: boolean;
+
+  /**
+   * The ID of the tweet this book belongs to
+   */
+  tweetId: Snowflake;
+
+  /**
+   * The maximum amount of tweets that will be fetched per page.
+   *
+   * **Note:** This is the max count and will **not** always be equal to the number of tweets fetched in a page
+   */
+  maxResultsPerPage: number | null;
+
+  /**
+   * Whether there are more pages of tweets to be fetched
+   *
+   * **Note:** Use this as a check for deciding whether to fetch more pages
+   */
+  hasMore: boolean;
+
+  /**
+   * The types of tweets that the book will not fetch
+   */
+  exclude: Array<TweetTypeExcludesRequestParameter> | null;
+
+  /**
+   * @param client The logged in {@link Client} instance
+   * @param options The options to initialize the quote tweets book with
+   */
+  constructor(client: Client, options: QuoteTweetsBookOptions) {
+    super(client);
+    this.hasMore = true;
+    this.tweetId = options.tweetId;
+    this.exclude = options.exclude ?? null;
+    this.maxResultsPerPage = options.maxResultsPerPage ?? null;
+  }
+
+  /**
+   * Fetches the next page of the book if there is one.
+   * @param options The options for the request
+   * @returns A {@link Collection} of {@link Tweet} objects quoting the tweet of this book
+   */
+  async fetchNextPage(options?: RequestOptions): Promise<Collection<Snowflake, Tweet>> {
+    if (!this.#hasMadeInitialRequest) {
+      this.#hasMadeInitialRequest = true;
+      return this.#fetchPages(undefined, options?.signal);
+    }
+    if (!this.#nextToken) throw new CustomError('PAGINATED_RESPONSE_TAIL_REACHED');
+    return this.#fetchPages(this.#nextToken, options?.signal);
+  }
+
+  // #### 🚧 PRIVATE METHODS 🚧 ####
+
+  async #fetchPages(token?: string, signal?: AbortSignal): Promise<Collection<Snowflake, Tweet>> {
+    const quoteTweetsCollection = new Collection<Snowflake, Tweet>();
+    const queryParameters = this.client.options.queryParameters;
+    // The quote tweets endpoint takes a subset of the query of the composed tweets one and responds in the same shape
+    const query: GetUsersTweetsQuery = {
+      expansions: queryParameters?.tweetExpansions,
+      'media.fields': queryParameters?.mediaFields,
+      'place.fields': queryParameters?.placeFields,
+      'poll.fields': queryParameters?.pollFields,
+      'tweet.fields': queryParameters?.tweetFields,
+      'user.fields': queryParameters?.userFields,
+      pagination_token: token,
+    };
+    if (this.exclude) query.exclude = this.exclude;
+    if (this.maxResultsPerPage) query.max_results = this.maxResultsPerPage;
+    const requestData = new RequestData({ query, signal });
+    const data: GetUsersTweetsResponse = await this.client._api.tweets(this.tweetId).quote_tweets.get(requestData);
+    this.#nextToken = data.meta.next_token;
+    this.hasMore = data.meta.next_token ? true : false;
+    if (data.meta.result_count === 0) return quoteTweetsCollection;
+    const rawTweets = data.data;
+    const rawIncludes = data.includes;
+    for (const rawTweet of rawTweets) {
+      const tweet = this.client.tweets._add(rawTweet.id, { data: rawTweet, includes: rawIncludes });
+      quoteTweetsCollection.set(tweet.id, tweet);
+    }
+    return quoteTweetsCollection;
+  }
+}
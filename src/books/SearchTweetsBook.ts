@@ -1,10 +1,10 @@
-import { Collection } from '../util';
+import { Collection, SearchLimits } from '../util';
 import { BaseBook } from './BaseBook';
 import { CustomError } from '../errors';
 import { RequestData } from '../structures';
 import type { Client } from '../client';
 import type { Tweet } from '../structures';
-import type { SearchTweetsBookOptions } from '../typings';
+import type { SearchTweetsBookOptions, RequestOptions } from '../typings';
 import type { GetTweetSearchQuery, GetTweetSearchResponse, Snowflake } from 'twitter-types';
 
 /**
@@ -42,6 +42,11 @@ export class SearchTweetsBook extends BaseBook {
    */
   query: string;
 
+  /**
+   * Whether the book searches the full archive of tweets instead of the ones from the last seven days
+   */
+  archive: boolean;
+
   /**
    * The book will fetch tweets that were created after this tweet ID
    */
@@ -70,6 +75,7 @@ export class SearchTweetsBook extends BaseBook {
     super(client);
     this.hasMore = true;
     this.query = options.query;
+    this.archive = options.archive ?? false;
     this.afterTweetId = options.afterTweetId ?? null;
     this.beforeTweetId = options.beforeTweetId ?? null;
     this.afterTimestamp = options.afterTimestamp ?? null;
@@ -79,20 +85,21 @@ export class SearchTweetsBook extends BaseBook {
 
   /**
    * Fetches the next page of the book if there is one.
+   * @param options The options for the request
    * @returns A {@link Collection} of {@link Tweet} objects matching the search query
    */
-  async fetchNextPage(): Promise<Collection<Snowflake, Tweet>> {
+  async fetchNextPage(options?: RequestOptions): Promise<Collection<Snowflake, Tweet>> {
     if (!this.#hasMadeInitialRequest) {
       this.#hasMadeInitialRequest = true;
-      return this.#fetchPages();
+      return this.#fetchPages(undefined, options?.signal);
     }
     if (!this.#nextToken) throw new CustomError('PAGINATED_RESPONSE_TAIL_REACHED');
-    return this.#fetchPages(this.#nextToken);
+    return this.#fetchPages(this.#nextToken, options?.signal);
   }
 
   // #### 🚧 PRIVATE METHODS 🚧 ####
 
-  async #fetchPages(token?: string): Promise<Collection<Snowflake, Tweet>> {
+  async #fetchPages(token?: string, signal?: AbortSignal): Promise<Collection<Snowflake, Tweet>> {
     const tweetsCollection = new Collection<Snowflake, Tweet>();
     const queryParameters = this.client.options.queryParameters;
     const query: GetTweetSearchQuery = {
@@ -107,11 +114,17 @@ export class SearchTweetsBook extends BaseBook {
     };
     if (this.afterTweetId) query.since_id = this.afterTweetId;
     if (this.beforeTweetId) query.until_id = this.beforeTweetId;
-    if (this.maxResultsPerPage) query.max_results = this.maxResultsPerPage;
+    if (this.maxResultsPerPage) query.max_results = this.#clampMaxResults(this.maxResultsPerPage);
     if (this.afterTimestamp) query.start_time = new Date(this.afterTimestamp).toISOString();
     if (this.beforeTimestamp) query.end_time = new Date(this.beforeTimestamp).toISOString();
-    const requestData = new RequestData({ query });
-    const data: GetTweetSearchResponse = await this.client._api.tweets.search.recent.get(requestData);
+    const requestData = new RequestData({ query, signal });
+    let data: GetTweetSearchResponse;
+    if (this.archive) {
+      await this.client.rest.pace('get', '/tweets/search/all', signal);
+      data = await this.client._api.tweets.search.all.get(requestData);
+    } else {
+      data = await this.client._api.tweets.search.recent.get(requestData);
+    }
     this.#nextToken = data.meta.next_token;
     this.hasMore = data.meta.next_token ? true : false;
     if (data.meta.result_count === 0) return tweetsCollection;
@@ -123,4 +136,11 @@ export class SearchTweetsBook extends BaseBook {
     }
     return tweetsCollection;
   }
+
+  #clampMaxResults(maxResults: number): number {
+    const upperBound = this.archive
+      ? SearchLimits.ARCHIVE_MAX_RESULTS_PER_PAGE
+      : SearchLimits.RECENT_MAX_RESULTS_PER_PAGE;
+    return Math.min(Math.max(maxResults, SearchLimits.MIN_RESULTS_PER_PAGE), upperBound);
+  }
 }
@@ -2,7 +2,7 @@ import { BaseBook } from './BaseBook';
 import { CustomError } from '../errors';
 import { RequestData, TweetCountBucket } from '../structures';
 import type { Client } from '../client';
-import type { TweetsCountBookOptions } from '../typings';
+import type { TweetsCountBookOptions, RequestOptions } from '../typings';
 import type { GetTweetCountsQuery, GetTweetCountsResponse, Granularity, Snowflake } from 'twitter-types';
 
 /**
@@ -33,6 +33,11 @@ export class TweetsCountBook extends BaseBook {
    */
   query: string;
 
+  /**
+   * Whether the book counts tweets from the full archive instead of the ones from the last seven days
+   */
+  fullArchive: boolean;
+
   /**
    * The book will group buckets according to this granularity
    */
@@ -66,6 +71,7 @@ export class TweetsCountBook extends BaseBook {
     super(client);
     this.hasMore = true;
     this.query = options.query;
+    this.fullArchive = options.fullArchive ?? false;
     this.granularity = options.granularity ?? null;
     this.afterTweetId = options.afterTweetId ?? null;
     this.beforeTweetId = options.beforeTweetId ?? null;
@@ -75,20 +81,21 @@ export class TweetsCountBook extends BaseBook {
 
   /**
    * Fetches the next page of the book if there is one.
+   * @param options The options for the request
    * @returns
    */
-  async fetchNextPage(): Promise<Array<TweetCountBucket>> {
+  async fetchNextPage(options?: RequestOptions): Promise<Array<TweetCountBucket>> {
     if (!this.#hasMadeInitialRequest) {
       this.#hasMadeInitialRequest = true;
-      return this.#fetchPages();
+      return this.#fetchPages(undefined, options?.signal);
     }
     if (!this.#nextToken) throw new CustomError('PAGINATED_RESPONSE_TAIL_REACHED');
-    return this.#fetchPages(this.#nextToken);
+    return this.#fetchPages(this.#nextToken, options?.signal);
   }
 
   // #### 🚧 PRIVATE METHODS 🚧 ####
 
-  async #fetchPages(token?: string): Promise<Array<TweetCountBucket>> {
+  async #fetchPages(token?: string, signal?: AbortSignal): Promise<Array<TweetCountBucket>> {
     const tweetCountBuckets: Array<TweetCountBucket> = [];
     const query: GetTweetCountsQuery = {
       query: this.query,
@@ -99,8 +106,14 @@ export class TweetsCountBook extends BaseBook {
     if (this.beforeTweetId) query.until_id = this.beforeTweetId;
     if (this.afterTimestamp) query.start_time = new Date(this.afterTimestamp).toISOString();
     if (this.beforeTimestamp) query.end_time = new Date(this.beforeTimestamp).toISOString();
-    const requestData = new RequestData({ query });
-    const data: GetTweetCountsResponse = await this.client._api.tweets.counts.recent.get(requestData);
+    const requestData = new RequestData({ query, signal });
+    let data: GetTweetCountsResponse;
+    if (this.fullArchive) {
+      await this.client.rest.pace('get', '/tweets/counts/all', signal);
+      data = await this.client._api.tweets.counts.all.get(requestData);
+    } else {
+      data = await this.client._api.tweets.counts.recent.get(requestData);
+    }
     this.#nextToken = data.meta.next_token;
     this.hasMore = data.meta.next_token ? true : false;
     if (data.meta.total_tweet_count === 0) return tweetCountBuckets;
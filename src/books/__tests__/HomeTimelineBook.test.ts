@@ -0,0 +1,155 @@
+import { withMockServer } from '../../__tests__/mockServer';
+import type { RequestListener } from 'http';
+import type { Tweet } from '../../structures';
+
+test('page through the home timeline and poll it for new tweets', async () => {
+  const urls: Array<string | undefined> = [];
+  const handler: RequestListener = (req, res) => {
+    urls.push(req.url);
+    res.setHeader('content-type', 'application/json');
+    if (req.url?.startsWith('/2/users/by/username')) {
+      res.end(JSON.stringify({ data: { id: '1', name: 'user', username: 'user' } }));
+    } else if (req.url?.includes('since_id=5')) {
+      const data = [
+        { id: '7', text: 'newest' },
+        { id: '6', text: 'newer' },
+      ];
+      res.end(JSON.stringify({ data, meta: { result_count: 2, newest_id: '7', oldest_id: '6' } }));
+    } else if (req.url?.includes('since_id')) {
+      res.end(JSON.stringify({ meta: { result_count: 0 } }));
+    } else {
+      const data = [{ id: '5', text: 'hello' }];
+      res.end(JSON.stringify({ data, meta: { result_count: 1, newest_id: '5', oldest_id: '5', next_token: 'next' } }));
+    }
+  };
+  await withMockServer(handler, async ({ client }) => {
+    await client.login({
+      consumerKey: 'key',
+      consumerSecret: 'secret',
+      accessToken: 'token',
+      accessTokenSecret: 'token-secret',
+      bearerToken: 'bearer-token',
+      username: 'user',
+    });
+    if (!client.me) throw new Error('client did not log in');
+    const [book, firstPage] = await client.me.fetchHomeTimeline({ exclude: ['replies'], maxResultsPerPage: 10 });
+    expect(urls[1]).toMatch(/^\/2\/users\/1\/timelines\/reverse_chronological\?.*exclude=replies.*max_results=10/);
+    expect(firstPage.get('5')?.text).toBe('hello');
+    expect(book.hasMore).toBe(true);
+    expect(book.newestTweetId).toBe('5');
+
+    const createdTweets: Array<Tweet> = [];
+    const polled = new Promise<void>(resolve => {
+      client.on('homeTimelineTweetCreate', tweet => {
+        createdTweets.push(tweet);
+        if (createdTweets.length === 2) resolve();
+      });
+    });
+    book.startPolling(10);
+    expect(book.polling).toBe(true);
+    await polled;
+    book.stopPolling();
+    expect(book.polling).toBe(false);
+    expect(createdTweets.map(tweet => tweet.id)).toEqual(['6', '7']);
+    expect(book.newestTweetId).toBe('7');
+  });
+});
+
+test('poll an empty home timeline for new tweets regardless of its time bounds', async () => {
+  const urls: Array<string | undefined> = [];
+  const handler: RequestListener = (req, res) => {
+    urls.push(req.url);
+    res.setHeader('content-type', 'application/json');
+    if (req.url?.startsWith('/2/users/by/username')) {
+      res.end(JSON.stringify({ data: { id: '1', name: 'user', username: 'user' } }));
+    } else if (urls.length <= 3 || req.url?.includes('since_id=8')) {
+      res.end(JSON.stringify({ meta: { result_count: 0 } }));
+    } else {
+      const data = [{ id: '8', text: 'first' }];
+      res.end(JSON.stringify({ data, meta: { result_count: 1, newest_id: '8', oldest_id: '8' } }));
+    }
+  };
+  await withMockServer(handler, async ({ client }) => {
+    await client.login({
+      consumerKey: 'key',
+      consumerSecret: 'secret',
+      accessToken: 'token',
+      accessTokenSecret: 'token-secret',
+      bearerToken: 'bearer-token',
+      username: 'user',
+    });
+    if (!client.me) throw new Error('client did not log in');
+    const [book, firstPage] = await client.me.fetchHomeTimeline({ beforeTime: Date.now() - 60000 });
+    expect(firstPage.size).toBe(0);
+    expect(urls[1]).toContain('end_time=');
+
+    const created = new Promise<Tweet>(resolve => client.once('homeTimelineTweetCreate', resolve));
+    book.startPolling(10);
+    const tweet = await created;
+    book.stopPolling();
+    expect(tweet.id).toBe('8');
+    expect(urls.slice(2).some(url => url?.includes('end_time'))).toBe(false);
+  });
+});
+
+test('keep the newest tweet ID when fetching the new tweets fails or polling stops halfway', async () => {
+  let failedPage = false;
+  let pageRequested: () => void = () => undefined;
+  const handler: RequestListener = (req, res) => {
+    res.setHeader('content-type', 'application/json');
+    const url = req.url ?? '';
+    if (url.startsWith('/2/users/by/username')) {
+      res.end(JSON.stringify({ data: { id: '1', name: 'user', username: 'user' } }));
+    } else if (url.includes('pagination_token=older') && !failedPage) {
+      failedPage = true;
+      res.statusCode = 400;
+      res.end(
+        JSON.stringify({
+          title: 'Invalid Request',
+          detail: 'One or more parameters are invalid.',
+          type: 'about:blank',
+        }),
+      );
+    } else if (url.includes('pagination_token=older')) {
+      res.end(JSON.stringify({ data: [{ id: '6', text: 'six' }], meta: { result_count: 1, newest_id: '6' } }));
+    } else if (url.includes('pagination_token=slower')) {
+      // Left unanswered so that polling is stopped while the second page is being fetched
+      pageRequested();
+    } else if (url.includes('since_id=7')) {
+      const meta = { result_count: 1, newest_id: '8', next_token: 'slower' };
+      res.end(JSON.stringify({ data: [{ id: '8', text: 'eight' }], meta }));
+    } else if (url.includes('since_id=5')) {
+      const meta = { result_count: 1, newest_id: '7', next_token: 'older' };
+      res.end(JSON.stringify({ data: [{ id: '7', text: 'seven' }], meta }));
+    } else {
+      res.end(JSON.stringify({ data: [{ id: '5', text: 'five' }], meta: { result_count: 1, newest_id: '5' } }));
+    }
+  };
+  await withMockServer(handler, async ({ client }) => {
+    await client.login({
+      consumerKey: 'key',
+      consumerSecret: 'secret',
+      accessToken: 'token',
+      accessTokenSecret: 'token-secret',
+      bearerToken: 'bearer-token',
+      username: 'user',
+    });
+    if (!client.me) throw new Error('client did not log in');
+    const [book] = await client.me.fetchHomeTimeline();
+    await expect(book.fetchNewTweets()).rejects.toThrow();
+    expect(book.newestTweetId).toBe('5');
+    const newTweets = await book.fetchNewTweets();
+    expect([...newTweets.keys()]).toEqual(['7', '6']);
+    expect(book.newestTweetId).toBe('7');
+
+    const created = jest.fn();
+    client.on('homeTimelineTweetCreate', created);
+    const requested = new Promise<void>(resolve => (pageRequested = resolve));
+    book.startPolling(10);
+    await requested;
+    book.stopPolling();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(created).not.toHaveBeenCalled();
+    expect(book.newestTweetId).toBe('7');
+  });
+});
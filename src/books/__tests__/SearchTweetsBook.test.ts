@@ -0,0 +1,27 @@
+import { withMockServer } from '../../__tests__/mockServer';
+import type { RequestListener } from 'http';
+
+test('pace the requests of full-archive books running at the same time', async () => {
+  const timestamps: Array<number> = [];
+  const handler: RequestListener = (req, res) => {
+    timestamps.push(Date.now());
+    res.setHeader('content-type', 'application/json');
+    if (req.url?.startsWith('/2/tweets/counts/all')) {
+      const data = [{ start: '2021-01-01T00:00:00.000Z', end: '2021-01-02T00:00:00.000Z', tweet_count: 1 }];
+      res.end(JSON.stringify({ data, meta: { total_tweet_count: 1 } }));
+    } else {
+      res.end(JSON.stringify({ data: [{ id: '1', text: 'cats' }], meta: { result_count: 1 } }));
+    }
+  };
+  await withMockServer(handler, async ({ client }) => {
+    await client.loginWithBearerToken('bearer-token');
+    await Promise.all([
+      client.tweets.search('cats', { archive: true }),
+      client.tweets.search('dogs', { archive: true }),
+      client.tweets.count('birds', { fullArchive: true }),
+    ]);
+    expect(timestamps).toHaveLength(3);
+    expect(timestamps[1] - timestamps[0]).toBeGreaterThanOrEqual(950);
+    expect(timestamps[2] - timestamps[1]).toBeGreaterThanOrEqual(950);
+  });
+});
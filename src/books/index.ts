@@ -1,10 +1,20 @@
 export * from './BaseBook';
 export * from './BlocksBook';
+export * from './BookmarksBook';
 export * from './ComposedTweetsBook';
+export * from './DMEventsBook';
+export * from './FollowedListsBook';
 export * from './FollowersBook';
 export * from './FollowingsBook';
+export * from './HomeTimelineBook';
 export * from './LikedTweetsBook';
+export * from './ListFollowersBook';
+export * from './ListMembersBook';
+export * from './ListMembershipsBook';
+export * from './ListTweetsBook';
 export * from './MentionsBook';
 export * from './MutesBook';
+export * from './OwnedListsBook';
+export * from './QuoteTweetsBook';
 export * from './SearchTweetsBook';
 export * from './TweetsCountBook';
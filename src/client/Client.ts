@@ -1,19 +1,28 @@
+import { fetch } from 'undici';
+import { URLSearchParams } from 'url';
 import { BaseClient } from './BaseClient';
+import { OAuth2Helper } from './OAuth2Helper';
 import { RESTManager } from '../rest/RESTManager';
-import { ClientEvents, Collection, StreamType } from '../util';
+import { AuthProviderName, ClientEvents, Collection } from '../util';
+import { BearerAuthProvider, OAuth1AuthProvider, OAuth2UserAuthProvider } from '../auth';
+import { StreamManager } from '../streams';
 import { CustomError, CustomTypeError } from '../errors';
-import { UserManager, TweetManager, SpaceManager, ListManager, FilteredStreamRuleManager } from '../managers';
-import { ClientCredentials, RequestData, ClientUser, MatchingRule } from '../structures';
-import type { Response } from 'undici';
-import type { ClientCredentialsInterface, ClientOptions } from '../typings';
+import {
+  UserManager,
+  TweetManager,
+  SpaceManager,
+  ListManager,
+  FilteredStreamRuleManager,
+  MediaManager,
+  DirectMessageManager,
+} from '../managers';
+import { ClientCredentials, RequestData, ClientUser } from '../structures';
+import type { AuthProvider, ClientCredentialsInterface, ClientOptions } from '../typings';
 import type {
-  GetFilteredTweetStreamQuery,
-  GetFilteredTweetStreamResponse,
-  GetSampledTweetStreamQuery,
-  GetSampledTweetStreamResponse,
+  GetSingleUserByIdQuery,
+  GetSingleUserByIdResponse,
   GetSingleUserByUsernameQuery,
   GetSingleUserByUsernameResponse,
-  Snowflake,
 } from 'twitter-types';
 
 /**
@@ -37,13 +46,33 @@ export class Client extends BaseClient {
    */
   credentials: ClientCredentials | null;
 
+  /**
+   * The consumer key and secret that were used to generate the bearer token in {@link Client.loginWithAppCredentials}
+   */
+  #appCredentials: { consumerKey: string; consumerSecret: string } | null;
+
+  /**
+   * The helper managing the OAuth 2.0 token of the user this client represents
+   *
+   * **Note**: This will be available only if the client was logged in using {@link Client.loginWithOAuth2}
+   */
+  oauth2: OAuth2Helper | null;
+
   /**
    * The twitter user this client represents
    *
    * **Note**: This will be available only if the client was logged in using {@link Client.login}
+   * or {@link Client.loginWithOAuth2}
    */
   me: ClientUser | null;
 
+  /**
+   * The providers for authorizing the API requests made by the client, keyed by their names. Ships with the
+   * providers named in {@link AuthProviderName}, which can be replaced, and custom ones can be added and picked
+   * per request through {@link RequestData.authProvider}
+   */
+  authProviders: Collection<string, AuthProvider>;
+
   /**
    * The manager for twitter API requests made by the client
    */
@@ -74,6 +103,21 @@ export class Client extends BaseClient {
    */
   filteredStreamRules: FilteredStreamRuleManager;
 
+  /**
+   * The manager for uploaded {@link Media} objects
+   */
+  media: MediaManager;
+
+  /**
+   * The manager for {@link DMEvent} objects
+   */
+  directMessages: DirectMessageManager;
+
+  /**
+   * The manager for the connections to the tweet streams
+   */
+  streams: StreamManager;
+
   /**
    * @param options The options to initialize the client with
    */
@@ -86,14 +130,27 @@ export class Client extends BaseClient {
     Object.defineProperty(this, 'credentials', { writable: true, enumerable: false });
     this.credentials = null;
 
+    this.#appCredentials = null;
+
+    Object.defineProperty(this, 'oauth2', { writable: true, enumerable: false });
+    this.oauth2 = null;
+
     this.me = null;
     this.readyAt = null;
+    this.authProviders = new Collection<string, AuthProvider>([
+      [AuthProviderName.BEARER, new BearerAuthProvider(this)],
+      [AuthProviderName.OAUTH1, new OAuth1AuthProvider(this)],
+      [AuthProviderName.OAUTH2_USER, new OAuth2UserAuthProvider(this)],
+    ]);
     this.rest = new RESTManager(this);
     this.tweets = new TweetManager(this);
     this.users = new UserManager(this);
     this.spaces = new SpaceManager(this);
     this.lists = new ListManager(this);
     this.filteredStreamRules = new FilteredStreamRuleManager(this);
+    this.media = new MediaManager(this);
+    this.directMessages = new DirectMessageManager(this);
+    this.streams = new StreamManager(this);
   }
 
   /**
@@ -125,13 +182,42 @@ export class Client extends BaseClient {
     this.readyAt = new Date();
 
     this.emit(ClientEvents.READY, this);
-    if (this.options.events.includes('FILTERED_TWEET_CREATE')) {
-      this.#connectToFilteredStream();
+    this.#connectToOptedInStreams();
+    return this.token;
+  }
+
+  /**
+   * Generates a bearer token using the consumer key and secret of an app and sets the client ready to make
+   * bearer token authorized API requests with it. Emits a `ready` event on success.
+   * @param consumerKey The consumer key of the app
+   * @param consumerSecret The consumer secret of the app
+   * @returns The generated bearer token as a `Promise`
+   *
+   * @throws {@link CustomTypeError} The exception is thrown if the `consumerKey` or `consumerSecret` param is not a string
+   */
+  async loginWithAppCredentials(consumerKey: string, consumerSecret: string): Promise<string> {
+    if (typeof consumerKey !== 'string') {
+      throw new CustomTypeError('INVALID_TYPE', 'consumerKey', 'string', false);
     }
-    if (this.options.events.includes('SAMPLED_TWEET_CREATE')) {
-      this.#connectToSampledStream();
+    if (typeof consumerSecret !== 'string') {
+      throw new CustomTypeError('INVALID_TYPE', 'consumerSecret', 'string', false);
     }
-    return this.token;
+    this.#appCredentials = { consumerKey, consumerSecret };
+    const data = await this.#requestAppToken('token', { grant_type: 'client_credentials' });
+    if (data.token_type !== 'bearer') throw new CustomError('BEARER_TOKEN_REQUEST_FAILED', 'unexpected token type');
+    return this.loginWithBearerToken(data.access_token);
+  }
+
+  /**
+   * Invalidates the bearer token generated in {@link Client.loginWithAppCredentials}, after which the client
+   * can no longer make bearer token authorized API requests.
+   * @returns The invalidated bearer token as a `Promise`
+   */
+  async invalidateBearerToken(): Promise<string> {
+    if (!this.token) throw new CustomError('NO_BEARER_TOKEN');
+    const data = await this.#requestAppToken('invalidate_token', { access_token: this.token });
+    this.token = null;
+    return data.access_token;
   }
 
   /**
@@ -156,17 +242,69 @@ export class Client extends BaseClient {
       throw new CustomError('USER_CONTEXT_LOGIN_ERROR', this.credentials.username);
 
     this.emit(ClientEvents.READY, this);
+    this.#connectToOptedInStreams();
+    return this.credentials;
+  }
+
+  /**
+   * Sets the client ready to make user context authorized API requests using an OAuth 2.0 token, which gets
+   * refreshed automatically before it expires. Emits a `ready` event on success.
+   * @param helper The helper that holds the token exchanged for the authorization code of the user
+   * @returns The {@link ClientUser} the token belongs to as a `Promise`
+   *
+   * @throws {@link CustomTypeError} The exception is thrown if the `helper` param is not an instance of {@link OAuth2Helper}
+   */
+  async loginWithOAuth2(helper: OAuth2Helper): Promise<ClientUser> {
+    if (!(helper instanceof OAuth2Helper)) {
+      throw new CustomTypeError('INVALID_TYPE', 'helper', 'instance of OAuth2Helper', true);
+    }
+    if (!helper.token) throw new CustomError('NO_OAUTH2_TOKEN');
+    helper.client = this;
+    this.oauth2 = helper;
+    this.readyAt = new Date();
+
+    this.me = await this.#fetchAuthorizedUser();
+
+    this.emit(ClientEvents.READY, this);
+    this.#connectToOptedInStreams();
+    return this.me;
+  }
+
+  // #### 🚧 PRIVATE METHODS 🚧 ####
+
+  async #requestAppToken(endpoint: string, params: Record<string, string>): Promise<Record<string, string>> {
+    if (!this.#appCredentials) throw new CustomError('NO_APP_CREDENTIALS');
+    const { consumerKey, consumerSecret } = this.#appCredentials;
+    const credentials = Buffer.from(`${encodeURIComponent(consumerKey)}:${encodeURIComponent(consumerSecret)}`);
+    // These endpoints are not versioned like the rest of the API
+    const res = await fetch(`${this.options.api?.baseURL}/oauth2/${endpoint}`, {
+      method: 'post',
+      headers: {
+        Authorization: `Basic ${credentials.toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded;charset=UTF-8',
+      },
+      body: new URLSearchParams(params).toString(),
+    });
+    const data = (await res.json()) as Record<string, string> & { errors?: Array<{ message: string }> };
+    if (!res.ok || typeof data.access_token !== 'string') {
+      throw new CustomError(
+        'BEARER_TOKEN_REQUEST_FAILED',
+        data.errors?.[0]?.message ?? `${res.status} ${res.statusText}`,
+      );
+    }
+    return data;
+  }
+
+  #connectToOptedInStreams(): void {
+    // Failures while connecting are surfaced through the `streamDisconnect` event
     if (this.options.events.includes('FILTERED_TWEET_CREATE')) {
-      this.#connectToFilteredStream();
+      this.streams.filtered.connect().catch(() => undefined);
     }
     if (this.options.events.includes('SAMPLED_TWEET_CREATE')) {
-      this.#connectToSampledStream();
+      this.streams.sampled.connect().catch(() => undefined);
     }
-    return this.credentials;
   }
 
-  // #### 🚧 PRIVATE METHODS 🚧 ####
-
   async #fetchClientUser(username: string): Promise<ClientUser> {
     const queryParameters = this.options.queryParameters;
     const query: GetSingleUserByUsernameQuery = {
@@ -179,81 +317,15 @@ export class Client extends BaseClient {
     return new ClientUser(this, data);
   }
 
-  async #connectToFilteredStream(): Promise<void> {
-    const queryParameters = this.options.queryParameters;
-    const query: GetFilteredTweetStreamQuery = {
-      expansions: queryParameters?.tweetExpansions,
-      'media.fields': queryParameters?.mediaFields,
-      'place.fields': queryParameters?.placeFields,
-      'poll.fields': queryParameters?.pollFields,
-      'tweet.fields': queryParameters?.tweetFields,
-      'user.fields': queryParameters?.userFields,
-    };
-    const requestData = new RequestData({ query, isStreaming: true });
-    const { body }: Response = await this._api.tweets.search.stream.get(requestData);
-    if (!body) throw Error('No response body');
-    try {
-      for await (const chunk of body) {
-        const buffer = Buffer.from(chunk);
-        const data = buffer.toString();
-        if (data === '\r\n') {
-          if (this.options.events.includes('KEEP_ALIVE_SIGNAL')) {
-            this.emit(ClientEvents.KEEP_ALIVE_SIGNAL, StreamType.FILTERED);
-          }
-          continue;
-        }
-        try {
-          const rawData: GetFilteredTweetStreamResponse = JSON.parse(data);
-          const tweet = this.tweets._add(rawData.data.id, rawData, false);
-          const matchingRules = rawData.matching_rules.reduce((col, rule) => {
-            col.set(rule.id, new MatchingRule(rule));
-            return col;
-          }, new Collection<Snowflake, MatchingRule>());
-          this.emit(ClientEvents.FILTERED_TWEET_CREATE, tweet, matchingRules);
-        } catch (error) {
-          // twitter sends corrupted data sometimes that throws error while parsing it
-        }
-      }
-    } catch (error) {
-      console.log(error);
-      // TODO: add a reconnection mechanism
-    }
-  }
-
-  async #connectToSampledStream(): Promise<void> {
+  async #fetchAuthorizedUser(): Promise<ClientUser> {
     const queryParameters = this.options.queryParameters;
-    const query: GetSampledTweetStreamQuery = {
-      expansions: queryParameters?.tweetExpansions,
-      'media.fields': queryParameters?.mediaFields,
-      'place.fields': queryParameters?.placeFields,
-      'poll.fields': queryParameters?.pollFields,
+    const query: GetSingleUserByIdQuery = {
+      expansions: queryParameters?.userExpansions,
       'tweet.fields': queryParameters?.tweetFields,
       'user.fields': queryParameters?.userFields,
     };
-    const requestData = new RequestData({ query, isStreaming: true });
-    const { body }: Response = await this._api.tweets.sample.stream.get(requestData);
-    if (!body) throw Error('No response body');
-    try {
-      for await (const chunk of body) {
-        const buffer = Buffer.from(chunk);
-        const data = buffer.toString();
-        if (data === '\r\n') {
-          if (this.options.events.includes('KEEP_ALIVE_SIGNAL')) {
-            this.emit(ClientEvents.KEEP_ALIVE_SIGNAL, StreamType.SAMPLED);
-          }
-          continue;
-        }
-        try {
-          const rawTweet: GetSampledTweetStreamResponse = JSON.parse(data);
-          const tweet = this.tweets._add(rawTweet.data.id, rawTweet, false);
-          this.emit(ClientEvents.SAMPLED_TWEET_CREATE, tweet);
-        } catch (error) {
-          // twitter sends corrupted data sometimes that throws error while parsing it
-        }
-      }
-    } catch (error) {
-      console.log(error);
-      // TODO: add a reconnection mechanism
-    }
+    const requestData = new RequestData({ query, isUserContext: true });
+    const data: GetSingleUserByIdResponse = await this._api.users.me.get(requestData);
+    return new ClientUser(this, data);
   }
 }
@@ -0,0 +1,93 @@
+import { Client } from './Client';
+import { OAuth2Helper } from './OAuth2Helper';
+import { Collection } from '../util';
+import { CustomError, CustomTypeError } from '../errors';
+import type { ClientCredentialsInterface, ClientOptions } from '../typings';
+
+/**
+ * The class for acting on behalf of multiple accounts of the same app. Every account gets its own {@link Client}
+ * holding its user context credentials, while the structure caches and the rate limits of app-only requests
+ * are shared across all of them
+ *
+ * **Note**: The structures in the shared caches act through the client that fetched them, so use
+ * {@link ClientPool.as} rather than the methods of a cached structure to pick the account to act on behalf of
+ */
+export class ClientPool {
+  /**
+   * The client making the app-only requests of the pool, whose caches and request handlers are shared
+   * with the clients of the accounts
+   */
+  client: Client;
+
+  /**
+   * The clients of the accounts in the pool, keyed by the names they were added with
+   */
+  accounts: Collection<string, Client>;
+
+  /**
+   * @param options The options to initialize the clients of the pool with
+   */
+  constructor(options?: ClientOptions) {
+    this.client = new Client(options);
+    this.accounts = new Collection();
+  }
+
+  /**
+   * Sets the pool ready to make bearer token authorized API requests.
+   * @param token The bearer token of the app
+   * @returns The provided bearer token as a `Promise`
+   */
+  async loginWithBearerToken(token: string): Promise<string> {
+    await this.client.loginWithBearerToken(token);
+    for (const account of this.accounts.values()) account.token = token;
+    return token;
+  }
+
+  /**
+   * Adds an account to the pool and logs in its client.
+   * @param name The name to refer to the account with in {@link ClientPool.as}
+   * @param credentials The OAuth 1.0a credentials of the account, or an {@link OAuth2Helper} holding its OAuth 2.0 token
+   * @returns The logged in {@link Client} of the account as a `Promise`
+   */
+  async addAccount(name: string, credentials: ClientCredentialsInterface | OAuth2Helper): Promise<Client> {
+    if (typeof name !== 'string') throw new CustomTypeError('INVALID_TYPE', 'name', 'string', false);
+    const options = this.client.options;
+    // The tweet streams are app-only, so they are left to the client of the pool
+    const account = new Client({
+      ...options,
+      events: options.events.filter(event => event !== 'FILTERED_TWEET_CREATE' && event !== 'SAMPLED_TWEET_CREATE'),
+    });
+    account.rest.requestHandlers = this.client.rest.requestHandlers;
+    account.rest.requestPacers = this.client.rest.requestPacers;
+    account.tweets.cache = this.client.tweets.cache;
+    account.users.cache = this.client.users.cache;
+    account.spaces.cache = this.client.spaces.cache;
+    account.lists.cache = this.client.lists.cache;
+    account.filteredStreamRules.cache = this.client.filteredStreamRules.cache;
+    account.token = this.client.token;
+    if (credentials instanceof OAuth2Helper) await account.loginWithOAuth2(credentials);
+    else await account.login(credentials);
+    this.accounts.set(name, account);
+    return account;
+  }
+
+  /**
+   * Removes an account from the pool.
+   * @param name The name of the account
+   * @returns A boolean representing whether the account was in the pool
+   */
+  removeAccount(name: string): boolean {
+    return this.accounts.delete(name);
+  }
+
+  /**
+   * Gets the client for acting on behalf of an account.
+   * @param name The name of the account
+   * @returns The {@link Client} of the account
+   */
+  as(name: string): Client {
+    const account = this.accounts.get(name);
+    if (!account) throw new CustomError('ACCOUNT_NOT_FOUND', name);
+    return account;
+  }
+}
@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+import { URL, URLSearchParams } from 'url';
+import { fetch } from 'undici';
+import { CustomError } from '../errors';
+import { ClientEvents, OAuth2URLs } from '../util';
+import type { Client } from './Client';
+import type {
+  OAuth2AuthURLData,
+  OAuth2AuthURLOptions,
+  OAuth2HelperOptions,
+  OAuth2Scope,
+  OAuth2TokenData,
+} from '../typings';
+
+/**
+ * The class for authorizing an app on behalf of a user through the OAuth 2.0 authorization code flow with PKCE,
+ * and for keeping the issued access token fresh
+ */
+export class OAuth2Helper {
+  /**
+   * The client ID of the app
+   */
+  clientId: string;
+
+  /**
+   * The client secret of the app, `null` for public clients
+   */
+  clientSecret: string | null;
+
+  /**
+   * The URL the user is redirected to after authorizing the app
+   */
+  redirectURI: string;
+
+  /**
+   * The scopes requested by default
+   */
+  scopes: Array<OAuth2Scope>;
+
+  /**
+   * The URL of the page where the user authorizes the app
+   */
+  authorizeURL: string;
+
+  /**
+   * The URL of the endpoint that issues the tokens
+   */
+  tokenURL: string;
+
+  /**
+   * The time in milliseconds before the expiry of the access token at which it gets refreshed
+   */
+  refreshThreshold: number;
+
+  /**
+   * The token currently in use, `null` until an authorization code is exchanged for one
+   */
+  token: OAuth2TokenData | null;
+
+  /**
+   * The client that uses this helper for its user context requests
+   */
+  client: Client | null;
+
+  /**
+   * The refresh request in progress, shared by everyone waiting for a fresh access token
+   */
+  #refreshing: Promise<OAuth2TokenData> | null;
+
+  /**
+   * @param options The options to initialize the helper with
+   */
+  constructor(options: OAuth2HelperOptions) {
+    this.clientId = options.clientId;
+    Object.defineProperty(this, 'clientSecret', { writable: true, enumerable: false });
+    this.clientSecret = options.clientSecret ?? null;
+    this.redirectURI = options.redirectURI;
+    this.scopes = options.scopes ?? ['tweet.read', 'users.read', 'offline.access'];
+    this.authorizeURL = options.authorizeURL ?? OAuth2URLs.AUTHORIZE;
+    this.tokenURL = options.tokenURL ?? OAuth2URLs.TOKEN;
+    this.refreshThreshold = options.refreshThreshold ?? 60000;
+    Object.defineProperty(this, 'token', { writable: true, enumerable: false });
+    this.token = null;
+    Object.defineProperty(this, 'client', { writable: true, enumerable: false });
+    this.client = null;
+    this.#refreshing = null;
+  }
+
+  /**
+   * Generates the URL to send the user to for authorizing the app.
+   * @param options The options for generating the URL
+   * @returns An {@link OAuth2AuthURLData} object, whose `state` and `codeVerifier` should be stored until the
+   * user is redirected back
+   */
+  generateAuthURL(options?: OAuth2AuthURLOptions): OAuth2AuthURLData {
+    const state = options?.state ?? crypto.randomBytes(16).toString('base64url');
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+    const url = new URL(this.authorizeURL);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.clientId);
+    url.searchParams.set('redirect_uri', this.redirectURI);
+    url.searchParams.set('scope', (options?.scopes ?? this.scopes).join(' '));
+    url.searchParams.set('state', state);
+    url.searchParams.set('code_challenge', codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+    return { url: url.toString(), state, codeVerifier };
+  }
+
+  /**
+   * Exchanges the authorization code received in the redirect of the user for a token.
+   * @param code The authorization code
+   * @param codeVerifier The code verifier generated along with the authorization URL
+   * @returns The issued {@link OAuth2TokenData}
+   */
+  async exchangeCode(code: string, codeVerifier: string): Promise<OAuth2TokenData> {
+    this.token = await this.#requestToken({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.redirectURI,
+      code_verifier: codeVerifier,
+    });
+    return this.token;
+  }
+
+  /**
+   * Gets a new access token using the refresh token. Emits an `oauth2TokenRefresh` event on the client
+   * using this helper.
+   * @returns The refreshed {@link OAuth2TokenData}
+   */
+  async refresh(): Promise<OAuth2TokenData> {
+    if (this.#refreshing) return this.#refreshing;
+    const refreshToken = this.token?.refreshToken;
+    if (!refreshToken) throw new CustomError('NO_OAUTH2_REFRESH_TOKEN');
+    this.#refreshing = this.#requestToken({ grant_type: 'refresh_token', refresh_token: refreshToken });
+    try {
+      this.token = await this.#refreshing;
+    } finally {
+      this.#refreshing = null;
+    }
+    this.client?.emit(ClientEvents.OAUTH2_TOKEN_REFRESH, this.token);
+    return this.token;
+  }
+
+  /**
+   * Gets the access token for making requests, refreshing it first if it is about to expire.
+   * @returns The access token
+   */
+  async getAccessToken(): Promise<string> {
+    if (!this.token) throw new CustomError('NO_OAUTH2_TOKEN');
+    const expiresIn = this.token.expiresAt.getTime() - Date.now();
+    if (expiresIn <= this.refreshThreshold && this.token.refreshToken) await this.refresh();
+    return this.token.accessToken;
+  }
+
+  // #### 🚧 PRIVATE METHODS 🚧 ####
+
+  async #requestToken(params: Record<string, string>): Promise<OAuth2TokenData> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+    // Confidential clients authenticate with their credentials, while public clients only identify themselves
+    if (this.clientSecret) {
+      const credentials = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
+      headers.Authorization = `Basic ${credentials}`;
+    }
+    const res = await fetch(this.tokenURL, {
+      method: 'post',
+      headers,
+      body: new URLSearchParams({ ...params, client_id: this.clientId }).toString(),
+    });
+    const data = (await res.json()) as Record<string, string | number | undefined>;
+    if (!res.ok || typeof data.access_token !== 'string') {
+      const reason = data.error_description ?? data.error ?? `${res.status} ${res.statusText}`;
+      throw new CustomError('OAUTH2_TOKEN_REQUEST_FAILED', reason);
+    }
+    return {
+      accessToken: data.access_token,
+      refreshToken: typeof data.refresh_token === 'string' ? data.refresh_token : null,
+      expiresAt: new Date(Date.now() + Number(data.expires_in ?? 0) * 1000),
+      scopes: typeof data.scope === 'string' ? (data.scope.split(' ') as Array<OAuth2Scope>) : [],
+    };
+  }
+}
@@ -1,6 +1,33 @@
+import { withMockServer } from '../../__tests__/mockServer';
 import { Client } from '../Client';
 import { BaseClient } from '../BaseClient';
+import type { RequestListener } from 'http';
 
 test('Client extends BaseClient', () => {
   expect(Client.prototype instanceof BaseClient).toBe(true);
 });
+
+test('generate and invalidate a bearer token using app credentials', async () => {
+  const requests: Array<{ url?: string; authorization?: string; body: string }> = [];
+  const handler: RequestListener = (req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      requests.push({ url: req.url, authorization: req.headers.authorization, body });
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({ token_type: 'bearer', access_token: 'bearer-token' }));
+    });
+  };
+  await withMockServer(handler, async ({ client }) => {
+    await expect(client.loginWithAppCredentials('key', 'secret')).resolves.toBe('bearer-token');
+    expect(client.token).toBe('bearer-token');
+    expect(requests[0]).toStrictEqual({
+      url: '/oauth2/token',
+      authorization: `Basic ${Buffer.from('key:secret').toString('base64')}`,
+      body: 'grant_type=client_credentials',
+    });
+    await expect(client.invalidateBearerToken()).resolves.toBe('bearer-token');
+    expect(client.token).toBeNull();
+    expect(requests[1]).toMatchObject({ url: '/oauth2/invalidate_token', body: 'access_token=bearer-token' });
+  });
+});
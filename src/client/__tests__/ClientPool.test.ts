@@ -0,0 +1,86 @@
+import { withMockServer } from '../../__tests__/mockServer';
+import { ClientPool } from '../ClientPool';
+import { OAuth2Helper } from '../OAuth2Helper';
+import type { RequestListener } from 'http';
+
+const userIds: Record<string, string> = { brandA: '1', brandB: '2' };
+const credentials = {
+  consumerKey: 'key',
+  consumerSecret: 'secret',
+  accessToken: 'token',
+  accessTokenSecret: 'token-secret',
+  bearerToken: 'bearer-token',
+};
+
+test('route user context requests of each account separately', async () => {
+  const handler: RequestListener = (req, res) => {
+    res.setHeader('content-type', 'application/json');
+    res.setHeader('x-rate-limit-limit', '50');
+    res.setHeader('x-rate-limit-remaining', '49');
+    res.setHeader('x-rate-limit-reset', `${Math.floor(Date.now() / 1000) + 900}`);
+    const username = req.url?.match(/\/users\/by\/username\/(\w+)/)?.[1];
+    if (username) res.end(JSON.stringify({ data: { id: userIds[username], name: username, username } }));
+    else res.end(JSON.stringify({ data: { following: true, pending_follow: false } }));
+  };
+  await withMockServer(handler, async ({ baseURL }) => {
+    const pool = new ClientPool({ events: [], api: { version: 2, baseURL } });
+    await pool.addAccount('brandA', { ...credentials, username: 'brandA' });
+    await pool.addAccount('brandB', { ...credentials, username: 'brandB' });
+    expect(pool.as('brandA').me?.id).toBe('1');
+    expect(pool.as('brandB').users.cache).toBe(pool.client.users.cache);
+    expect(pool.as('brandB').rest.requestHandlers).toBe(pool.client.rest.requestHandlers);
+    await pool.as('brandA').users.follow('3');
+    expect(pool.as('brandA').rest.getBucket('POST /users/1/following')).toMatchObject({ remaining: 49 });
+    expect(pool.as('brandB').rest.getBucket('POST /users/2/following')).toBeNull();
+    expect(() => pool.as('brandC')).toThrow('brandC');
+  });
+});
+
+test('emit the rate limits of shared buckets on the client of the account that hit them', async () => {
+  const handler: RequestListener = (req, res) => {
+    res.setHeader('content-type', 'application/json');
+    const username = req.url?.match(/\/users\/by\/username\/(\w+)/)?.[1];
+    if (username) return res.end(JSON.stringify({ data: { id: userIds[username], name: username, username } }));
+    res.setHeader('x-rate-limit-limit', '300');
+    res.setHeader('x-rate-limit-remaining', '0');
+    res.setHeader('x-rate-limit-reset', `${Math.floor(Date.now() / 1000) + 900}`);
+    res.end(JSON.stringify({ data: { id: '3', name: 'other', username: 'other' } }));
+  };
+  await withMockServer(handler, async ({ baseURL }) => {
+    const pool = new ClientPool({ events: [], api: { version: 2, baseURL }, rest: { rejectOnRateLimit: true } });
+    await pool.addAccount('brandA', { ...credentials, username: 'brandA' });
+    await pool.addAccount('brandB', { ...credentials, username: 'brandB' });
+    const rateLimitedA = jest.fn();
+    const rateLimitedB = jest.fn();
+    pool.as('brandA').on('rateLimited', rateLimitedA);
+    pool.as('brandB').on('rateLimited', rateLimitedB);
+    await pool.as('brandA').users.fetch({ user: '3' });
+    await expect(pool.as('brandB').users.fetch({ user: '3', skipCacheCheck: true })).rejects.toThrow();
+    expect(rateLimitedA).not.toHaveBeenCalled();
+    expect(rateLimitedB).toHaveBeenCalledTimes(1);
+  });
+});
+
+test('keep the rate limits of accounts logging in with OAuth 2.0 apart before their user is fetched', async () => {
+  const handler: RequestListener = (req, res) => {
+    const accessToken = req.headers.authorization?.replace('Bearer ', '') ?? '';
+    res.setHeader('content-type', 'application/json');
+    res.setHeader('x-rate-limit-limit', '75');
+    res.setHeader('x-rate-limit-remaining', '0');
+    res.setHeader('x-rate-limit-reset', `${Math.floor(Date.now() / 1000) + 900}`);
+    res.end(JSON.stringify({ data: { id: userIds[accessToken], name: accessToken, username: accessToken } }));
+  };
+  const createHelper = (accessToken: string) => {
+    const helper = new OAuth2Helper({ clientId: 'client-id', redirectURI: 'http://127.0.0.1/callback' });
+    const expiresAt = new Date(Date.now() + 7200000);
+    helper.token = { accessToken, refreshToken: null, expiresAt, scopes: ['users.read'] };
+    return helper;
+  };
+  await withMockServer(handler, async ({ baseURL }) => {
+    const pool = new ClientPool({ events: [], api: { version: 2, baseURL }, rest: { rejectOnRateLimit: true } });
+    await pool.addAccount('brandA', createHelper('brandA'));
+    await pool.addAccount('brandB', createHelper('brandB'));
+    expect(pool.as('brandA').me?.id).toBe('1');
+    expect(pool.as('brandB').me?.id).toBe('2');
+  });
+});
@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+import { URL, URLSearchParams } from 'url';
+import { startMockServer } from '../../__tests__/mockServer';
+import { OAuth2Helper } from '../OAuth2Helper';
+import type { MockServer } from '../../__tests__/mockServer';
+
+let server: MockServer;
+let tokenURL: string;
+const tokenRequests: Array<URLSearchParams> = [];
+
+beforeAll(async () => {
+  server = await startMockServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const params = new URLSearchParams(body);
+      tokenRequests.push(params);
+      const isRefresh = params.get('grant_type') === 'refresh_token';
+      res.setHeader('content-type', 'application/json');
+      res.end(
+        JSON.stringify({
+          token_type: 'bearer',
+          // The first token expires right away so that it gets refreshed on the next use
+          expires_in: isRefresh ? 7200 : 0,
+          access_token: isRefresh ? 'refreshed-access-token' : 'access-token',
+          refresh_token: 'refresh-token',
+          scope: 'tweet.read users.read offline.access',
+        }),
+      );
+    });
+  });
+  tokenURL = `${server.baseURL}/2/oauth2/token`;
+});
+
+afterAll(() => server.close());
+
+test('generate the authorization URL with a code challenge', () => {
+  const helper = new OAuth2Helper({ clientId: 'client-id', redirectURI: 'http://127.0.0.1/callback' });
+  const { url, state, codeVerifier } = helper.generateAuthURL({ scopes: ['tweet.read', 'users.read'] });
+  const { searchParams } = new URL(url);
+  expect(searchParams.get('client_id')).toBe('client-id');
+  expect(searchParams.get('scope')).toBe('tweet.read users.read');
+  expect(searchParams.get('state')).toBe(state);
+  expect(searchParams.get('code_challenge_method')).toBe('S256');
+  expect(searchParams.get('code_challenge')).toBe(crypto.createHash('sha256').update(codeVerifier).digest('base64url'));
+});
+
+test('exchange the authorization code and refresh the expiring token', async () => {
+  const helper = new OAuth2Helper({ clientId: 'client-id', redirectURI: 'http://127.0.0.1/callback', tokenURL });
+  const token = await helper.exchangeCode('code', 'verifier');
+  expect(token).toMatchObject({ accessToken: 'access-token', refreshToken: 'refresh-token' });
+  expect(tokenRequests[0].get('code_verifier')).toBe('verifier');
+  expect(tokenRequests[0].get('client_id')).toBe('client-id');
+  await expect(helper.getAccessToken()).resolves.toBe('refreshed-access-token');
+  expect(tokenRequests[1].get('grant_type')).toBe('refresh_token');
+  await expect(helper.getAccessToken()).resolves.toBe('refreshed-access-token');
+  expect(tokenRequests).toHaveLength(2);
+});
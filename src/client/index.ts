@@ -1,2 +1,4 @@
 export * from './BaseClient';
 export * from './Client';
+export * from './ClientPool';
+export * from './OAuth2Helper';
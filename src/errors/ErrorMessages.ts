@@ -19,6 +19,33 @@ const messages = {
   LIST_RESOLVE_ID: (action: string) => `Could not resolve the list ID to ${action}.`,
   RULE_NOT_FOUND: `The specified rule does not exist or has been deleted`,
   RULE_RESOLVE_ID: (action: string) => `Could not resolve the rule ID to ${action}.`,
+  RULE_LINT_FAILED: (value: string, reason: string) => `The rule \`${value}\` was rejected by the linter: ${reason}.`,
+  RULE_REJECTED: (rule: string, reason: string) => `The rule \`${rule}\` was rejected by Twitter: ${reason}.`,
+  NO_STREAM_RESPONSE_BODY: 'The stream endpoint responded without a body.',
+  STREAM_CONNECTION_CLOSED: 'The stream connection was closed by the server.',
+  BACKFILL_MINUTES_OUT_OF_RANGE: (minutes: number) =>
+    `The backfill minutes must be a whole number between 0 and 5, received ${minutes}.`,
+  ACCOUNT_NOT_FOUND: (name: string) => `Could not find an account named ${name} in the pool.`,
+  AUTH_PROVIDER_NOT_FOUND: (name: string) => `Could not find an auth provider named ${name} on the client.`,
+  NO_APP_CREDENTIALS: 'Unable to find the app credentials, log in using `loginWithAppCredentials` first.',
+  BEARER_TOKEN_REQUEST_FAILED: (reason: string) => `The bearer token request failed: ${reason}.`,
+  NO_OAUTH2_TOKEN: 'Unable to find an OAuth 2.0 token, exchange an authorization code for one first.',
+  NO_OAUTH2_REFRESH_TOKEN:
+    'Unable to refresh the OAuth 2.0 token as no refresh token was issued, request the `offline.access` scope to get one.',
+  OAUTH2_TOKEN_REQUEST_FAILED: (reason: string) => `Could not get the OAuth 2.0 token: ${reason}.`,
+  OAUTH2_USER_TOKEN_REQUIRED: (action: string) =>
+    `Could not ${action} as it requires an OAuth 2.0 user token, log in using \`loginWithOAuth2\` first.`,
+  MEDIA_TYPE_UNKNOWN: 'Could not detect the MIME type of the media, provide it in the `mimeType` option.',
+  MEDIA_PROCESSING_FAILED: (reason: string) => `The uploaded media could not be processed: ${reason}.`,
+  MEDIA_RESOLVE_ID: (action: string) => `Could not resolve the media ID to ${action}.`,
+  DM_CONVERSATION_RESOLVE_ID: (action: string) => `Could not resolve the conversation ID to ${action}.`,
+  TWEET_CONVERSATION_ID_UNKNOWN:
+    'Could not find the conversation ID of the tweet, make sure the `conversation_id` tweet field is requested.',
+  QUERY_INVALID: (reason: string) => `The search query is invalid: ${reason}.`,
+  QUERY_OPERATOR_UNSUPPORTED: (operator: string, target: string) =>
+    `The \`${operator}:\` operator is not supported when sending a query to the ${target} endpoint.`,
+  QUERY_TOO_LONG: (length: number, limit: number, target: string) =>
+    `The search query is ${length} characters long, which exceeds the limit of ${limit} for the ${target} endpoint.`,
 };
 
 for (const [key, message] of Object.entries(messages)) {
@@ -1,7 +1,9 @@
+export * from './auth';
 export * from './books';
 export * from './client';
 export * from './errors';
 export * from './managers';
+export * from './streams';
 export * from './structures';
 export * from './typings';
 export { Snowflake } from 'twitter-types';
@@ -0,0 +1,157 @@
+import { URL } from 'url';
+import { BaseManager } from './BaseManager';
+import { DMEventsBook } from '../books';
+import { DMConversation, DMCreateResponse, DMEvent, RequestData } from '../structures';
+import { CustomError, CustomTypeError } from '../errors';
+import type { Client } from '../client';
+import type { Collection } from '../util';
+import type {
+  DMConversationResolvable,
+  DMCreateOptions,
+  DMEventResolvable,
+  DMEventsBookOptions,
+  FetchDMEventsOptions,
+  PostDMMessageResponse,
+  UserResolvable,
+} from '../typings';
+import type { Snowflake } from 'twitter-types';
+
+/**
+ * The manager class that holds API methods for direct messages and stores the cache of {@link DMEvent} objects
+ */
+export class DirectMessageManager extends BaseManager<Snowflake, DMEventResolvable, DMEvent> {
+  /**
+   * @param client The logged in {@link Client} instance
+   */
+  constructor(client: Client) {
+    super(client, DMEvent);
+  }
+
+  /**
+   * Sends a direct message to a user, in the one-to-one conversation of the authorized user with them.
+   * @param targetUser The user to send the message to
+   * @param message The text of the message, or the options for sending it
+   * @returns A {@link DMCreateResponse} object
+   */
+  async send(targetUser: UserResolvable, message: string | DMCreateOptions): Promise<DMCreateResponse> {
+    const userId = this.client.users.resolveId(targetUser);
+    if (!userId) throw new CustomError('USER_RESOLVE_ID', 'send a direct message to');
+    const options = typeof message === 'string' ? { text: message } : message;
+    const body = await this.#resolveMessage(options);
+    const requestData = new RequestData({ body, isUserContext: true, signal: options.signal });
+    const data: PostDMMessageResponse = await this.client._api.dm_conversations.with(userId).messages.post(requestData);
+    return new DMCreateResponse(data);
+  }
+
+  /**
+   * Sends a direct message to a conversation the authorized user is a participant of.
+   * @param conversation The conversation to send the message to
+   * @param message The text of the message, or the options for sending it
+   * @returns A {@link DMCreateResponse} object
+   */
+  async sendToConversation(
+    conversation: DMConversationResolvable,
+    message: string | DMCreateOptions,
+  ): Promise<DMCreateResponse> {
+    const conversationId = this.resolveConversationId(conversation);
+    if (!conversationId) throw new CustomError('DM_CONVERSATION_RESOLVE_ID', 'send a direct message to');
+    const options = typeof message === 'string' ? { text: message } : message;
+    const body = await this.#resolveMessage(options);
+    const requestData = new RequestData({ body, isUserContext: true, signal: options.signal });
+    const data: PostDMMessageResponse = await this.client._api
+      .dm_conversations(conversationId)
+      .messages.post(requestData);
+    return new DMCreateResponse(data);
+  }
+
+  /**
+   * Creates a group conversation with the given users and the authorized user, and sends the first message to it.
+   * @param participants The users to add to the conversation, besides the authorized user
+   * @param message The text of the first message, or the options for sending it
+   * @returns A {@link DMCreateResponse} object holding the ID of the created conversation
+   */
+  async createConversation(
+    participants: Array<UserResolvable>,
+    message: string | DMCreateOptions,
+  ): Promise<DMCreateResponse> {
+    if (!Array.isArray(participants)) throw new CustomTypeError('INVALID_TYPE', 'participants', 'array', true);
+    const participantIds = participants.map(participant => {
+      const userId = this.client.users.resolveId(participant);
+      if (!userId) throw new CustomError('USER_RESOLVE_ID', 'add to the conversation');
+      return userId;
+    });
+    const options = typeof message === 'string' ? { text: message } : message;
+    const body = {
+      conversation_type: 'Group',
+      participant_ids: participantIds,
+      message: await this.#resolveMessage(options),
+    };
+    const requestData = new RequestData({ body, isUserContext: true, signal: options.signal });
+    const data: PostDMMessageResponse = await this.client._api.dm_conversations.post(requestData);
+    return new DMCreateResponse(data);
+  }
+
+  /**
+   * Fetches the events of the direct message conversations of the authorized user.
+   * @param options The options for fetching the events. If neither a participant nor a conversation is provided,
+   * the events of all the conversations are fetched
+   * @returns A tuple containing {@link DMEventsBook} object and a {@link Collection} of {@link DMEvent} objects representing the first page
+   */
+  async fetchEvents(options?: FetchDMEventsOptions): Promise<[DMEventsBook, Collection<Snowflake, DMEvent>]> {
+    const bookData: DMEventsBookOptions = {};
+    if (options?.conversation) {
+      const conversationId = this.resolveConversationId(options.conversation);
+      if (!conversationId) throw new CustomError('DM_CONVERSATION_RESOLVE_ID', 'fetch the events of');
+      bookData.conversationId = conversationId;
+    } else if (options?.participant) {
+      const participantId = this.client.users.resolveId(options.participant);
+      if (!participantId) throw new CustomError('USER_RESOLVE_ID', 'fetch the direct messages with');
+      bookData.participantId = participantId;
+    }
+    if (options?.eventTypes) bookData.eventTypes = options.eventTypes;
+    if (options?.maxResultsPerPage) bookData.maxResultsPerPage = options.maxResultsPerPage;
+    const dmEventsBook = new DMEventsBook(this.client, bookData);
+    const firstPage = await dmEventsBook.fetchNextPage({ signal: options?.signal });
+    return [dmEventsBook, firstPage];
+  }
+
+  /**
+   * Resolves a conversation resolvable to its id.
+   * @param conversation An ID or instance that can be resolved to a conversation
+   * @returns The id of the resolved conversation
+   */
+  resolveConversationId(conversation: DMConversationResolvable): string | null {
+    if (conversation instanceof DMConversation) return conversation.id;
+    if (typeof conversation === 'string') return conversation;
+    return null;
+  }
+
+  /**
+   * Creates a link that opens a direct message conversation with a user, with an optional prefilled message.
+   * Attach it to a tweet using {@link TweetCreateOptions.directMessageDeepLink}.
+   * @param targetUser The user to open the conversation with
+   * @param text The text to prefill the message with
+   * @returns The deep link to the conversation
+   */
+  createDeepLink(targetUser: UserResolvable, text?: string): string {
+    const userId = this.client.users.resolveId(targetUser);
+    if (!userId) throw new CustomError('USER_RESOLVE_ID', 'create a direct message link to');
+    const url = new URL('https://twitter.com/messages/compose');
+    url.searchParams.set('recipient_id', userId);
+    if (text) url.searchParams.set('text', text);
+    return url.toString();
+  }
+
+  // #### 🚧 PRIVATE METHODS 🚧 ####
+
+  async #resolveMessage(
+    options: DMCreateOptions,
+  ): Promise<{ text?: string; attachments?: Array<{ media_id: Snowflake }> }> {
+    if (!options.media) return { text: options.text };
+    const mediaIds = await this.client.media.resolveAttachments(options.media, {
+      signal: options.signal,
+      forDirectMessage: true,
+    });
+    return { text: options.text, attachments: mediaIds.map(mediaId => ({ media_id: mediaId })) };
+  }
+}
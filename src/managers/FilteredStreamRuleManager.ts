@@ -1,26 +1,50 @@
-import { Collection } from '../util';
+import { Collection, lintQuery } from '../util';
 import { BaseManager } from './BaseManager';
 import { CustomError, CustomTypeError } from '../errors';
 import { RequestData, FilteredStreamRule } from '../structures';
 import type { Client } from '../client';
 import type {
+  CreateFilteredStreamRulesOptions,
   FetchFilteredStreamRuleOptions,
   FetchFilteredStreamRulesOptions,
   FilteredStreamRuleData,
   FilteredStreamRuleManagerFetchResult,
   FilteredStreamRuleResolvable,
+  FilteredStreamRulesSyncError,
+  FilteredStreamRulesSyncReport,
+  RequestOptions,
+  SyncFilteredStreamRulesOptions,
 } from '../typings';
 import type {
+  APIFilteredTweetStreamRule,
   GetFilteredTweetStreamRulesQuery,
   GetFilteredTweetStreamRulesResponse,
   PostAddFilteredTweetStreamRulesJSONBody,
   PostAddFilteredTweetStreamRulesResponse,
+  PostFilteredTweetStreamRulesQuery,
   PostRemoveFilteredTweetStreamRulesByIdsJSONBody,
   PostRemoveFilteredTweetStreamRulesByValuesJSONBody,
   PostRemoveFilteredTweetStreamRulesResponse,
   Snowflake,
 } from 'twitter-types';
 
+/**
+ * An error reported for one of the rules sent to the rules endpoint, which is missing from the typings
+ */
+interface RawRuleError {
+  value?: string;
+  id?: Snowflake;
+  title: string;
+  type: string;
+  detail?: string;
+  details?: Array<string>;
+}
+
+/**
+ * A response of the rules endpoint, which reports the rules it rejected along with the ones it accepted
+ */
+type RulesResponse<T> = Omit<T, 'data'> & { data?: Array<APIFilteredTweetStreamRule>; errors?: Array<RawRuleError> };
+
 export class FilteredStreamRuleManager extends BaseManager<
   Snowflake,
   FilteredStreamRuleResolvable,
@@ -67,62 +91,235 @@ export class FilteredStreamRuleManager extends BaseManager<
   /**
    * Creates one or multiple rules for the filtered stream.
    * @param data The data for creating rules
+   * @param options The options for creating rules
    * @returns A {@link Collection} of {@link FilteredStreamRule} objects
    */
   async create(
     data: FilteredStreamRuleData | Array<FilteredStreamRuleData>,
+    options?: CreateFilteredStreamRulesOptions,
   ): Promise<Collection<Snowflake, FilteredStreamRule>> {
-    const rules = Array.isArray(data) ? data : [data];
-    const body: PostAddFilteredTweetStreamRulesJSONBody = {
-      add: rules,
-    };
-    const requestData = new RequestData({ body });
-    const res: PostAddFilteredTweetStreamRulesResponse = await this.client._api.tweets.search.stream.rules.post(
-      requestData,
-    );
-    return res.data.reduce((createdRules, rawRule) => {
+    const rules = this.#resolveRules(Array.isArray(data) ? data : [data]);
+    if (options?.lint) this.#lintRules(rules);
+    const res = await this.#addRules(rules, options);
+    const error = res.errors?.[0];
+    if (!res.data && error) throw this.#toRejectionError(error);
+    return (res.data ?? []).reduce((createdRules, rawRule) => {
       const rule = this._add(rawRule.id, rawRule);
       return createdRules.set(rule.id, rule);
     }, new Collection<Snowflake, FilteredStreamRule>());
   }
 
+  /**
+   * Syncs the rules of the filtered stream with the desired rules, by deleting the existing rules that are not desired
+   * and creating the desired rules that do not exist. Rules are matched by their value and tag, so a rule whose tag
+   * changed is deleted and created again.
+   *
+   * **Note**: The changes are validated with a dry run before anything is changed, and nothing is changed if Twitter
+   * rejects any of them. Rejected rules are listed in {@link FilteredStreamRulesSyncReport.errors}. The rules are
+   * then added before the stale ones are deleted, except for the stale rules sharing their value with an added one
+   * which Twitter would reject as a duplicate
+   * @param desiredRules The rules the filtered stream is to have
+   * @param options The options for syncing rules
+   * @returns A {@link FilteredStreamRulesSyncReport} object
+   */
+  async sync(
+    desiredRules: Array<FilteredStreamRuleData>,
+    options?: SyncFilteredStreamRulesOptions,
+  ): Promise<FilteredStreamRulesSyncReport> {
+    const rules = this.#resolveRules(desiredRules);
+    if (options?.lint) this.#lintRules(rules);
+    const dryRun = options?.dryRun ?? false;
+    const batchSize = options?.batchSize ?? 100;
+    const ruleKey = (rule: { value: string; tag?: string | null }): string =>
+      JSON.stringify([rule.value, rule.tag ?? null]);
+    const desiredRulesByKey = new Map(rules.map(rule => [ruleKey(rule), rule]));
+    const currentRules = await this.#fetchMultipleRules(undefined, { signal: options?.signal });
+    const currentRuleKeys = new Set(currentRules.map(ruleKey));
+    const report: FilteredStreamRulesSyncReport = {
+      dryRun,
+      applied: false,
+      added: [...desiredRulesByKey.entries()].filter(([key]) => !currentRuleKeys.has(key)).map(([, rule]) => rule),
+      created: new Collection(),
+      deleted: currentRules.filter(rule => !desiredRulesByKey.has(ruleKey(rule))),
+      unchanged: currentRules.filter(rule => desiredRulesByKey.has(ruleKey(rule))),
+      summary: { created: 0, notCreated: 0, valid: 0, invalid: 0, deleted: 0, notDeleted: 0 },
+      errors: [],
+    };
+    // Rules whose tag changed duplicate their old version until it is deleted, which a dry run does not do
+    const deletedRuleValues = new Set(report.deleted.map(rule => rule.value));
+    const isStaleDuplicate = (error: RawRuleError) =>
+      error.title === 'DuplicateRule' && typeof error.value === 'string' && deletedRuleValues.has(error.value);
+    await this.#syncDeletedRules(report, [...report.deleted.keys()], batchSize, options, true);
+    await this.#syncAddedRules(report, batchSize, options, true, isStaleDuplicate);
+    if (dryRun || report.errors.length) return report;
+
+    report.summary = { created: 0, notCreated: 0, valid: 0, invalid: 0, deleted: 0, notDeleted: 0 };
+    // Only the rules that would conflict with the added ones are deleted before adding them, so that the stream is
+    // not left without its rules if adding fails
+    const addedRuleValues = new Set(report.added.map(rule => rule.value));
+    const [conflictingRules, staleRules] = report.deleted.partition(rule => addedRuleValues.has(rule.value));
+    await this.#syncDeletedRules(report, [...conflictingRules.keys()], batchSize, options, false);
+    await this.#syncAddedRules(report, batchSize, options, false, isStaleDuplicate);
+    if (report.errors.length) return report;
+    await this.#syncDeletedRules(report, [...staleRules.keys()], batchSize, options, false);
+    report.applied = report.errors.length === 0;
+    return report;
+  }
+
   /**
    * Deletes one or multiple rules for the filtered stream using their ids.
    * @param ruleId The id or ids of the rules to delete
+   * @param options The options for the request
    */
-  async deleteById(ruleId: Snowflake | Array<Snowflake>): Promise<PostRemoveFilteredTweetStreamRulesResponse> {
+  async deleteById(
+    ruleId: Snowflake | Array<Snowflake>,
+    options?: RequestOptions,
+  ): Promise<PostRemoveFilteredTweetStreamRulesResponse> {
     const ids = Array.isArray(ruleId) ? ruleId : [ruleId];
     const body: PostRemoveFilteredTweetStreamRulesByIdsJSONBody = {
       delete: {
         ids,
       },
     };
-    return this.#deleteRules(body);
+    return this.#deleteRulesOrThrow(body, options);
   }
 
   /**
    * Deletes one or multiple rules for the filtered stream using their values.
    * @param ruleValue The value or values of the rules to delete
+   * @param options The options for the request
    */
-  async deleteByValue(ruleValue: string | Array<string>): Promise<PostRemoveFilteredTweetStreamRulesResponse> {
+  async deleteByValue(
+    ruleValue: string | Array<string>,
+    options?: RequestOptions,
+  ): Promise<PostRemoveFilteredTweetStreamRulesResponse> {
     const values = Array.isArray(ruleValue) ? ruleValue : [ruleValue];
     const body: PostRemoveFilteredTweetStreamRulesByValuesJSONBody = {
       delete: {
         values,
       },
     };
-    return this.#deleteRules(body);
+    return this.#deleteRulesOrThrow(body, options);
   }
 
   // #### 🚧 PRIVATE METHODS 🚧 ####
 
+  #resolveRules(data: Array<FilteredStreamRuleData>): Array<{ value: string; tag?: string }> {
+    return data.map(rule => ({
+      ...rule,
+      value: typeof rule.value === 'string' ? rule.value : rule.value.build('stream'),
+    }));
+  }
+
+  #lintRules(rules: Array<{ value: string }>): void {
+    for (const rule of rules) {
+      const error = lintQuery(rule.value, { endpoint: 'stream' }).find(issue => issue.severity === 'error');
+      if (error) throw new CustomError('RULE_LINT_FAILED', rule.value, error.message);
+    }
+  }
+
+  async #syncDeletedRules(
+    report: FilteredStreamRulesSyncReport,
+    deletedRuleIds: Array<Snowflake>,
+    batchSize: number,
+    options: RequestOptions | undefined,
+    dryRun: boolean,
+  ): Promise<void> {
+    for (let index = 0; index < deletedRuleIds.length; index += batchSize) {
+      const body: PostRemoveFilteredTweetStreamRulesByIdsJSONBody = {
+        delete: { ids: deletedRuleIds.slice(index, index + batchSize) },
+      };
+      const res = await this.#deleteRules(body, options, dryRun);
+      report.summary.deleted += res.meta.summary.deleted;
+      report.summary.notDeleted += res.meta.summary.not_deleted;
+      const rejectedRuleIds = new Set<string>();
+      for (const error of res.errors ?? []) {
+        const id = (error.id ?? error.value ?? null) as Snowflake | null;
+        if (id) rejectedRuleIds.add(id);
+        report.errors.push(this.#toSyncError(error, 'delete', null, id));
+      }
+      if (dryRun) continue;
+      for (const id of body.delete.ids) {
+        if (!rejectedRuleIds.has(id)) this.cache.delete(id);
+      }
+    }
+  }
+
+  async #syncAddedRules(
+    report: FilteredStreamRulesSyncReport,
+    batchSize: number,
+    options: RequestOptions | undefined,
+    dryRun: boolean,
+    isStaleDuplicate: (error: RawRuleError) => boolean,
+  ): Promise<void> {
+    for (let index = 0; index < report.added.length; index += batchSize) {
+      const res = await this.#addRules(report.added.slice(index, index + batchSize), options, dryRun);
+      report.summary.created += res.meta.summary.created;
+      report.summary.notCreated += res.meta.summary.not_created;
+      report.summary.valid += res.meta.summary.valid;
+      report.summary.invalid += res.meta.summary.invalid;
+      for (const error of res.errors ?? []) {
+        if (dryRun && isStaleDuplicate(error)) continue;
+        report.errors.push(this.#toSyncError(error, 'add', error.value ?? null, error.id ?? null));
+      }
+      if (dryRun) continue;
+      for (const rawRule of res.data ?? []) {
+        const rule = this._add(rawRule.id, rawRule);
+        report.created.set(rule.id, rule);
+      }
+    }
+  }
+
+  #toSyncError(
+    error: RawRuleError,
+    operation: FilteredStreamRulesSyncError['operation'],
+    value: string | null,
+    id: Snowflake | null,
+  ): FilteredStreamRulesSyncError {
+    const details = error.details ?? (error.detail ? [error.detail] : []);
+    return { operation, value, id, title: error.title, type: error.type, details };
+  }
+
+  #toRejectionError(error: RawRuleError): Error {
+    const details = error.details ?? (error.detail ? [error.detail] : []);
+    const reason = details.length ? `${error.title}, ${details.join(' ')}` : error.title;
+    return new CustomError('RULE_REJECTED', error.value ?? error.id ?? '', reason);
+  }
+
+  async #addRules(
+    rules: Array<{ value: string; tag?: string }>,
+    options?: RequestOptions,
+    dryRun = false,
+  ): Promise<RulesResponse<PostAddFilteredTweetStreamRulesResponse>> {
+    const query: PostFilteredTweetStreamRulesQuery | undefined = dryRun ? { dry_run: true } : undefined;
+    const body: PostAddFilteredTweetStreamRulesJSONBody = {
+      add: rules,
+    };
+    const requestData = new RequestData({ query, body, signal: options?.signal, allowPartialErrors: true });
+    const res: RulesResponse<PostAddFilteredTweetStreamRulesResponse> =
+      await this.client._api.tweets.search.stream.rules.post(requestData);
+    return res;
+  }
+
   async #deleteRules(
     body: PostRemoveFilteredTweetStreamRulesByIdsJSONBody | PostRemoveFilteredTweetStreamRulesByValuesJSONBody,
+    options?: RequestOptions,
+    dryRun = false,
+  ): Promise<RulesResponse<PostRemoveFilteredTweetStreamRulesResponse>> {
+    const query: PostFilteredTweetStreamRulesQuery | undefined = dryRun ? { dry_run: true } : undefined;
+    const requestData = new RequestData({ query, body, signal: options?.signal, allowPartialErrors: true });
+    const res: RulesResponse<PostRemoveFilteredTweetStreamRulesResponse> =
+      await this.client._api.tweets.search.stream.rules.post(requestData);
+    return res;
+  }
+
+  async #deleteRulesOrThrow(
+    body: PostRemoveFilteredTweetStreamRulesByIdsJSONBody | PostRemoveFilteredTweetStreamRulesByValuesJSONBody,
+    options?: RequestOptions,
   ): Promise<PostRemoveFilteredTweetStreamRulesResponse> {
-    const requestData = new RequestData({ body });
-    const res: PostRemoveFilteredTweetStreamRulesResponse = await this.client._api.tweets.search.stream.rules.post(
-      requestData,
-    );
+    const { errors, ...res } = await this.#deleteRules(body, options);
+    const error = errors?.[0];
+    if (error) throw this.#toRejectionError(error);
     return res;
   }
 
@@ -134,7 +331,7 @@ export class FilteredStreamRuleManager extends BaseManager<
     const query: GetFilteredTweetStreamRulesQuery = {
       ids: [ruleId],
     };
-    const requestData = new RequestData({ query });
+    const requestData = new RequestData({ query, signal: options.signal });
     const res: GetFilteredTweetStreamRulesResponse = await this.client._api.tweets.search.stream.rules.get(requestData);
     const rawRule = res.data?.[0];
     if (!rawRule) throw new CustomError('RULE_NOT_FOUND');
@@ -149,7 +346,7 @@ export class FilteredStreamRuleManager extends BaseManager<
     const query: GetFilteredTweetStreamRulesQuery = {
       ids: ruleIds,
     };
-    const requestData = new RequestData({ query });
+    const requestData = new RequestData({ query, signal: options?.signal });
     const res: GetFilteredTweetStreamRulesResponse = await this.client._api.tweets.search.stream.rules.get(requestData);
     const rawRules = res.data;
     if (!rawRules?.length) return fetchedRules;
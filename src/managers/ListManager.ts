@@ -1,8 +1,31 @@
+import { Collection } from '../util';
 import { BaseManager } from './BaseManager';
+import {
+  FollowedListsBook,
+  ListFollowersBook,
+  ListMembersBook,
+  ListMembershipsBook,
+  ListTweetsBook,
+  OwnedListsBook,
+} from '../books';
 import { List, RequestData } from '../structures';
 import { CustomError, CustomTypeError } from '../errors';
 import type { Client } from '../client';
-import type { CreateListOptions, ListResolvable, UpdateListOptions, UserResolvable } from '../typings';
+import type { Tweet, User } from '../structures';
+import type {
+  CreateListOptions,
+  FetchListFollowersOptions,
+  FetchListMembersOptions,
+  FetchListOptions,
+  FetchListTweetsOptions,
+  FetchUserListsOptions,
+  GetListsResponse,
+  ListData,
+  ListResolvable,
+  RequestOptions,
+  UpdateListOptions,
+  UserResolvable,
+} from '../typings';
 import type {
   DeleteListDeleteResponse,
   DeleteListRemoveMemberResponse,
@@ -32,6 +55,166 @@ export class ListManager extends BaseManager<Snowflake, ListResolvable, List> {
     super(client, List);
   }
 
+  /**
+   * Fetches a list from twitter.
+   * @param options The options for fetching the list
+   * @returns The fetched {@link List} object
+   */
+  async fetch(options: FetchListOptions): Promise<List> {
+    if (typeof options !== 'object') throw new CustomTypeError('INVALID_TYPE', 'options', 'object', true);
+    const listId = this.resolveId(options.list);
+    if (!listId) throw new CustomError('LIST_RESOLVE_ID', 'fetch');
+    if (!options.skipCacheCheck) {
+      const cachedList = this.cache.get(listId);
+      if (cachedList) return cachedList;
+    }
+    const queryParameters = this.client.options.queryParameters;
+    const query = {
+      expansions: queryParameters?.listExpansions,
+      'list.fields': queryParameters?.listFields,
+      'user.fields': queryParameters?.userFields,
+    };
+    const requestData = new RequestData({ query, signal: options.signal });
+    const data: ListData = await this.client._api.lists(listId).get(requestData);
+    return this._add(data.data.id, data, options.cacheAfterFetching);
+  }
+
+  /**
+   * Fetches lists owned by a twitter user.
+   * @param targetUser The user whose lists are to be fetched
+   * @param options The options for fetching the lists
+   * @returns A tuple containing {@link OwnedListsBook} object and a {@link Collection} of {@link List} objects representing the first page
+   */
+  async fetchOwned(
+    targetUser: UserResolvable,
+    options?: FetchUserListsOptions,
+  ): Promise<[OwnedListsBook, Collection<Snowflake, List>]> {
+    const userId = this.client.users.resolveId(targetUser);
+    if (!userId) throw new CustomError('USER_RESOLVE_ID', 'create owned lists book for');
+    const ownedListsBook = new OwnedListsBook(this.client, { userId, maxResultsPerPage: options?.maxResultsPerPage });
+    const firstPage = await ownedListsBook.fetchNextPage({ signal: options?.signal });
+    return [ownedListsBook, firstPage];
+  }
+
+  /**
+   * Fetches lists a twitter user is a member of.
+   * @param targetUser The user whose list memberships are to be fetched
+   * @param options The options for fetching the lists
+   * @returns A tuple containing {@link ListMembershipsBook} object and a {@link Collection} of {@link List} objects representing the first page
+   */
+  async fetchMemberships(
+    targetUser: UserResolvable,
+    options?: FetchUserListsOptions,
+  ): Promise<[ListMembershipsBook, Collection<Snowflake, List>]> {
+    const userId = this.client.users.resolveId(targetUser);
+    if (!userId) throw new CustomError('USER_RESOLVE_ID', 'create list memberships book for');
+    const listMembershipsBook = new ListMembershipsBook(this.client, {
+      userId,
+      maxResultsPerPage: options?.maxResultsPerPage,
+    });
+    const firstPage = await listMembershipsBook.fetchNextPage({ signal: options?.signal });
+    return [listMembershipsBook, firstPage];
+  }
+
+  /**
+   * Fetches lists followed by a twitter user.
+   * @param targetUser The user whose followed lists are to be fetched
+   * @param options The options for fetching the lists
+   * @returns A tuple containing {@link FollowedListsBook} object and a {@link Collection} of {@link List} objects representing the first page
+   */
+  async fetchFollowedLists(
+    targetUser: UserResolvable,
+    options?: FetchUserListsOptions,
+  ): Promise<[FollowedListsBook, Collection<Snowflake, List>]> {
+    const userId = this.client.users.resolveId(targetUser);
+    if (!userId) throw new CustomError('USER_RESOLVE_ID', 'create followed lists book for');
+    const followedListsBook = new FollowedListsBook(this.client, {
+      userId,
+      maxResultsPerPage: options?.maxResultsPerPage,
+    });
+    const firstPage = await followedListsBook.fetchNextPage({ signal: options?.signal });
+    return [followedListsBook, firstPage];
+  }
+
+  /**
+   * Fetches lists pinned by the authorized user.
+   * @param options The options for the request
+   * @returns A {@link Collection} of {@link List} objects
+   */
+  async fetchPinned(options?: RequestOptions): Promise<Collection<Snowflake, List>> {
+    const loggedInUser = this.client.me;
+    if (!loggedInUser) throw new CustomError('NO_LOGGED_IN_USER');
+    const pinnedListsCollection = new Collection<Snowflake, List>();
+    const queryParameters = this.client.options.queryParameters;
+    const query = {
+      expansions: queryParameters?.listExpansions,
+      'list.fields': queryParameters?.listFields,
+      'user.fields': queryParameters?.userFields,
+    };
+    const requestData = new RequestData({ query, isUserContext: true, signal: options?.signal });
+    const data: GetListsResponse = await this.client._api.users(loggedInUser.id).pinned_lists.get(requestData);
+    if (data.meta.result_count === 0 || !data.data) return pinnedListsCollection;
+    for (const rawList of data.data) {
+      const list = this._add(rawList.id, { data: rawList, includes: data.includes });
+      pinnedListsCollection.set(list.id, list);
+    }
+    return pinnedListsCollection;
+  }
+
+  /**
+   * Fetches the members of a list.
+   * @param list The list whose members are to be fetched
+   * @param options The options for fetching the members
+   * @returns A tuple containing {@link ListMembersBook} object and a {@link Collection} of {@link User} objects representing the first page
+   */
+  async fetchMembers(
+    list: ListResolvable,
+    options?: FetchListMembersOptions,
+  ): Promise<[ListMembersBook, Collection<Snowflake, User>]> {
+    const listId = this.resolveId(list);
+    if (!listId) throw new CustomError('LIST_RESOLVE_ID', 'create list members book for');
+    const listMembersBook = new ListMembersBook(this.client, { listId, maxResultsPerPage: options?.maxResultsPerPage });
+    const firstPage = await listMembersBook.fetchNextPage({ signal: options?.signal });
+    return [listMembersBook, firstPage];
+  }
+
+  /**
+   * Fetches the followers of a list.
+   * @param list The list whose followers are to be fetched
+   * @param options The options for fetching the followers
+   * @returns A tuple containing {@link ListFollowersBook} object and a {@link Collection} of {@link User} objects representing the first page
+   */
+  async fetchFollowers(
+    list: ListResolvable,
+    options?: FetchListFollowersOptions,
+  ): Promise<[ListFollowersBook, Collection<Snowflake, User>]> {
+    const listId = this.resolveId(list);
+    if (!listId) throw new CustomError('LIST_RESOLVE_ID', 'create list followers book for');
+    const listFollowersBook = new ListFollowersBook(this.client, {
+      listId,
+      maxResultsPerPage: options?.maxResultsPerPage,
+    });
+    const firstPage = await listFollowersBook.fetchNextPage({ signal: options?.signal });
+    return [listFollowersBook, firstPage];
+  }
+
+  /**
+   * Fetches the tweets composed by the members of a list.
+   * @param list The list whose tweets are to be fetched
+   * @param options The options for fetching the tweets
+   * @returns A tuple containing {@link ListTweetsBook} object and a {@link Collection} of {@link Tweet} objects representing the first page
+   */
+  async fetchTweets(
+    list: ListResolvable,
+    options?: FetchListTweetsOptions,
+  ): Promise<[ListTweetsBook, Collection<Snowflake, Tweet>]> {
+    const listId = this.resolveId(list);
+    if (!listId) throw new CustomError('LIST_RESOLVE_ID', 'create list tweets book for');
+    const listTweetsBook = new ListTweetsBook(this.client, { listId, maxResultsPerPage: options?.maxResultsPerPage });
+    const firstPage = await listTweetsBook.fetchNextPage({ signal: options?.signal });
+    return [listTweetsBook, firstPage];
+  }
+
   /**
    * Creates a new list.
    * @param options The options for creating a list
@@ -44,21 +227,22 @@ export class ListManager extends BaseManager<Snowflake, ListResolvable, List> {
       description: options.description,
       private: options.private,
     };
-    const requestData = new RequestData({ body, isUserContext: true });
+    const requestData = new RequestData({ body, isUserContext: true, signal: options.signal });
     const res: PostListCreateResponse = await this.client._api.lists.post(requestData);
-    const list = this._add(res.data.id, res.data);
+    const list = this._add(res.data.id, { data: res.data });
     return list;
   }
 
   /**
    * Deletes a list.
    * @param list The list to delete
+   * @param options The options for the request
    * @returns A boolean representing whether the specified list has been deleted
    */
-  async delete(list: ListResolvable): Promise<boolean> {
+  async delete(list: ListResolvable, options?: RequestOptions): Promise<boolean> {
     const listId = this.resolveId(list);
     if (!listId) throw new CustomError('LIST_RESOLVE_ID', 'delete');
-    const requestData = new RequestData({ isUserContext: true });
+    const requestData = new RequestData({ isUserContext: true, signal: options?.signal });
     const res: DeleteListDeleteResponse = await this.client._api.lists(listId).delete(requestData);
     return res.data.deleted;
   }
@@ -78,7 +262,7 @@ export class ListManager extends BaseManager<Snowflake, ListResolvable, List> {
       description: options.description,
       private: options.private,
     };
-    const requestData = new RequestData({ body, isUserContext: true });
+    const requestData = new RequestData({ body, isUserContext: true, signal: options.signal });
     const res: PutListUpdateResponse = await this.client._api.lists(listId).put(requestData);
     return res.data.updated;
   }
@@ -87,9 +271,10 @@ export class ListManager extends BaseManager<Snowflake, ListResolvable, List> {
    * Adds a member to a list
    * @param list The list to add the member to
    * @param member The user to add as a member of the list
+   * @param options The options for the request
    * @returns A boolean representing whether the specified user has been added to the List
    */
-  async addMember(list: ListResolvable, member: UserResolvable): Promise<boolean> {
+  async addMember(list: ListResolvable, member: UserResolvable, options?: RequestOptions): Promise<boolean> {
     const listId = this.resolveId(list);
     if (!listId) throw new CustomError('LIST_RESOLVE_ID', 'add member to');
     const userId = this.client.users.resolveId(member);
@@ -97,7 +282,7 @@ export class ListManager extends BaseManager<Snowflake, ListResolvable, List> {
     const body: PostListAddMemberJSONBody = {
       user_id: userId,
     };
-    const requestData = new RequestData({ body, isUserContext: true });
+    const requestData = new RequestData({ body, isUserContext: true, signal: options?.signal });
     const res: PostListAddMemberResponse = await this.client._api.lists(listId).members.post(requestData);
     return res.data.is_member;
   }
@@ -106,14 +291,15 @@ export class ListManager extends BaseManager<Snowflake, ListResolvable, List> {
    * Removes a member from a list.
    * @param list The list to remove the member from
    * @param member The member to remove from the list
+   * @param options The options for the request
    * @returns A boolean representing whether the specified user has been removed from the list
    */
-  async removeMember(list: ListResolvable, member: UserResolvable): Promise<boolean> {
+  async removeMember(list: ListResolvable, member: UserResolvable, options?: RequestOptions): Promise<boolean> {
     const listId = this.resolveId(list);
     if (!listId) throw new CustomError('LIST_RESOLVE_ID', 'remove the member from');
     const userId = this.client.users.resolveId(member);
     if (!userId) throw new CustomError('USER_RESOLVE_ID', 'remove from the list');
-    const requestData = new RequestData({ isUserContext: true });
+    const requestData = new RequestData({ isUserContext: true, signal: options?.signal });
     const res: DeleteListRemoveMemberResponse = await this.client._api
       .lists(listId)
       .members(userId)
@@ -124,9 +310,10 @@ export class ListManager extends BaseManager<Snowflake, ListResolvable, List> {
   /**
    * Follows a list.
    * @param list The list to follow
+   * @param options The options for the request
    * @returns A boolean representing whether the authorized user followed the list
    */
-  async follow(list: ListResolvable): Promise<boolean> {
+  async follow(list: ListResolvable, options?: RequestOptions): Promise<boolean> {
     const listId = this.resolveId(list);
     if (!listId) throw new CustomError('LIST_RESOLVE_ID', 'follow');
     const loggedInUser = this.client.me;
@@ -134,7 +321,7 @@ export class ListManager extends BaseManager<Snowflake, ListResolvable, List> {
     const body: PostListFollowJSONBody = {
       list_id: listId,
     };
-    const requestData = new RequestData({ body, isUserContext: true });
+    const requestData = new RequestData({ body, isUserContext: true, signal: options?.signal });
     const res: PostListFollowResponse = await this.client._api.users(loggedInUser.id).followed_lists.post(requestData);
     return res.data.following;
   }
@@ -142,14 +329,15 @@ export class ListManager extends BaseManager<Snowflake, ListResolvable, List> {
   /**
    * Unfollows a list.
    * @param list The list to unfollow
+   * @param options The options for the request
    * @returns A boolean representing whether the authorized user unfollowed the list
    */
-  async unfollow(list: ListResolvable): Promise<boolean> {
+  async unfollow(list: ListResolvable, options?: RequestOptions): Promise<boolean> {
     const listId = this.resolveId(list);
     if (!listId) throw new CustomError('LIST_RESOLVE_ID', 'unfollow');
     const loggedInUser = this.client.me;
     if (!loggedInUser) throw new CustomError('NO_LOGGED_IN_USER');
-    const requestData = new RequestData({ isUserContext: true });
+    const requestData = new RequestData({ isUserContext: true, signal: options?.signal });
     const res: DeleteListUnfollowResponse = await this.client._api
       .users(loggedInUser.id)
       .followed_lists(listId)
@@ -160,9 +348,10 @@ export class ListManager extends BaseManager<Snowflake, ListResolvable, List> {
   /**
    * Pins a list.
    * @param list The list to pin
+   * @param options The options for the request
    * @returns A boolean representing whether the authorized user pinned the list
    */
-  async pin(list: ListResolvable): Promise<boolean> {
+  async pin(list: ListResolvable, options?: RequestOptions): Promise<boolean> {
     const listId = this.resolveId(list);
     if (!listId) throw new CustomError('LIST_RESOLVE_ID', 'pin');
     const loggedInUser = this.client.me;
@@ -170,7 +359,7 @@ export class ListManager extends BaseManager<Snowflake, ListResolvable, List> {
     const body: PostListPinJSONBody = {
       list_id: listId,
     };
-    const requestData = new RequestData({ body, isUserContext: true });
+    const requestData = new RequestData({ body, isUserContext: true, signal: options?.signal });
     const res: PostListPinResponse = await this.client._api.users(loggedInUser.id).pinned_lists.post(requestData);
     return res.data.pinned;
   }
@@ -178,14 +367,15 @@ export class ListManager extends BaseManager<Snowflake, ListResolvable, List> {
   /**
    * Unpins a list.
    * @param list The list to unpin
+   * @param options The options for the request
    * @returns A boolean representing whether the authorized user unpinned the list
    */
-  async unpin(list: ListResolvable): Promise<boolean> {
+  async unpin(list: ListResolvable, options?: RequestOptions): Promise<boolean> {
     const listId = this.resolveId(list);
     if (!listId) throw new CustomError('LIST_RESOLVE_ID', 'pin');
     const loggedInUser = this.client.me;
     if (!loggedInUser) throw new CustomError('NO_LOGGED_IN_USER');
-    const requestData = new RequestData({ isUserContext: true });
+    const requestData = new RequestData({ isUserContext: true, signal: options?.signal });
     const res: DeleteListUnpinResponse = await this.client._api
       .users(loggedInUser.id)
       .pinned_lists(listId)
@@ -0,0 +1,196 @@
+import { promises as fs } from 'fs';
+import { setTimeout as wait } from 'timers/promises';
+import { Blob } from 'buffer';
+import { FormData } from 'undici';
+import { BaseManager } from './BaseManager';
+import { Media, RequestData } from '../structures';
+import { CustomError } from '../errors';
+import { MediaUploadLimits } from '../util';
+import type { Client } from '../client';
+import type { MediaAttachment, MediaCategory, MediaUploadable, MediaUploadOptions, RequestOptions } from '../typings';
+import type { APIMediaType, Snowflake } from 'twitter-types';
+
+/**
+ * The response of the media upload endpoint
+ */
+interface MediaUploadResponse {
+  media_id_string: Snowflake;
+  media_key?: string;
+  processing_info?: {
+    state: 'pending' | 'in_progress' | 'succeeded' | 'failed';
+    check_after_secs?: number;
+    progress_percent?: number;
+    error?: { code: number; name: string; message: string };
+  };
+}
+
+/**
+ * The prefixes of the media keys of each type of media
+ */
+const MediaKeyPrefixes: Record<APIMediaType, number> = {
+  photo: 3,
+  video: 7,
+  animated_gif: 16,
+};
+
+/**
+ * The manager class that holds API methods for uploading {@link Media} objects and stores the uploaded ones
+ */
+export class MediaManager extends BaseManager<string, Media, Media> {
+  /**
+   * @param client The logged in {@link Client} instance
+   */
+  constructor(client: Client) {
+    super(client, Media);
+  }
+
+  /**
+   * Uploads media on behalf of the authorized user. Images are uploaded in a single request, while videos, GIFs and
+   * large images are uploaded in chunks and waited upon until they have been processed.
+   * @param media The content of the media, or the path of its file
+   * @param options The options for uploading the media
+   * @returns The uploaded {@link Media}, which can be attached to tweets
+   */
+  async upload(media: MediaUploadable, options?: MediaUploadOptions): Promise<Media> {
+    const buffer = await this.#read(media);
+    const mimeType = options?.mimeType ?? this.#detectMimeType(buffer);
+    const category = options?.category ?? this.#resolveCategory(mimeType, options?.forDirectMessage ? 'dm' : 'tweet');
+    const signal = options?.signal;
+    const data =
+      category.endsWith('_image') && buffer.length <= MediaUploadLimits.SIMPLE_UPLOAD_MAX_SIZE
+        ? await this.#uploadSimple(buffer, mimeType, category, signal)
+        : await this.#uploadChunked(buffer, mimeType, category, signal);
+    const type = this.#resolveType(mimeType);
+    const mediaKey = data.media_key ?? `${MediaKeyPrefixes[type]}_${data.media_id_string}`;
+    const uploadedMedia = this._add(mediaKey, { media_key: mediaKey, type });
+    if (options?.altText) await this.createMetadata(uploadedMedia, options.altText, { signal });
+    return uploadedMedia;
+  }
+
+  /**
+   * Sets the alternative text of media uploaded by the authorized user.
+   * @param media The media, or its ID
+   * @param altText The alternative text, up to 1000 characters
+   * @param options The options for the request
+   * @returns A promise that resolves once the alternative text is set
+   */
+  async createMetadata(media: Media | Snowflake, altText: string, options?: RequestOptions): Promise<void> {
+    const mediaId = media instanceof Media ? media.mediaId : media;
+    if (typeof mediaId !== 'string') throw new CustomError('MEDIA_RESOLVE_ID', 'set the alternative text of');
+    const requestData = new RequestData({
+      body: { media_id: mediaId, alt_text: { text: altText } },
+      isUserContext: true,
+      signal: options?.signal,
+      baseURL: this.client.options.api?.uploadURL,
+    });
+    await this.client._api.media.metadata['create.json'].post(requestData);
+  }
+
+  /**
+   * Resolves the media attached to a tweet or a direct message to their IDs, uploading the ones that have not been
+   * uploaded yet.
+   * @param attachments The media to attach
+   * @param options The options for uploading the media
+   * @returns The IDs of the media in the order they were provided in
+   */
+  async resolveAttachments(
+    attachments: Array<MediaAttachment>,
+    options?: MediaUploadOptions,
+  ): Promise<Array<Snowflake>> {
+    return Promise.all(
+      attachments.map(async attachment => {
+        if (attachment instanceof Media) return attachment.mediaId;
+        const uploadedMedia = await this.upload(attachment, options);
+        return uploadedMedia.mediaId;
+      }),
+    );
+  }
+
+  // #### 🚧 PRIVATE METHODS 🚧 ####
+
+  async #read(media: MediaUploadable): Promise<Buffer> {
+    if (Buffer.isBuffer(media)) return media;
+    if (typeof media === 'string') return fs.readFile(media);
+    const chunks: Array<Buffer> = [];
+    for await (const chunk of media) chunks.push(Buffer.from(chunk));
+    return Buffer.concat(chunks);
+  }
+
+  #detectMimeType(buffer: Buffer): string {
+    const header = buffer.toString('latin1', 0, 12);
+    if (header.startsWith('\x89PNG')) return 'image/png';
+    if (header.startsWith('\xff\xd8\xff')) return 'image/jpeg';
+    if (header.startsWith('GIF8')) return 'image/gif';
+    if (header.startsWith('RIFF') && header.slice(8) === 'WEBP') return 'image/webp';
+    if (header.slice(4, 8) === 'ftyp') return 'video/mp4';
+    throw new CustomError('MEDIA_TYPE_UNKNOWN');
+  }
+
+  #resolveCategory(mimeType: string, usage: 'tweet' | 'dm'): MediaCategory {
+    if (mimeType === 'image/gif') return `${usage}_gif`;
+    if (mimeType.startsWith('video/')) return `${usage}_video`;
+    return `${usage}_image`;
+  }
+
+  #resolveType(mimeType: string): APIMediaType {
+    if (mimeType === 'image/gif') return 'animated_gif';
+    if (mimeType.startsWith('video/')) return 'video';
+    return 'photo';
+  }
+
+  async #uploadSimple(
+    buffer: Buffer,
+    mimeType: string,
+    category: MediaCategory,
+    signal?: AbortSignal,
+  ): Promise<MediaUploadResponse> {
+    const body = new FormData();
+    body.append('media', new Blob([buffer], { type: mimeType }));
+    return this.#request({ media_category: category }, signal, body);
+  }
+
+  async #uploadChunked(
+    buffer: Buffer,
+    mimeType: string,
+    category: MediaCategory,
+    signal?: AbortSignal,
+  ): Promise<MediaUploadResponse> {
+    const { media_id_string: mediaId } = await this.#request(
+      { command: 'INIT', total_bytes: buffer.length, media_type: mimeType, media_category: category },
+      signal,
+    );
+    for (let offset = 0, segment = 0; offset < buffer.length; offset += MediaUploadLimits.CHUNK_SIZE, segment++) {
+      const body = new FormData();
+      body.append('media', new Blob([buffer.subarray(offset, offset + MediaUploadLimits.CHUNK_SIZE)]));
+      await this.#request({ command: 'APPEND', media_id: mediaId, segment_index: segment }, signal, body);
+    }
+    let data = await this.#request({ command: 'FINALIZE', media_id: mediaId }, signal);
+    // Videos and GIFs are processed asynchronously after being uploaded, and cannot be attached until that is done
+    while (data.processing_info?.state === 'pending' || data.processing_info?.state === 'in_progress') {
+      // An aborted wait is left to the next request, which rejects for the aborted signal
+      await wait((data.processing_info.check_after_secs ?? 1) * 1000, undefined, { signal }).catch(() => undefined);
+      data = await this.#request({ command: 'STATUS', media_id: mediaId }, signal, undefined, 'get');
+    }
+    if (data.processing_info?.state === 'failed') {
+      throw new CustomError('MEDIA_PROCESSING_FAILED', data.processing_info.error?.message ?? 'unknown error');
+    }
+    return data;
+  }
+
+  async #request(
+    query: Record<string, string | number>,
+    signal?: AbortSignal,
+    body?: FormData,
+    method: 'get' | 'post' = 'post',
+  ): Promise<MediaUploadResponse> {
+    const requestData = new RequestData({
+      query,
+      body,
+      isUserContext: true,
+      signal,
+      baseURL: this.client.options.api?.uploadURL,
+    });
+    const data = await this.client._api.media['upload.json'][method](requestData);
+    return data as MediaUploadResponse;
+  }
+}
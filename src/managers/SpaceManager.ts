@@ -77,7 +77,7 @@ export class SpaceManager extends BaseManager<Snowflake, SpaceResolvable, Space>
       'user.fields': queryParameters?.userFields,
       'space.fields': queryParameters?.spaceFields,
     };
-    const requestData = new RequestData({ query });
+    const requestData = new RequestData({ query, signal: options.signal });
     const data: GetMultipleSpacesByCreatorIdsResponse = await this.client._api.spaces.by.creator_ids.get(requestData);
     if (data.meta.result_count === 0) return fetchedSpaceCollection;
     const rawSpaces = data.data;
@@ -105,7 +105,7 @@ export class SpaceManager extends BaseManager<Snowflake, SpaceResolvable, Space>
       state: options.state,
       'user.fields': queryParameters?.userFields,
     };
-    const requestData = new RequestData({ query });
+    const requestData = new RequestData({ query, signal: options.signal });
     const data: GetMultipleSpacesBySearchResponse = await this.client._api.spaces.search.get(requestData);
     if (data.meta.result_count === 0) return fetchedSpaceCollection;
     const rawSpaces = data.data;
@@ -130,7 +130,7 @@ export class SpaceManager extends BaseManager<Snowflake, SpaceResolvable, Space>
       'space.fields': queryParameters?.spaceFields,
       'user.fields': queryParameters?.userFields,
     };
-    const requestData = new RequestData({ query });
+    const requestData = new RequestData({ query, signal: options.signal });
     const data: GetSingleSpaceByIdResponse = await this.client._api.spaces(spaceId).get(requestData);
     return this._add(data.data.id, data, options.cacheAfterFetching);
   }
@@ -147,7 +147,7 @@ export class SpaceManager extends BaseManager<Snowflake, SpaceResolvable, Space>
       'space.fields': queryParameters?.spaceFields,
       'user.fields': queryParameters?.userFields,
     };
-    const requestData = new RequestData({ query });
+    const requestData = new RequestData({ query, signal: options.signal });
     const data: GetMultipleSpacesByIdsResponse = await this.client._api.spaces.get(requestData);
     const rawSpaces = data.data;
     const rawSpacesIncludes = data.includes;
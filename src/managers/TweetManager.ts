@@ -1,12 +1,15 @@
-import { Collection } from '../util';
+import { AuthProviderName, Collection } from '../util';
 import { BaseManager } from './BaseManager';
-import { SearchTweetsBook, TweetsCountBook } from '../books';
+import { QuoteTweetsBook, SearchTweetsBook, TweetsCountBook } from '../books';
 import {
+  ConversationThread,
   RemovedRetweetResponse,
   RequestData,
   RetweetResponse,
+  TweetBookmarkResponse,
   TweetLikeResponse,
   TweetReplyHideUnhideResponse,
+  TweetUnbookmarkResponse,
   TweetUnlikeResponse,
   SimplifiedTweet,
   User,
@@ -17,16 +20,23 @@ import {
 import { CustomError, CustomTypeError } from '../errors';
 import type { Client } from '../client';
 import type {
+  BookmarkResponse,
   TweetManagerFetchResult,
   TweetResolvable,
   FetchTweetOptions,
   FetchTweetsOptions,
+  FetchQuoteTweetsOptions,
+  QuoteTweetsBookOptions,
+  SearchQuery,
   SearchTweetsOptions,
   SearchTweetsBookOptions,
   TweetsCountBookOptions,
   CountTweetsOptions,
   TweetCreateOptions,
+  TweetStreamIteratorOptions,
+  RequestOptions,
 } from '../typings';
+import type { TweetStreamIterator } from '../streams';
 import type {
   DeleteTweetDeleteResponse,
   DeleteTweetsLikeResponse,
@@ -111,9 +121,10 @@ export class TweetManager extends BaseManager<Snowflake, TweetResolvable, Tweet>
   /**
    * Likes a tweet.
    * @param targetTweet The tweet to like
+   * @param options The options for the request
    * @returns A {@link TweetLikeResponse} object
    */
-  async like(targetTweet: TweetResolvable): Promise<TweetLikeResponse> {
+  async like(targetTweet: TweetResolvable, options?: RequestOptions): Promise<TweetLikeResponse> {
     const tweetId = this.resolveId(targetTweet);
     if (!tweetId) throw new CustomError('TWEET_RESOLVE_ID', 'like');
     const loggedInUser = this.client.me;
@@ -121,7 +132,7 @@ export class TweetManager extends BaseManager<Snowflake, TweetResolvable, Tweet>
     const body: PostTweetsLikeJSONBody = {
       tweet_id: tweetId,
     };
-    const requestData = new RequestData({ body, isUserContext: true });
+    const requestData = new RequestData({ body, isUserContext: true, signal: options?.signal });
     const data: PostTweetsLikeResponse = await this.client._api.users(loggedInUser.id).likes.post(requestData);
     return new TweetLikeResponse(data);
   }
@@ -129,14 +140,15 @@ export class TweetManager extends BaseManager<Snowflake, TweetResolvable, Tweet>
   /**
    * Unlikes a tweet.
    * @param targetTweet The tweet to unlike
+   * @param options The options for the request
    * @returns A {@link TweetUnlikeResponse} object
    */
-  async unlike(targetTweet: TweetResolvable): Promise<TweetUnlikeResponse> {
+  async unlike(targetTweet: TweetResolvable, options?: RequestOptions): Promise<TweetUnlikeResponse> {
     const tweetId = this.resolveId(targetTweet);
     if (!tweetId) throw new CustomError('TWEET_RESOLVE_ID', 'unlike');
     const loggedInUser = this.client.me;
     if (!loggedInUser) throw new CustomError('NO_LOGGED_IN_USER');
-    const requestData = new RequestData({ isUserContext: true });
+    const requestData = new RequestData({ isUserContext: true, signal: options?.signal });
     const data: DeleteTweetsLikeResponse = await this.client._api
       .users(loggedInUser.id)
       .likes(tweetId)
@@ -144,30 +156,83 @@ export class TweetManager extends BaseManager<Snowflake, TweetResolvable, Tweet>
     return new TweetUnlikeResponse(data);
   }
 
+  /**
+   * Bookmarks a tweet.
+   *
+   * **Note**: This requires the client to be logged in using {@link Client.loginWithOAuth2}
+   * @param targetTweet The tweet to bookmark
+   * @param options The options for the request
+   * @returns A {@link TweetBookmarkResponse} object
+   */
+  async bookmark(targetTweet: TweetResolvable, options?: RequestOptions): Promise<TweetBookmarkResponse> {
+    const tweetId = this.resolveId(targetTweet);
+    if (!tweetId) throw new CustomError('TWEET_RESOLVE_ID', 'bookmark');
+    const loggedInUser = this.client.me;
+    if (!loggedInUser) throw new CustomError('NO_LOGGED_IN_USER');
+    if (!this.client.oauth2) throw new CustomError('OAUTH2_USER_TOKEN_REQUIRED', 'bookmark the tweet');
+    const body = {
+      tweet_id: tweetId,
+    };
+    const requestData = new RequestData({
+      body,
+      isUserContext: true,
+      authProvider: AuthProviderName.OAUTH2_USER,
+      signal: options?.signal,
+    });
+    const data: BookmarkResponse = await this.client._api.users(loggedInUser.id).bookmarks.post(requestData);
+    return new TweetBookmarkResponse(data);
+  }
+
+  /**
+   * Removes the bookmark of a tweet.
+   *
+   * **Note**: This requires the client to be logged in using {@link Client.loginWithOAuth2}
+   * @param targetTweet The tweet whose bookmark is to be removed
+   * @param options The options for the request
+   * @returns A {@link TweetUnbookmarkResponse} object
+   */
+  async unbookmark(targetTweet: TweetResolvable, options?: RequestOptions): Promise<TweetUnbookmarkResponse> {
+    const tweetId = this.resolveId(targetTweet);
+    if (!tweetId) throw new CustomError('TWEET_RESOLVE_ID', 'remove bookmark');
+    const loggedInUser = this.client.me;
+    if (!loggedInUser) throw new CustomError('NO_LOGGED_IN_USER');
+    if (!this.client.oauth2) throw new CustomError('OAUTH2_USER_TOKEN_REQUIRED', 'remove the bookmark of the tweet');
+    const requestData = new RequestData({
+      isUserContext: true,
+      authProvider: AuthProviderName.OAUTH2_USER,
+      signal: options?.signal,
+    });
+    const data: BookmarkResponse = await this.client._api.users(loggedInUser.id).bookmarks(tweetId).delete(requestData);
+    return new TweetUnbookmarkResponse(data);
+  }
+
   /**
    * Hides a reply to a tweet of the authorized user.
    * @param targetTweet The reply to hide. This should be a tweet reply to a tweet of the authorized user
+   * @param options The options for the request
    * @returns A {@link TweetReplyHideUnhideResponse} object
    */
-  async hide(targetTweet: TweetResolvable): Promise<TweetReplyHideUnhideResponse> {
-    return this.#editTweetReplyVisibility(targetTweet, true);
+  async hide(targetTweet: TweetResolvable, options?: RequestOptions): Promise<TweetReplyHideUnhideResponse> {
+    return this.#editTweetReplyVisibility(targetTweet, true, options);
   }
 
   /**
    * Unhides a reply to a tweet of the authorized user.
    * @param targetTweet The reply to unhide. This should be a tweet reply to one of the tweets of the authorized user
+   * @param options The options for the request
    * @returns A {@link TweetReplyHideUnhideResponse} object
    */
-  async unhide(targetTweet: TweetResolvable): Promise<TweetReplyHideUnhideResponse> {
-    return this.#editTweetReplyVisibility(targetTweet, false);
+  async unhide(targetTweet: TweetResolvable, options?: RequestOptions): Promise<TweetReplyHideUnhideResponse> {
+    return this.#editTweetReplyVisibility(targetTweet, false, options);
   }
 
   /**
    * Retweets a tweet.
    * @param targetTweet The tweet to retweet
+   * @param options The options for the request
    * @returns A {@link RetweetResponse} object
    */
-  async retweet(targetTweet: TweetResolvable): Promise<RetweetResponse> {
+  async retweet(targetTweet: TweetResolvable, options?: RequestOptions): Promise<RetweetResponse> {
     const tweetId = this.resolveId(targetTweet);
     if (!tweetId) throw new CustomError('TWEET_RESOLVE_ID', 'retweet');
     const loggedInUser = this.client.me;
@@ -175,7 +240,7 @@ export class TweetManager extends BaseManager<Snowflake, TweetResolvable, Tweet>
     const body: PostUsersRetweetsJSONBody = {
       tweet_id: tweetId,
     };
-    const requestData = new RequestData({ body, isUserContext: true });
+    const requestData = new RequestData({ body, isUserContext: true, signal: options?.signal });
     const data: PostUsersRetweetsResponse = await this.client._api.users(loggedInUser.id).retweets.post(requestData);
     return new RetweetResponse(data);
   }
@@ -183,14 +248,15 @@ export class TweetManager extends BaseManager<Snowflake, TweetResolvable, Tweet>
   /**
    * Removes the retweet of a tweet.
    * @param targetTweet The tweet whose retweet is to be removed
+   * @param options The options for the request
    * @returns A {@link RemovedRetweetResponse} object
    */
-  async unRetweet(targetTweet: TweetResolvable): Promise<RemovedRetweetResponse> {
+  async unRetweet(targetTweet: TweetResolvable, options?: RequestOptions): Promise<RemovedRetweetResponse> {
     const tweetId = this.resolveId(targetTweet);
     if (!tweetId) throw new CustomError('TWEET_RESOLVE_ID', 'remove retweet');
     const loggedInUser = this.client.me;
     if (!loggedInUser) throw new CustomError('NO_LOGGED_IN_USER');
-    const requestData = new RequestData({ isUserContext: true });
+    const requestData = new RequestData({ isUserContext: true, signal: options?.signal });
     const data: DeleteUsersRetweetsResponse = await this.client._api
       .users(loggedInUser.id)
       .retweets(tweetId)
@@ -201,9 +267,10 @@ export class TweetManager extends BaseManager<Snowflake, TweetResolvable, Tweet>
   /**
    * Fetches users who have retweeted a tweet.
    * @param targetTweet The tweet whose retweeters are to be fetched
+   * @param options The options for the request
    * @returns A {@link Collection} of {@link User} objects
    */
-  async fetchRetweetedBy(targetTweet: TweetResolvable): Promise<Collection<Snowflake, User>> {
+  async fetchRetweetedBy(targetTweet: TweetResolvable, options?: RequestOptions): Promise<Collection<Snowflake, User>> {
     const tweetId = this.resolveId(targetTweet);
     if (!tweetId) throw new CustomError('TWEET_RESOLVE_ID', 'remove retweet');
     const queryParameters = this.client.options.queryParameters;
@@ -212,7 +279,7 @@ export class TweetManager extends BaseManager<Snowflake, TweetResolvable, Tweet>
       'user.fields': queryParameters?.userFields,
       'tweet.fields': queryParameters?.tweetFields,
     };
-    const requestData = new RequestData({ query });
+    const requestData = new RequestData({ query, signal: options?.signal });
     const data: GetTweetsRetweetingUsersResponse = await this.client._api.tweets(tweetId).retweeted_by.get(requestData);
     const retweetedByUsersCollection = new Collection<Snowflake, User>();
     if (data.meta.result_count === 0) return retweetedByUsersCollection;
@@ -228,9 +295,10 @@ export class TweetManager extends BaseManager<Snowflake, TweetResolvable, Tweet>
   /**
    * Fetches a collection of users who liked a tweet.
    * @param targetTweet The tweet whose liking users are to be fetched
+   * @param options The options for the request
    * @returns A {@link Collection} of {@link User} objects who liked the specified tweet
    */
-  async fetchLikedBy(targetTweet: TweetResolvable): Promise<Collection<Snowflake, User>> {
+  async fetchLikedBy(targetTweet: TweetResolvable, options?: RequestOptions): Promise<Collection<Snowflake, User>> {
     const tweetId = this.resolveId(targetTweet);
     if (!tweetId) throw new CustomError('TWEET_RESOLVE_ID', 'fetch liking users');
     const queryParameters = this.client.options.queryParameters;
@@ -239,7 +307,7 @@ export class TweetManager extends BaseManager<Snowflake, TweetResolvable, Tweet>
       'user.fields': queryParameters?.userFields,
       'tweet.fields': queryParameters?.tweetFields,
     };
-    const requestData = new RequestData({ query });
+    const requestData = new RequestData({ query, signal: options?.signal });
     const data: GetTweetsLikingUsersResponse = await this.client._api.tweets(tweetId).liking_users.get(requestData);
     const likedByUsersCollection = new Collection<Snowflake, User>();
     if (data.meta.result_count === 0) return likedByUsersCollection;
@@ -252,17 +320,81 @@ export class TweetManager extends BaseManager<Snowflake, TweetResolvable, Tweet>
     return likedByUsersCollection;
   }
 
+  /**
+   * Fetches tweets that quote a tweet.
+   * @param targetTweet The tweet whose quote tweets are to be fetched
+   * @param options The options for fetching quote tweets
+   * @returns A tuple containing {@link QuoteTweetsBook} object and a {@link Collection} of {@link Tweet} objects representing the first page
+   */
+  async fetchQuoteTweets(
+    targetTweet: TweetResolvable,
+    options?: FetchQuoteTweetsOptions,
+  ): Promise<[QuoteTweetsBook, Collection<Snowflake, Tweet>]> {
+    const tweetId = this.resolveId(targetTweet);
+    if (!tweetId) throw new CustomError('TWEET_RESOLVE_ID', 'create quote tweets book for');
+    const bookData: QuoteTweetsBookOptions = { tweetId };
+    if (options?.exclude) {
+      bookData.exclude = options.exclude;
+    }
+    if (options?.maxResultsPerPage) {
+      bookData.maxResultsPerPage = options.maxResultsPerPage;
+    }
+    const quoteTweetsBook = new QuoteTweetsBook(this.client, bookData);
+    const firstPage = await quoteTweetsBook.fetchNextPage({ signal: options?.signal });
+    return [quoteTweetsBook, firstPage];
+  }
+
+  /**
+   * Fetches the conversation a tweet is part of and rebuilds it as a thread of replies.
+   *
+   * **Note**: Tweets that are missing from the search results or have been deleted are kept in the thread as
+   * placeholder nodes, so that the replies to them are not lost
+   * @param targetTweet Any tweet in the conversation
+   * @param options The options for the request
+   * @returns A {@link ConversationThread} object rooted at the tweet that started the conversation
+   */
+  async fetchConversation(targetTweet: TweetResolvable, options?: RequestOptions): Promise<ConversationThread> {
+    const tweetId = this.resolveId(targetTweet);
+    if (!tweetId) throw new CustomError('TWEET_RESOLVE_ID', 'fetch conversation of');
+    let tweet = this.resolve(targetTweet);
+    if (!tweet?.conversationId) {
+      tweet = await this.fetch({ tweet: tweetId, skipCacheCheck: true, signal: options?.signal });
+    }
+    const conversationId = tweet.conversationId;
+    if (!conversationId) throw new CustomError('TWEET_CONVERSATION_ID_UNKNOWN');
+    const conversationTweets = new Collection<Snowflake, Tweet>([[tweet.id, tweet]]);
+    const [searchTweetsBook, firstPage] = await this.search(`conversation_id:${conversationId}`, {
+      maxResultsPerPage: 100,
+      signal: options?.signal,
+    });
+    for (const [id, reply] of firstPage) conversationTweets.set(id, reply);
+    while (searchTweetsBook.hasMore) {
+      const page = await searchTweetsBook.fetchNextPage({ signal: options?.signal });
+      for (const [id, reply] of page) conversationTweets.set(id, reply);
+    }
+    if (!conversationTweets.has(conversationId)) {
+      const rootTweets = await this.fetch({ tweets: [conversationId], signal: options?.signal });
+      for (const [id, rootTweet] of rootTweets) conversationTweets.set(id, rootTweet);
+    }
+    return new ConversationThread(conversationId, conversationTweets);
+  }
+
   /**
    * Fetches tweets using a search query.
-   * @param query The query to match tweets with
+   * @param query The query to match tweets with, as a string or a {@link QueryBuilder}
    * @param options The options for searching tweets
    * @returns A tuple containing {@link SearchTweetsBook} object and a {@link Collection} of {@link Tweet} objects representing the first page
    */
   async search(
-    query: string,
+    query: SearchQuery,
     options?: SearchTweetsOptions,
   ): Promise<[SearchTweetsBook, Collection<Snowflake, Tweet>]> {
-    const bookData: SearchTweetsBookOptions = { query };
+    const bookData: SearchTweetsBookOptions = {
+      query: typeof query === 'string' ? query : query.build(options?.archive ? 'archive' : 'recent'),
+    };
+    if (options?.archive) {
+      bookData.archive = options.archive;
+    }
     if (options?.afterTweet) {
       const afterTweetId = this.client.tweets.resolveId(options.afterTweet);
       if (afterTweetId) bookData.afterTweetId = afterTweetId;
@@ -283,18 +415,23 @@ export class TweetManager extends BaseManager<Snowflake, TweetResolvable, Tweet>
       bookData.maxResultsPerPage = options.maxResultsPerPage;
     }
     const searchTweetsBook = new SearchTweetsBook(this.client, bookData);
-    const firstPage = await searchTweetsBook.fetchNextPage();
+    const firstPage = await searchTweetsBook.fetchNextPage({ signal: options?.signal });
     return [searchTweetsBook, firstPage];
   }
 
   /**
    * Fetches count of tweets matching a search query.
-   * @param query The query to match the tweets with
+   * @param query The query to match the tweets with, as a string or a {@link QueryBuilder}
    * @param options The options for searching tweets
    * @returns A tuple containing {@link TweetsCountBook} object and an array of {@link TweetCountBucket} objects representing the first page
    */
-  async count(query: string, options?: CountTweetsOptions): Promise<[TweetsCountBook, Array<TweetCountBucket>]> {
-    const bookData: TweetsCountBookOptions = { query };
+  async count(query: SearchQuery, options?: CountTweetsOptions): Promise<[TweetsCountBook, Array<TweetCountBucket>]> {
+    const bookData: TweetsCountBookOptions = {
+      query: typeof query === 'string' ? query : query.build(options?.fullArchive ? 'archive' : 'recent'),
+    };
+    if (options?.fullArchive) {
+      bookData.fullArchive = options.fullArchive;
+    }
     if (options?.afterTweet) {
       const afterTweetId = this.client.tweets.resolveId(options.afterTweet);
       if (afterTweetId) bookData.afterTweetId = afterTweetId;
@@ -315,18 +452,26 @@ export class TweetManager extends BaseManager<Snowflake, TweetResolvable, Tweet>
       bookData.granularity = options.granularity;
     }
     const tweetsCountBook = new TweetsCountBook(this.client, bookData);
-    const firstPage = await tweetsCountBook.fetchNextPage();
+    const firstPage = await tweetsCountBook.fetchNextPage({ signal: options?.signal });
     return [tweetsCountBook, firstPage];
   }
 
   /**
-   * Creates a new tweet.
+   * Creates a new tweet. Media attachments that have not been uploaded yet are uploaded before creating it.
    * @param options The options for creating the tweet
    * @returns The id and text of the created tweet
    */
   async create(options: TweetCreateOptions): Promise<{ id: Snowflake; text: string }> {
+    const attachments = options.media?.attachments;
+    if (attachments) {
+      const mediaIds = await this.client.media.resolveAttachments(attachments, { signal: options.signal });
+      options = {
+        ...options,
+        media: { ...options.media, mediaIds: [...(options.media?.mediaIds ?? []), ...mediaIds] },
+      };
+    }
     const data = new TweetPayload(this.client, options).resolveData();
-    const requestData = new RequestData({ body: data, isUserContext: true });
+    const requestData = new RequestData({ body: data, isUserContext: true, signal: options.signal });
     const res: PostTweetCreateResponse = await this.client._api.tweets.post(requestData);
     return res.data;
   }
@@ -334,16 +479,41 @@ export class TweetManager extends BaseManager<Snowflake, TweetResolvable, Tweet>
   /**
    * Deletes a tweet created by the authorized user.
    * @param tweet The tweet to delete
+   * @param options The options for the request
    * @returns A boolean representing whether the tweet got deleted
    */
-  async delete(tweet: TweetResolvable): Promise<boolean> {
+  async delete(tweet: TweetResolvable, options?: RequestOptions): Promise<boolean> {
     const tweetId = this.resolveId(tweet);
     if (!tweetId) throw new CustomError('TWEET_RESOLVE_ID', 'delete');
-    const requestData = new RequestData({ isUserContext: true });
+    const requestData = new RequestData({ isUserContext: true, signal: options?.signal });
     const res: DeleteTweetDeleteResponse = await this.client._api.tweets(tweetId).delete(requestData);
     return res.data.deleted;
   }
 
+  /**
+   * Iterates over the tweets received from the filtered tweet stream.
+   *
+   * **Note**: Breaking out of the loop closes the connection to the stream, unless it was already connected
+   * before iterating over it
+   * @param options The options for iterating over the stream
+   * @returns A {@link TweetStreamIterator} object to use with `for await...of` loops
+   */
+  streamFiltered(options?: TweetStreamIteratorOptions): TweetStreamIterator {
+    return this.client.streams.filtered.iterate(options);
+  }
+
+  /**
+   * Iterates over the tweets received from the sampled tweet stream.
+   *
+   * **Note**: Breaking out of the loop closes the connection to the stream, unless it was already connected
+   * before iterating over it
+   * @param options The options for iterating over the stream
+   * @returns A {@link TweetStreamIterator} object to use with `for await...of` loops
+   */
+  streamSampled(options?: TweetStreamIteratorOptions): TweetStreamIterator {
+    return this.client.streams.sampled.iterate(options);
+  }
+
   // #### 🚧 PRIVATE METHODS 🚧 ####
 
   async #fetchSingleTweet(tweetId: Snowflake, options: FetchTweetOptions): Promise<Tweet> {
@@ -360,7 +530,7 @@ export class TweetManager extends BaseManager<Snowflake, TweetResolvable, Tweet>
       'tweet.fields': queryParameters?.tweetFields,
       'user.fields': queryParameters?.userFields,
     };
-    const requestData = new RequestData({ query });
+    const requestData = new RequestData({ query, signal: options.signal });
     const data: GetSingleTweetByIdResponse = await this.client._api.tweets(tweetId).get(requestData);
     return this._add(data.data.id, data, options.cacheAfterFetching);
   }
@@ -380,9 +550,11 @@ export class TweetManager extends BaseManager<Snowflake, TweetResolvable, Tweet>
       'tweet.fields': queryParameters?.tweetFields,
       'user.fields': queryParameters?.userFields,
     };
-    const requestData = new RequestData({ query });
+    const requestData = new RequestData({ query, signal: options.signal });
     const data: GetMultipleTweetsByIdsResponse = await this.client._api.tweets.get(requestData);
     const rawTweets = data.data;
+    // Tweets that do not exist or have been deleted are reported in the errors of the response instead
+    if (!rawTweets) return fetchedTweetCollection;
     const rawTweetsIncludes = data.includes;
     for (const rawTweet of rawTweets) {
       const tweet = this._add(rawTweet.id, { data: rawTweet, includes: rawTweetsIncludes }, options.cacheAfterFetching);
@@ -394,13 +566,14 @@ export class TweetManager extends BaseManager<Snowflake, TweetResolvable, Tweet>
   async #editTweetReplyVisibility(
     targetTweet: TweetResolvable,
     isHidden: boolean,
+    options?: RequestOptions,
   ): Promise<TweetReplyHideUnhideResponse> {
     const tweetId = this.resolveId(targetTweet);
     if (!tweetId) throw new CustomError('TWEET_RESOLVE_ID', `${isHidden ? 'hide' : 'unhide'}`);
     const body: PutTweetReplyHideUnhideJSONBody = {
       hidden: isHidden,
     };
-    const requestData = new RequestData({ body, isUserContext: true });
+    const requestData = new RequestData({ body, isUserContext: true, signal: options?.signal });
     const data: PutTweetReplyHideUnhideResponse = await this.client._api.tweets(tweetId).hidden.put(requestData);
     return new TweetReplyHideUnhideResponse(data);
   }
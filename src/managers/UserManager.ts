@@ -27,6 +27,7 @@ import type {
   ComposedTweetsBookOptions,
   FetchMentionsOptions,
   MentionsBookOptions,
+  RequestOptions,
 } from '../typings';
 import type {
   DeleteUsersBlockingResponse,
@@ -139,9 +140,10 @@ export class UserManager extends BaseManager<Snowflake, UserResolvable, User> {
   /**
    * Follows a user on twitter.
    * @param targetUser The user to follow
+   * @param options The options for the request
    * @returns A {@link UserFollowResponse} object
    */
-  async follow(targetUser: UserResolvable): Promise<UserFollowResponse> {
+  async follow(targetUser: UserResolvable, options?: RequestOptions): Promise<UserFollowResponse> {
     const userId = this.resolveId(targetUser);
     if (!userId) throw new CustomError('USER_RESOLVE_ID', 'follow');
     const loggedInUser = this.client.me;
@@ -149,7 +151,7 @@ export class UserManager extends BaseManager<Snowflake, UserResolvable, User> {
     const body: PostUsersFollowingJSONBody = {
       target_user_id: userId,
     };
-    const requestData = new RequestData({ body, isUserContext: true });
+    const requestData = new RequestData({ body, isUserContext: true, signal: options?.signal });
     const data: PostUsersFollowingResponse = await this.client._api.users(loggedInUser.id).following.post(requestData);
     return new UserFollowResponse(data);
   }
@@ -157,14 +159,15 @@ export class UserManager extends BaseManager<Snowflake, UserResolvable, User> {
   /**
    * Unfollows a user on twitter.
    * @param targetUser The user to unfollow
+   * @param options The options for the request
    * @returns A {@link UserUnfollowResponse} object
    */
-  async unfollow(targetUser: UserResolvable): Promise<UserUnfollowResponse> {
+  async unfollow(targetUser: UserResolvable, options?: RequestOptions): Promise<UserUnfollowResponse> {
     const userId = this.resolveId(targetUser);
     if (!userId) throw new CustomError('USER_RESOLVE_ID', 'unfollow');
     const loggedInUserId = this.client.me?.id;
     if (!loggedInUserId) throw new CustomError('NO_LOGGED_IN_USER');
-    const requestData = new RequestData({ isUserContext: true });
+    const requestData = new RequestData({ isUserContext: true, signal: options?.signal });
     const data: DeleteUsersFollowingResponse = await this.client._api
       .users(loggedInUserId)
       .following(userId)
@@ -175,9 +178,10 @@ export class UserManager extends BaseManager<Snowflake, UserResolvable, User> {
   /**
    * Blocks a user on twitter.
    * @param targetUser The user to block
+   * @param options The options for the request
    * @returns A {@link UserBlockResponse} object
    */
-  async block(targetUser: UserResolvable): Promise<UserBlockResponse> {
+  async block(targetUser: UserResolvable, options?: RequestOptions): Promise<UserBlockResponse> {
     const userId = this.resolveId(targetUser);
     if (!userId) throw new CustomError('USER_RESOLVE_ID', 'block');
     const loggedInUserId = this.client.me?.id;
@@ -185,7 +189,7 @@ export class UserManager extends BaseManager<Snowflake, UserResolvable, User> {
     const body: PostUsersBlockingJSONBody = {
       target_user_id: userId,
     };
-    const requestData = new RequestData({ body, isUserContext: true });
+    const requestData = new RequestData({ body, isUserContext: true, signal: options?.signal });
     const data: PostUsersBlockingResponse = await this.client._api.users(loggedInUserId).blocking.post(requestData);
     return new UserBlockResponse(data);
   }
@@ -193,14 +197,15 @@ export class UserManager extends BaseManager<Snowflake, UserResolvable, User> {
   /**
    * Unblocks a user on twitter.
    * @param targetUser The user to unblock
+   * @param options The options for the request
    * @returns A {@link UserUnblockResponse} object
    */
-  async unblock(targetUser: UserResolvable): Promise<UserUnblockResponse> {
+  async unblock(targetUser: UserResolvable, options?: RequestOptions): Promise<UserUnblockResponse> {
     const userId = this.resolveId(targetUser);
     if (!userId) throw new CustomError('USER_RESOLVE_ID', 'unblock');
     const loggedInUserId = this.client.me?.id;
     if (!loggedInUserId) throw new CustomError('NO_LOGGED_IN_USER');
-    const requestData = new RequestData({ isUserContext: true });
+    const requestData = new RequestData({ isUserContext: true, signal: options?.signal });
     const data: DeleteUsersBlockingResponse = await this.client._api
       .users(loggedInUserId)
       .blocking(userId)
@@ -211,9 +216,10 @@ export class UserManager extends BaseManager<Snowflake, UserResolvable, User> {
   /**
    * Mutes a user on twitter.
    * @param targetUser The user to mute
+   * @param options The options for the request
    * @returns A {@link UserMuteResponse} object
    */
-  async mute(targetUser: UserResolvable): Promise<UserMuteResponse> {
+  async mute(targetUser: UserResolvable, options?: RequestOptions): Promise<UserMuteResponse> {
     const userId = this.resolveId(targetUser);
     if (!userId) throw new CustomError('USER_RESOLVE_ID', 'mute');
     const loggedInUserId = this.client.me?.id;
@@ -221,7 +227,7 @@ export class UserManager extends BaseManager<Snowflake, UserResolvable, User> {
     const body: PostUsersMutingJSONBody = {
       target_user_id: userId,
     };
-    const requestData = new RequestData({ body, isUserContext: true });
+    const requestData = new RequestData({ body, isUserContext: true, signal: options?.signal });
     const data: PostUsersMutingResponse = await this.client._api.users(loggedInUserId).muting.post(requestData);
     return new UserMuteResponse(data);
   }
@@ -229,14 +235,15 @@ export class UserManager extends BaseManager<Snowflake, UserResolvable, User> {
   /**
    * Unmutes a user on twitter.
    * @param targetUser The user to unmute
+   * @param options The options for the request
    * @returns A {@link UserUnmuteResponse} object
    */
-  async unmute(targetUser: UserResolvable): Promise<UserUnmuteResponse> {
+  async unmute(targetUser: UserResolvable, options?: RequestOptions): Promise<UserUnmuteResponse> {
     const userId = this.resolveId(targetUser);
     if (!userId) throw new CustomError('USER_RESOLVE_ID', 'unmute');
     const loggedInUserId = this.client.me?.id;
     if (!loggedInUserId) throw new CustomError('NO_LOGGED_IN_USER');
-    const requestData = new RequestData({ isUserContext: true });
+    const requestData = new RequestData({ isUserContext: true, signal: options?.signal });
     const data: DeleteUsersMutingResponse = await this.client._api
       .users(loggedInUserId)
       .muting(userId)
@@ -248,16 +255,18 @@ export class UserManager extends BaseManager<Snowflake, UserResolvable, User> {
    * Fetches followers of a given user.
    * @param targetUser The user whose followers are to be fetched
    * @param maxResultsPerPage The maximum amount of users to fetch per page. The API will default this to `100` if not provided
+   * @param options The options for the request
    * @returns A tuple containing {@link FollowersBook} object and a {@link Collection} of {@link User} objects representing the first page
    */
   async fetchFollowers(
     targetUser: UserResolvable,
     maxResultsPerPage?: number,
+    options?: RequestOptions,
   ): Promise<[FollowersBook, Collection<Snowflake, User>]> {
     const userId = this.resolveId(targetUser);
     if (!userId) throw new CustomError('USER_RESOLVE_ID', 'create followers book for');
     const followersBook = new FollowersBook(this.client, { userId, maxResultsPerPage });
-    const firstPage = await followersBook.fetchNextPage();
+    const firstPage = await followersBook.fetchNextPage({ signal: options?.signal });
     return [followersBook, firstPage];
   }
 
@@ -265,16 +274,18 @@ export class UserManager extends BaseManager<Snowflake, UserResolvable, User> {
    * Fetches users followed by a given user.
    * @param targetUser The user whose followings are to be fetched
    * @param maxResultsPerPage The maximum amount of users to fetch per page. The API will default this to `100` if not provided
+   * @param options The options for the request
    * @returns A tuple containing {@link FollowingsBook} object and a {@link Collection} of {@link User} objects representing the first page
    */
   async fetchFollowings(
     targetUser: UserResolvable,
     maxResultsPerPage?: number,
+    options?: RequestOptions,
   ): Promise<[FollowingsBook, Collection<Snowflake, User>]> {
     const userId = this.resolveId(targetUser);
     if (!userId) throw new CustomError('USER_RESOLVE_ID', 'create following book for');
     const followingBook = new FollowingsBook(this.client, { userId, maxResultsPerPage });
-    const firstPage = await followingBook.fetchNextPage();
+    const firstPage = await followingBook.fetchNextPage({ signal: options?.signal });
     return [followingBook, firstPage];
   }
 
@@ -282,16 +293,18 @@ export class UserManager extends BaseManager<Snowflake, UserResolvable, User> {
    * Fetches tweets liked by a given user.
    * @param targetUser The user whose liked tweet are to be fetched
    * @param maxResultsPerPage The maximum amount of tweets to fetch per page
+   * @param options The options for the request
    * @returns A tuple containing {@link LikedTweetsBook} object and a {@link Collection} of {@link Tweet} objects representing the first page
    */
   async fetchLikedTweets(
     targetUser: UserResolvable,
     maxResultsPerPage?: number,
+    options?: RequestOptions,
   ): Promise<[LikedTweetsBook, Collection<Snowflake, Tweet>]> {
     const userId = this.resolveId(targetUser);
     if (!userId) throw new CustomError('USER_RESOLVE_ID', 'create liked book for');
     const likedTweetBook = new LikedTweetsBook(this.client, { userId, maxResultsPerPage });
-    const firstPage = await likedTweetBook.fetchNextPage();
+    const firstPage = await likedTweetBook.fetchNextPage({ signal: options?.signal });
     return [likedTweetBook, firstPage];
   }
 
@@ -331,7 +344,7 @@ export class UserManager extends BaseManager<Snowflake, UserResolvable, User> {
       bookData.maxResultsPerPage = options.maxResultsPerPage;
     }
     const composedTweetsBook = new ComposedTweetsBook(this.client, bookData);
-    const firstPage = await composedTweetsBook.fetchNextPage();
+    const firstPage = await composedTweetsBook.fetchNextPage({ signal: options?.signal });
     return [composedTweetsBook, firstPage];
   }
 
@@ -368,7 +381,7 @@ export class UserManager extends BaseManager<Snowflake, UserResolvable, User> {
       bookData.maxResultsPerPage = options.maxResultsPerPage;
     }
     const mentionsBook = new MentionsBook(this.client, bookData);
-    const firstPage = await mentionsBook.fetchNextPage();
+    const firstPage = await mentionsBook.fetchNextPage({ signal: options?.signal });
     return [mentionsBook, firstPage];
   }
 
@@ -385,7 +398,7 @@ export class UserManager extends BaseManager<Snowflake, UserResolvable, User> {
       'tweet.fields': queryParameters?.tweetFields,
       'user.fields': queryParameters?.userFields,
     };
-    const requestData = new RequestData({ query });
+    const requestData = new RequestData({ query, signal: options.signal });
     const data: GetSingleUserByIdResponse = await this.client._api.users(userId).get(requestData);
     return new User(this.client, data);
   }
@@ -399,7 +412,7 @@ export class UserManager extends BaseManager<Snowflake, UserResolvable, User> {
       'tweet.fields': queryParameters?.tweetFields,
       'user.fields': queryParameters?.userFields,
     };
-    const requestData = new RequestData({ query });
+    const requestData = new RequestData({ query, signal: options.signal });
     const data: GetMultipleUsersByIdsResponse = await this.client._api.users.get(requestData);
     const rawUsers = data.data;
     const rawUsersIncludes = data.includes;
@@ -421,7 +434,7 @@ export class UserManager extends BaseManager<Snowflake, UserResolvable, User> {
       'tweet.fields': queryParameters?.tweetFields,
       'user.fields': queryParameters?.userFields,
     };
-    const requestData = new RequestData({ query });
+    const requestData = new RequestData({ query, signal: options.signal });
     const data: GetSingleUserByUsernameResponse = await this.client._api.users.by.username(username).get(requestData);
     return new User(this.client, data);
   }
@@ -438,7 +451,7 @@ export class UserManager extends BaseManager<Snowflake, UserResolvable, User> {
       'tweet.fields': queryParameters?.tweetFields,
       'user.fields': queryParameters?.userFields,
     };
-    const requestData = new RequestData({ query });
+    const requestData = new RequestData({ query, signal: options.signal });
     const data: GetMultipleUsersByUsernamesResponse = await this.client._api.users.by.get(requestData);
     const rawUsers = data.data;
     const rawUsersIncludes = data.includes;
@@ -0,0 +1,64 @@
+import { withMockServer } from '../../__tests__/mockServer';
+import type { RequestListener } from 'http';
+
+test('send direct messages and page through the events of a conversation', async () => {
+  const requests: Array<{ method?: string; url?: string; body: string }> = [];
+  const handler: RequestListener = (req, res) => {
+    const chunks: Array<Buffer> = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      requests.push({ method: req.method, url: req.url, body: Buffer.concat(chunks).toString() });
+      res.setHeader('content-type', 'application/json');
+      if (req.url?.startsWith('/2/users/by/username')) {
+        res.end(JSON.stringify({ data: { id: '1', name: 'user', username: 'user' } }));
+      } else if (req.method === 'POST') {
+        res.end(JSON.stringify({ data: { dm_conversation_id: '1-2', dm_event_id: '10' } }));
+      } else if (req.url?.includes('pagination_token')) {
+        res.end(JSON.stringify({ meta: { result_count: 0 } }));
+      } else {
+        res.end(
+          JSON.stringify({
+            data: [{ id: '11', event_type: 'MessageCreate', text: 'hi', dm_conversation_id: '1-2', sender_id: '2' }],
+            includes: { users: [{ id: '2', name: 'friend', username: 'friend' }] },
+            meta: { result_count: 1, next_token: 'next' },
+          }),
+        );
+      }
+    });
+  };
+  await withMockServer(handler, async ({ client }) => {
+    await client.login({
+      consumerKey: 'key',
+      consumerSecret: 'secret',
+      accessToken: 'token',
+      accessTokenSecret: 'token-secret',
+      bearerToken: 'bearer-token',
+      username: 'user',
+    });
+    const sent = await client.directMessages.send('2', 'hello');
+    expect(sent).toEqual({ conversationId: '1-2', eventId: '10' });
+    expect(requests[1]).toMatchObject({ method: 'POST', url: '/2/dm_conversations/with/2/messages' });
+    expect(JSON.parse(requests[1].body)).toEqual({ text: 'hello' });
+
+    await client.directMessages.createConversation(['2', '3'], 'welcome');
+    expect(JSON.parse(requests[2].body)).toEqual({
+      conversation_type: 'Group',
+      participant_ids: ['2', '3'],
+      message: { text: 'welcome' },
+    });
+
+    const [book, firstPage] = await client.directMessages.fetchEvents({ conversation: '1-2', maxResultsPerPage: 50 });
+    expect(requests[3].url).toMatch(/^\/2\/dm_conversations\/1-2\/dm_events\?.*max_results=50/);
+    const event = firstPage.get('11');
+    expect(event).toMatchObject({ type: 'MessageCreate', text: 'hi', senderId: '2' });
+    expect(event?.sender?.username).toBe('friend');
+    expect(event?.conversation?.id).toBe('1-2');
+    expect(book.hasMore).toBe(true);
+    expect((await book.fetchNextPage()).size).toBe(0);
+    expect(book.hasMore).toBe(false);
+
+    expect(client.directMessages.createDeepLink('2', 'Hi there')).toBe(
+      'https://twitter.com/messages/compose?recipient_id=2&text=Hi+there',
+    );
+  });
+});
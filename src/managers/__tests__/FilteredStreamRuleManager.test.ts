@@ -0,0 +1,148 @@
+import { withMockServer } from '../../__tests__/mockServer';
+import { Client } from '../../client';
+import { QueryBuilder } from '../../util';
+import type { RequestListener } from 'http';
+
+test('reject rules that fail linting before sending them', async () => {
+  const client = new Client({ events: [] });
+  await expect(
+    client.filteredStreamRules.create([{ value: 'cats' }, { value: 'cats OR' }], { lint: true }),
+  ).rejects.toThrow('The rule `cats OR` was rejected by the linter: `OR` at position 5');
+});
+
+const existingRules = [
+  { id: '1', value: 'cats', tag: 'pets' },
+  { id: '2', value: 'dogs' },
+  { id: '3', value: 'birds', tag: 'old' },
+];
+
+// Answers like the rules endpoint, rejecting the rules with the value `bad`, the ones duplicating an existing rule,
+// and the rules with the value `overflow` once they are actually added as if the rule limit was reached
+const createRulesHandler = (requests: Array<{ url?: string; body: string }>): RequestListener => {
+  let nextRuleId = 10;
+  return (req, res) => {
+    const chunks: Array<Buffer> = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks).toString();
+      requests.push({ url: req.url, body });
+      res.setHeader('content-type', 'application/json');
+      if (req.method === 'GET') return res.end(JSON.stringify({ data: existingRules, meta: { sent: '' } }));
+      const dryRun = req.url?.includes('dry_run=true');
+      const { add, delete: remove } = JSON.parse(body);
+      if (remove) {
+        const summary = { deleted: remove.ids.length, not_deleted: 0 };
+        return res.end(JSON.stringify({ meta: { sent: '', summary } }));
+      }
+      const data = [];
+      const errors = [];
+      for (const rule of add as Array<{ value: string; tag?: string }>) {
+        const duplicate = dryRun && existingRules.find(existingRule => existingRule.value === rule.value);
+        if (rule.value === 'bad') {
+          const details = ["Reference to invalid operator 'bad'."];
+          errors.push({ value: rule.value, details, title: 'UnprocessableEntity', type: 'invalid-rules' });
+        } else if (rule.value === 'overflow' && !dryRun) {
+          const details = ['Rule cap reached.'];
+          errors.push({ value: rule.value, details, title: 'RulesCapExceeded', type: 'rule-cap' });
+        } else if (duplicate) {
+          errors.push({ value: rule.value, id: duplicate.id, title: 'DuplicateRule', type: 'duplicate-rules' });
+        } else {
+          data.push({ id: `${nextRuleId++}`, ...rule });
+        }
+      }
+      const invalid = errors.filter(error => error.title !== 'DuplicateRule').length;
+      const summary = {
+        created: dryRun ? 0 : data.length,
+        not_created: add.length - (dryRun ? 0 : data.length),
+        valid: add.length - invalid,
+        invalid,
+      };
+      const response = { data: dryRun || !data.length ? undefined : data, errors: errors.length ? errors : undefined };
+      res.end(JSON.stringify({ ...response, meta: { sent: '', summary } }));
+    });
+  };
+};
+
+test('sync rules by deleting the undesired ones and adding the missing ones in batches', async () => {
+  const requests: Array<{ url?: string; body: string }> = [];
+  const desiredRules = [
+    { value: 'cats', tag: 'pets' },
+    { value: 'birds', tag: 'new' },
+    { value: new QueryBuilder().from('TwitterDev') },
+  ];
+  await withMockServer(createRulesHandler(requests), async ({ client }) => {
+    await client.loginWithBearerToken('bearer-token');
+    const dryRunReport = await client.filteredStreamRules.sync(desiredRules, { dryRun: true, batchSize: 1 });
+    expect(requests.slice(1).every(request => request.url?.endsWith('?dry_run=true'))).toBe(true);
+    expect(dryRunReport).toMatchObject({ dryRun: true, applied: false, errors: [] });
+    expect(dryRunReport.created.size).toBe(0);
+    expect(client.filteredStreamRules.cache.has('2')).toBe(true);
+
+    requests.length = 0;
+    const report = await client.filteredStreamRules.sync(desiredRules, { batchSize: 1 });
+    const appliedRequests = requests.filter(request => request.body && !request.url?.includes('dry_run=true'));
+    expect(requests.findIndex(request => request === appliedRequests[0])).toBe(5);
+    expect(appliedRequests.map(request => request.body)).toEqual([
+      JSON.stringify({ delete: { ids: ['3'] } }),
+      JSON.stringify({ add: [{ value: 'birds', tag: 'new' }] }),
+      JSON.stringify({ add: [{ value: 'from:TwitterDev' }] }),
+      JSON.stringify({ delete: { ids: ['2'] } }),
+    ]);
+    expect(report).toMatchObject({ dryRun: false, applied: true, errors: [] });
+    expect(report.added).toEqual([{ value: 'birds', tag: 'new' }, { value: 'from:TwitterDev' }]);
+    expect([...report.deleted.keys()]).toEqual(['2', '3']);
+    expect([...report.unchanged.keys()]).toEqual(['1']);
+    expect(report.created.map(rule => rule.value)).toEqual(['birds', 'from:TwitterDev']);
+    expect(report.summary).toEqual({ created: 2, notCreated: 0, valid: 2, invalid: 0, deleted: 2, notDeleted: 0 });
+    expect(client.filteredStreamRules.cache.has('2')).toBe(false);
+  });
+});
+
+test('leave the rules untouched and report the desired rules that Twitter rejects', async () => {
+  const requests: Array<{ url?: string; body: string }> = [];
+  const desiredRules = [{ value: 'cats', tag: 'pets' }, { value: 'fish' }, { value: 'bad' }];
+  await withMockServer(createRulesHandler(requests), async ({ client }) => {
+    await client.loginWithBearerToken('bearer-token');
+    const dryRunReport = await client.filteredStreamRules.sync(desiredRules, { dryRun: true });
+    expect(dryRunReport.summary).toMatchObject({ valid: 1, invalid: 1, deleted: 2 });
+    expect(dryRunReport.errors).toEqual([
+      {
+        operation: 'add',
+        value: 'bad',
+        id: null,
+        title: 'UnprocessableEntity',
+        type: 'invalid-rules',
+        details: ["Reference to invalid operator 'bad'."],
+      },
+    ]);
+
+    requests.length = 0;
+    const report = await client.filteredStreamRules.sync(desiredRules);
+    expect(report.applied).toBe(false);
+    expect(report.errors).toHaveLength(1);
+    expect(report.created.size).toBe(0);
+    expect(requests.slice(1).every(request => request.url?.endsWith('?dry_run=true'))).toBe(true);
+    expect(client.filteredStreamRules.cache.has('2')).toBe(true);
+  });
+});
+
+test('keep the stale rules when adding the desired rules fails', async () => {
+  const requests: Array<{ url?: string; body: string }> = [];
+  const desiredRules = [{ value: 'cats', tag: 'pets' }, { value: 'birds' }, { value: 'overflow' }];
+  await withMockServer(createRulesHandler(requests), async ({ client }) => {
+    await client.loginWithBearerToken('bearer-token');
+    const report = await client.filteredStreamRules.sync(desiredRules);
+    const appliedRequests = requests.filter(request => request.body && !request.url?.includes('dry_run=true'));
+    expect(appliedRequests.map(request => request.body)).toEqual([
+      JSON.stringify({ delete: { ids: ['3'] } }),
+      JSON.stringify({ add: [{ value: 'birds' }, { value: 'overflow' }] }),
+    ]);
+    expect(report.applied).toBe(false);
+    expect(report.errors).toMatchObject([{ operation: 'add', value: 'overflow', title: 'RulesCapExceeded' }]);
+    expect(report.created.map(rule => rule.value)).toEqual(['birds']);
+    expect(client.filteredStreamRules.cache.has('2')).toBe(true);
+    await expect(client.filteredStreamRules.create({ value: 'bad' })).rejects.toThrow(
+      "The rule `bad` was rejected by Twitter: UnprocessableEntity, Reference to invalid operator 'bad'.",
+    );
+  });
+});
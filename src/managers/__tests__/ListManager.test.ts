@@ -0,0 +1,40 @@
+import { withMockServer } from '../../__tests__/mockServer';
+import type { RequestListener } from 'http';
+
+const rawList = {
+  id: '100',
+  name: 'Reading',
+  private: false,
+  owner_id: '1',
+  member_count: 5,
+  follower_count: 2,
+  created_at: '2021-11-16T08:48:10.000Z',
+};
+
+test('fetch a list along with its owner and page through the lists of a user', async () => {
+  const urls: Array<string | undefined> = [];
+  const handler: RequestListener = (req, res) => {
+    urls.push(req.url);
+    res.setHeader('content-type', 'application/json');
+    const includes = { users: [{ id: '1', name: 'owner', username: 'owner' }] };
+    if (req.url?.startsWith('/2/lists/100?')) {
+      res.end(JSON.stringify({ data: rawList, includes }));
+    } else {
+      res.end(JSON.stringify({ data: [rawList], includes, meta: { result_count: 1, next_token: 'next' } }));
+    }
+  };
+  await withMockServer(handler, async ({ client }) => {
+    await client.loginWithBearerToken('bearer-token');
+    const list = await client.lists.fetch({ list: '100' });
+    expect(urls[0]).toContain('list.fields=created_at,description,follower_count,member_count,owner_id,private');
+    expect(list).toMatchObject({ name: 'Reading', ownerId: '1', memberCount: 5, followerCount: 2 });
+    expect(list.owner?.username).toBe('owner');
+    expect(list.createdAt?.toISOString()).toBe(rawList.created_at);
+    expect(await client.lists.fetch({ list: '100' })).toBe(list);
+
+    const [book, firstPage] = await client.lists.fetchOwned('1', { maxResultsPerPage: 10 });
+    expect(urls[1]).toMatch(/^\/2\/users\/1\/owned_lists\?.*max_results=10/);
+    expect(firstPage.get('100')?.name).toBe('Reading');
+    expect(book.hasMore).toBe(true);
+  });
+});
@@ -0,0 +1,66 @@
+import { withMockServer } from '../../__tests__/mockServer';
+import type { RequestListener } from 'http';
+
+const png = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+const mp4 = Buffer.concat([Buffer.from('00000018667479706d703432', 'hex'), Buffer.alloc(64)]);
+
+test('upload images in one request and videos in chunks before attaching them to a tweet', async () => {
+  const requests: Array<{ method?: string; url?: string; body: string }> = [];
+  const handler: RequestListener = (req, res) => {
+    const chunks: Array<Buffer> = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks).toString('latin1');
+      requests.push({ method: req.method, url: req.url, body });
+      const command = new URL(req.url ?? '', 'http://localhost').searchParams.get('command');
+      res.setHeader('content-type', 'application/json');
+      if (req.url?.startsWith('/2/users/by/username')) {
+        res.end(JSON.stringify({ data: { id: '1', name: 'user', username: 'user' } }));
+      } else if (req.url?.startsWith('/2/tweets')) {
+        res.end(JSON.stringify({ data: { id: '2', text: 'hello' } }));
+      } else if (command === 'INIT') {
+        res.end(JSON.stringify({ media_id_string: '20' }));
+      } else if (command === 'APPEND' || req.url?.startsWith('/upload/1.1/media/metadata')) {
+        res.removeHeader('content-type');
+        res.statusCode = 204;
+        res.end();
+      } else if (command === 'FINALIZE') {
+        res.end(JSON.stringify({ media_id_string: '20', processing_info: { state: 'pending', check_after_secs: 0 } }));
+      } else if (command === 'STATUS') {
+        res.end(JSON.stringify({ media_id_string: '20', processing_info: { state: 'succeeded' } }));
+      } else {
+        res.end(JSON.stringify({ media_id_string: '10', media_key: '3_10' }));
+      }
+    });
+  };
+  await withMockServer(handler, async ({ baseURL, client }) => {
+    // The upload host is kept apart from the API one to check which of them each request is sent to
+    client.options.api = { ...client.options.api, uploadURL: `${baseURL}/upload/1.1` };
+    await client.login({
+      consumerKey: 'key',
+      consumerSecret: 'secret',
+      accessToken: 'token',
+      accessTokenSecret: 'token-secret',
+      bearerToken: 'bearer-token',
+      username: 'user',
+    });
+    const image = await client.media.upload(png, { altText: 'A blank image' });
+    expect(image).toMatchObject({ id: '3_10', mediaId: '10', type: 'photo' });
+    expect(requests[1]).toMatchObject({
+      method: 'POST',
+      url: '/upload/1.1/media/upload.json?media_category=tweet_image',
+    });
+    expect(requests[1].body).toContain('PNG');
+    expect(requests[2]).toMatchObject({ url: '/upload/1.1/media/metadata/create.json' });
+    expect(JSON.parse(requests[2].body)).toEqual({ media_id: '10', alt_text: { text: 'A blank image' } });
+
+    requests.length = 0;
+    await client.tweets.create({ text: 'hello', media: { attachments: [image, mp4] } });
+    const commands = requests.map(request => request.url?.match(/command=(\w+)/)?.[1]);
+    expect(commands).toEqual(['INIT', 'APPEND', 'FINALIZE', 'STATUS', undefined]);
+    expect(requests[0].url).toContain('media_type=video/mp4');
+    expect(requests[3].method).toBe('GET');
+    expect(JSON.parse(requests[4].body).media).toEqual({ media_ids: ['10', '20'] });
+    expect(client.media.cache.get('7_20')?.type).toBe('video');
+  });
+});
@@ -0,0 +1,127 @@
+import { withMockServer } from '../../__tests__/mockServer';
+import { BookmarksBook } from '../../books';
+import { Client, OAuth2Helper } from '../../client';
+import type { RequestListener } from 'http';
+
+const reply = (id: string, repliedTo: string) => ({
+  id,
+  text: `reply ${id}`,
+  conversation_id: '1',
+  referenced_tweets: [{ type: 'replied_to', id: repliedTo }],
+});
+
+test('page through quote tweets and rebuild a conversation around a missing tweet', async () => {
+  const urls: Array<string | undefined> = [];
+  const handler: RequestListener = (req, res) => {
+    urls.push(req.url);
+    res.setHeader('content-type', 'application/json');
+    if (req.url?.startsWith('/2/tweets/1/quote_tweets')) {
+      const data = [{ id: '9', text: 'quote', referenced_tweets: [{ type: 'quoted', id: '1' }] }];
+      res.end(JSON.stringify({ data, meta: { result_count: 1, next_token: 'next' } }));
+    } else if (req.url?.startsWith('/2/tweets/5?')) {
+      res.end(JSON.stringify({ data: reply('5', '3') }));
+    } else if (req.url?.startsWith('/2/tweets/search/recent') && !req.url.includes('next_token')) {
+      const data = [reply('6', '5'), reply('4', '2')];
+      res.end(JSON.stringify({ data, meta: { result_count: 2, next_token: 'next' } }));
+    } else if (req.url?.startsWith('/2/tweets/search/recent')) {
+      res.end(JSON.stringify({ data: [reply('2', '1')], meta: { result_count: 1 } }));
+    } else {
+      res.end(JSON.stringify({ data: [{ id: '1', text: 'root', conversation_id: '1' }] }));
+    }
+  };
+  await withMockServer(handler, async ({ client }) => {
+    await client.loginWithBearerToken('bearer-token');
+    const [book, firstPage] = await client.tweets.fetchQuoteTweets('1', {
+      exclude: ['retweets'],
+      maxResultsPerPage: 10,
+    });
+    expect(urls[0]).toMatch(/^\/2\/tweets\/1\/quote_tweets\?.*exclude=retweets.*max_results=10/);
+    expect(firstPage.get('9')?.text).toBe('quote');
+    expect(book.hasMore).toBe(true);
+
+    const thread = await client.tweets.fetchConversation('5');
+    expect(urls[2]).toContain('query=conversation_id:1');
+    expect(urls[4]).toMatch(/^\/2\/tweets\?ids=1/);
+    expect(thread.root.tweet?.text).toBe('root');
+    expect(thread.size).toBe(5);
+    expect([...thread.depthFirst()].map(node => node.id)).toEqual(['1', '2', '4', '3', '5', '6']);
+    expect([...thread.breadthFirst()].map(node => node.id)).toEqual(['1', '2', '3', '4', '5', '6']);
+    const missingNode = thread.get('3');
+    expect(missingNode?.missing).toBe(true);
+    expect(missingNode?.parent).toBe(thread.root);
+    expect(thread.get('6')?.depth).toBe(3);
+  });
+});
+
+test('search and count tweets in the full archive one request per second', async () => {
+  const requests: Array<{ url?: string; time: number }> = [];
+  const handler: RequestListener = (req, res) => {
+    requests.push({ url: req.url, time: Date.now() });
+    res.setHeader('content-type', 'application/json');
+    if (req.url?.startsWith('/2/tweets/counts/all')) {
+      const data = [{ start: '2021-01-01T00:00:00.000Z', end: '2021-01-02T00:00:00.000Z', tweet_count: 3 }];
+      res.end(JSON.stringify({ data, meta: { total_tweet_count: 3 } }));
+    } else {
+      const meta = req.url?.includes('next_token') ? { result_count: 0 } : { result_count: 0, next_token: 'next' };
+      res.end(JSON.stringify({ meta }));
+    }
+  };
+  await withMockServer(handler, async ({ client }) => {
+    await client.loginWithBearerToken('bearer-token');
+    const [book] = await client.tweets.search('from:twitterdev', { archive: true, maxResultsPerPage: 1000 });
+    expect(requests[0].url).toMatch(/^\/2\/tweets\/search\/all\?.*max_results=500/);
+    await book.fetchNextPage();
+    expect(requests[1].url).toContain('next_token=next');
+    expect(requests[1].time - requests[0].time).toBeGreaterThanOrEqual(900);
+
+    const [, buckets] = await client.tweets.count('from:twitterdev', { fullArchive: true, granularity: 'day' });
+    expect(requests[2].url).toMatch(/^\/2\/tweets\/counts\/all\?/);
+    expect(buckets[0].count).toBe(3);
+  });
+});
+
+test('bookmark tweets and page through the bookmarks with an OAuth 2.0 user token', async () => {
+  const requests: Array<{ method?: string; url?: string; authorization?: string }> = [];
+  const handler: RequestListener = (req, res) => {
+    requests.push({ method: req.method, url: req.url, authorization: req.headers.authorization });
+    res.setHeader('content-type', 'application/json');
+    if (req.url?.startsWith('/2/users/me')) {
+      res.end(JSON.stringify({ data: { id: '1', name: 'user', username: 'user' } }));
+    } else if (req.method !== 'GET') {
+      res.end(JSON.stringify({ data: { bookmarked: req.method === 'POST' } }));
+    } else if (req.url?.includes('pagination_token')) {
+      res.end(JSON.stringify({ meta: { result_count: 0 } }));
+    } else {
+      res.end(JSON.stringify({ data: [{ id: '5', text: 'saved' }], meta: { result_count: 1, next_token: 'next' } }));
+    }
+  };
+  await withMockServer(handler, async ({ client }) => {
+    const helper = new OAuth2Helper({ clientId: 'client-id', redirectURI: 'http://127.0.0.1/callback' });
+    helper.token = {
+      accessToken: 'access-token',
+      refreshToken: null,
+      expiresAt: new Date(Date.now() + 3600000),
+      scopes: ['tweet.read', 'users.read', 'bookmark.read', 'bookmark.write'],
+    };
+    const me = await client.loginWithOAuth2(helper);
+    await expect(client.tweets.bookmark('5')).resolves.toMatchObject({ bookmarked: true });
+    expect(requests[1]).toMatchObject({ method: 'POST', url: '/2/users/1/bookmarks' });
+    await expect(client.tweets.unbookmark('5')).resolves.toMatchObject({ bookmarked: false });
+    expect(requests[2]).toMatchObject({ method: 'DELETE', url: '/2/users/1/bookmarks/5' });
+
+    const [book, firstPage] = await me.fetchBookmarks({ maxResultsPerPage: 10 });
+    expect(requests[3].url).toMatch(/^\/2\/users\/1\/bookmarks\?.*max_results=10/);
+    expect(firstPage.get('5')?.text).toBe('saved');
+    expect(book.hasMore).toBe(true);
+    expect((await book.fetchNextPage()).size).toBe(0);
+    expect(book.hasMore).toBe(false);
+    expect(requests.every(request => request.authorization === 'Bearer access-token')).toBe(true);
+  });
+});
+
+test('refuse to use the bookmarks endpoints without an OAuth 2.0 user token', async () => {
+  const book = new BookmarksBook(new Client({ events: [] }), { userId: '1' });
+  await expect(book.fetchNextPage()).rejects.toThrow(
+    'Could not fetch the bookmarked tweets as it requires an OAuth 2.0 user token',
+  );
+});
@@ -1,6 +1,8 @@
 export * from './BaseManager';
+export * from './DirectMessageManager';
 export * from './FilteredStreamRuleManager';
 export * from './ListManager';
+export * from './MediaManager';
 export * from './SpaceManager';
 export * from './TweetManager';
 export * from './UserManager';
@@ -1,9 +1,9 @@
-import { fetch } from 'undici';
+import { fetch, FormData } from 'undici';
 import type { Client } from '../client';
 import type { RESTManager } from './RESTManager';
 import type { RequestData } from '../structures';
-import type { Response, HeadersInit, BodyInit } from 'undici';
-import type { ExtendedRequestData } from '../typings';
+import type { Response } from 'undici';
+import type { AuthRequest, ExtendedRequestData } from '../typings';
 
 export class APIRequest {
   rest: RESTManager;
@@ -34,26 +34,30 @@ export class APIRequest {
     }
   }
 
-  async make(): Promise<Response> {
-    const baseURL = `${this.client.options.api?.baseURL}/${this.client.options.api?.version}`;
+  /**
+   * Makes the request to the API.
+   * @param signal The signal for aborting the request, defaults to the signal passed in the request data
+   */
+  async make(signal: AbortSignal | undefined = this.options.signal): Promise<Response> {
+    const baseURL = this.options.baseURL ?? `${this.client.options.api?.baseURL}/${this.client.options.api?.version}`;
     const url = baseURL + this.path;
 
-    const headers: HeadersInit = {};
-    headers.Authorization = this.options.isUserContext
-      ? this.rest.getUserContextAuth(this.method, url)
-      : this.rest.getBearerAuth();
-
-    let body: BodyInit | undefined;
-    if (this.method !== 'get' && this.options.body) {
-      body = JSON.stringify(this.options.body);
-      headers['Content-Type'] = 'application/json';
+    const authRequest: AuthRequest = { method: this.method, url, headers: {} };
+    if (this.options.body instanceof FormData) {
+      // The boundary of multipart bodies is set in the content type by fetch itself
+      authRequest.body = this.options.body;
+    } else if (this.method !== 'get' && this.options.body) {
+      authRequest.body = JSON.stringify(this.options.body);
+      authRequest.headers['Content-Type'] = 'application/json';
     }
+    await this.rest.resolveAuthProvider(this.options).authorize(authRequest);
 
-    return fetch(url, {
+    return fetch(authRequest.url, {
       method: this.method,
       keepalive: true,
-      headers,
-      body,
+      headers: authRequest.headers,
+      body: authRequest.body,
+      signal,
     });
   }
 }
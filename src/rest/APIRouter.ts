@@ -1,6 +1,37 @@
+import { RouteTemplates } from '../util';
 import type { RESTManager } from './RESTManager';
 import type { RequestData } from '../structures';
 
+/**
+ * The segments of the route templates, sorted so that literal segments take precedence over parameters
+ */
+const routeTemplates = RouteTemplates.map(template => template.split('/')).sort((a, b) => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const isParameterA = a[i].startsWith(':');
+    const isParameterB = b[i].startsWith(':');
+    if (isParameterA !== isParameterB) return isParameterA ? 1 : -1;
+  }
+  return 0;
+});
+
+/**
+ * Normalizes the path of a request to the route of its endpoint, so that all the requests made to an endpoint
+ * share its rate limit bucket regardless of the IDs, usernames and other values in their path.
+ * @param path The path of the request, without the query string
+ * @returns The matching template from {@link RouteTemplates}, or the path with its numeric segments replaced
+ * by `:id` if the endpoint is unknown
+ */
+export function normalizeRoute(path: string): string {
+  const segments = path.split('/');
+  const template = routeTemplates.find(
+    templateSegments =>
+      templateSegments.length === segments.length &&
+      templateSegments.every((segment, i) => segment.startsWith(':') || segment === segments[i]),
+  );
+  if (template) return template.join('/');
+  return segments.map(segment => (/^\d{1,20}$/.test(segment) ? ':id' : segment)).join('/');
+}
+
 /* eslint-disable */
 const noop = () => { };
 const methods = ['get', 'post', 'delete', 'patch', 'put'];
@@ -12,19 +43,9 @@ export function buildRoute(manager: RESTManager): any {
     get(target: any, property: string): any {
       if (reflectors.includes(property)) return () => path.join('/');
       if (methods.includes(property)) {
-        const routeBucket: Array<string> = [];
-        let currentDirectory: string;
-        for (let i = 0; i < path.length; i++) {
-          currentDirectory = path[i];
-          // replace literal ID with ':id' to keep route of an endpoint independent from IDs
-          if (/\d{1,20}/g.test(currentDirectory)) {
-            routeBucket.push(':id');
-          } else {
-            routeBucket.push(currentDirectory);
-          }
-        }
+        const route = normalizeRoute(path.join('/'));
         return (options: RequestData<unknown, unknown>) =>
-          manager.request(property, path.join('/'), Object.assign({ route: routeBucket.join('/') }, options));
+          manager.request(property, path.join('/'), Object.assign({ route }, options));
       }
       path.push(property);
       return new Proxy(noop, handler);
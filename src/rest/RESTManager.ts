@@ -1,13 +1,20 @@
-import crypto from 'crypto';
-import OAuth from 'oauth-1.0a';
-import { Collection } from '../util';
+import { AuthProviderName, Collection, SearchLimits } from '../util';
 import { CustomError } from '../errors';
-import { buildRoute } from './APIRouter';
+import { buildRoute, normalizeRoute } from './APIRouter';
 import { APIRequest } from './APIRequest';
 import { RequestHandler } from './RequestHandler';
+import { RequestPacer } from './RequestPacer';
+import { RequestData } from '../structures';
 import type { Client } from '../client';
 import type { Response } from 'undici';
-import type { ExtendedRequestData } from '../typings';
+import type { AuthProvider, ExtendedRequestData, RateLimitBucketData } from '../typings';
+
+/**
+ * The numbers identifying the auth providers in the keys of the buckets, which are unique across the clients sharing
+ * their request handlers
+ */
+const authProviderIds = new WeakMap<AuthProvider, number>();
+let lastAuthProviderId = 0;
 
 /**
  * Manager class for the rest API
@@ -19,10 +26,17 @@ export class RESTManager {
   client: Client;
 
   /**
-   * The collection of request handlers
+   * The collection of request handlers, one for each rate limit bucket keyed by the method and route of its endpoint,
+   * followed by the auth provider for requests that are not authorized with the bearer token
    */
   requestHandlers: Collection<string, RequestHandler>;
 
+  /**
+   * The collection of request pacers keyed by the method and route of the endpoint whose requests they space out.
+   * Endpoints sharing a limit on how often they can be requested share a pacer
+   */
+  requestPacers: Collection<string, RequestPacer>;
+
   /**
    * @param client The logged in {@link Client} instance
    */
@@ -30,6 +44,10 @@ export class RESTManager {
     Object.defineProperty(this, 'client', { writable: true, enumerable: false });
     this.client = client;
     this.requestHandlers = new Collection();
+    this.requestPacers = new Collection();
+    // The full-archive search and counts endpoints allow one request per second between them
+    const archivePacer = new RequestPacer(SearchLimits.ARCHIVE_REQUEST_INTERVAL);
+    this.requestPacers.set('get /tweets/search/all', archivePacer).set('get /tweets/counts/all', archivePacer);
   }
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -41,40 +59,59 @@ export class RESTManager {
     return this.client.options.api?.baseURL as string;
   }
 
-  getBearerAuth(): string {
+  /**
+   * Resolves the provider to authorize a request with. Unless the request names one, user context requests are
+   * authorized with the OAuth 2.0 token of the client if it has one, or else with its OAuth 1.0a credentials, while
+   * other requests are authorized with its bearer token.
+   * @param requestData The data of the request
+   * @returns The {@link AuthProvider} registered in {@link Client.authProviders} for the request
+   */
+  resolveAuthProvider(requestData: RequestData<unknown, unknown>): AuthProvider {
     const client = this.client;
-    if (!client.token) throw new CustomError('NO_BEARER_TOKEN');
-    return `Bearer ${client.token}`;
+    let name: string = AuthProviderName.BEARER;
+    if (requestData.authProvider) name = requestData.authProvider;
+    else if (requestData.isUserContext) name = client.oauth2 ? AuthProviderName.OAUTH2_USER : AuthProviderName.OAUTH1;
+    const provider = client.authProviders.get(name);
+    if (!provider) throw new CustomError('AUTH_PROVIDER_NOT_FOUND', name);
+    return provider;
   }
 
-  getUserContextAuth(method: string, url: string): string {
-    const client = this.client;
-    const clientCredentials = client.credentials;
-    if (!clientCredentials) throw new CustomError('NO_CLIENT_CREDENTIALS');
-
-    const oauth = new OAuth({
-      consumer: {
-        key: clientCredentials.consumerKey,
-        secret: clientCredentials.consumerSecret,
-      },
-      signature_method: 'HMAC-SHA1',
-      hash_function(base_string, key) {
-        return crypto.createHmac('sha1', key).update(base_string).digest('base64');
-      },
-    });
+  /**
+   * Fetches the state of the rate limit bucket of an endpoint.
+   * @param route The method and path of the endpoint separated by a space, for example `GET /users/:id/following`.
+   * The path can also contain actual values, like `GET /users/1234/following`. The method defaults to `GET`
+   * @returns A {@link RateLimitBucketData} object, or `null` if no request has been made to the endpoint yet
+   */
+  getBucket(route: string): RateLimitBucketData | null {
+    const [method, path] = route.includes(' ') ? route.split(' ', 2) : ['get', route];
+    const bucketRoute = normalizeRoute(path.split('?')[0]);
+    const userContextProvider = this.resolveAuthProvider(new RequestData({ isUserContext: true }));
+    const bearerProvider = this.resolveAuthProvider(new RequestData({}));
+    const handler =
+      this.requestHandlers.get(this.#bucketKey(method.toLowerCase(), bucketRoute, userContextProvider)) ??
+      this.requestHandlers.get(this.#bucketKey(method.toLowerCase(), bucketRoute, bearerProvider));
+    if (!handler) return null;
+    return {
+      route: bucketRoute,
+      method: method.toLowerCase(),
+      limit: handler.limit,
+      remaining: handler.remaining,
+      reset: handler.reset === -1 ? null : new Date(handler.reset),
+      limited: handler.limited,
+      queued: handler.queue.remaining,
+    };
+  }
 
-    return oauth.toHeader(
-      oauth.authorize(
-        {
-          url: url.toString(),
-          method: method,
-        },
-        {
-          key: clientCredentials.accessToken,
-          secret: clientCredentials.accessTokenSecret,
-        },
-      ),
-    ).Authorization;
+  /**
+   * Waits for the turn of a request to an endpoint that limits how often it can be requested.
+   * @param method The HTTP method of the request
+   * @param route The route of the endpoint
+   * @param signal The signal for aborting the wait
+   *
+   * @throws {@link RequestAbortedError} The exception is thrown if the signal is aborted while waiting
+   */
+  async pace(method: string, route: string, signal?: AbortSignal): Promise<void> {
+    await this.requestPacers.get(`${method} ${route}`)?.pace({ method, route }, signal);
   }
 
   async request(
@@ -83,11 +120,29 @@ export class RESTManager {
     options: ExtendedRequestData<unknown, unknown>,
   ): Promise<Record<string, unknown> | ArrayBuffer | Response> {
     const apiRequest = new APIRequest(this, method, path, options);
-    let handler = this.requestHandlers.get(apiRequest.route);
+    const bucket = this.#bucketKey(apiRequest.method, apiRequest.route, this.resolveAuthProvider(options));
+    let handler = this.requestHandlers.get(bucket);
     if (!handler) {
       handler = new RequestHandler(this);
-      this.requestHandlers.set(apiRequest.route, handler);
+      this.requestHandlers.set(bucket, handler);
     }
     return handler.push(apiRequest);
   }
+
+  // #### 🚧 PRIVATE METHODS 🚧 ####
+
+  #bucketKey(method: string, route: string, authProvider: AuthProvider): string {
+    // The rate limits of the API apply per endpoint, so requests to the same route with different methods
+    // are handled separately. User context limits also apply per user, which matters when the handlers are
+    // shared by the clients of a {@link ClientPool}, so those are keyed by the provider authorizing them as the
+    // user may not be fetched yet
+    const bucket = `${method} ${route}`;
+    if (authProvider === this.client.authProviders.get(AuthProviderName.BEARER)) return bucket;
+    let authProviderId = authProviderIds.get(authProvider);
+    if (!authProviderId) {
+      authProviderId = ++lastAuthProviderId;
+      authProviderIds.set(authProvider, authProviderId);
+    }
+    return `${bucket} @${authProviderId}`;
+  }
 }
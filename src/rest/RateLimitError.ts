@@ -0,0 +1,32 @@
+import type { RateLimitData } from '../typings';
+
+/**
+ * The error thrown when a request is rejected because the rate limit of its route has been exhausted
+ * and the client was configured to not wait for it to reset
+ */
+export class RateLimitError extends Error implements RateLimitData {
+  route: string;
+  method: string;
+  limit: number;
+  remaining: number;
+  reset: Date;
+  timeout: number;
+
+  constructor(data: RateLimitData) {
+    super(
+      `The rate limit of ${data.method.toUpperCase()} ${
+        data.route
+      } has been exhausted until ${data.reset.toISOString()}`,
+    );
+    this.route = data.route;
+    this.method = data.method;
+    this.limit = data.limit;
+    this.remaining = data.remaining;
+    this.reset = data.reset;
+    this.timeout = data.timeout;
+  }
+
+  override get name(): string {
+    return `${this.constructor.name} [${this.method.toUpperCase()} ${this.route}]`;
+  }
+}
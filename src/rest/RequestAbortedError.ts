@@ -0,0 +1,37 @@
+import type { APIRequest } from './APIRequest';
+
+/**
+ * The error thrown when a request is aborted, either by the signal passed to it or because it took longer
+ * than {@link RESTOptions.timeout}
+ */
+export class RequestAbortedError extends Error {
+  /**
+   * The route of the aborted request
+   */
+  route: string;
+
+  /**
+   * The HTTP method of the aborted request
+   */
+  method: string;
+
+  /**
+   * Whether the request was aborted because it timed out
+   */
+  timedOut: boolean;
+
+  constructor(request: Pick<APIRequest, 'route' | 'method'>, timedOut: boolean) {
+    super(
+      timedOut
+        ? `The request to ${request.method.toUpperCase()} ${request.route} timed out`
+        : `The request to ${request.method.toUpperCase()} ${request.route} was aborted`,
+    );
+    this.route = request.route;
+    this.method = request.method;
+    this.timedOut = timedOut;
+  }
+
+  override get name(): string {
+    return `${this.constructor.name} [${this.method.toUpperCase()} ${this.route}]`;
+  }
+}
@@ -1,15 +1,29 @@
-import { setTimeout } from 'timers/promises';
+import { setTimeout as wait } from 'timers/promises';
 import { AsyncQueue } from '@sapphire/async-queue';
+import { RateLimitError } from './RateLimitError';
+import { RequestAbortedError } from './RequestAbortedError';
 import { TwitterAPIError } from './TwitterAPIError';
 import { parseResponse, ClientEvents } from '../util';
-import type { Response } from 'undici';
+import type { Headers, Response } from 'undici';
+import type { RateLimitData, RetryData } from '../typings';
 import type { APIRequest } from './APIRequest';
 import type { APIProblem } from 'twitter-types';
 import type { RESTManager } from './RESTManager';
 
+/**
+ * The `EventTarget` methods of `AbortSignal`, which are missing from the Node.js typings used by the library
+ */
+type AbortSignalEventTarget = AbortSignal & {
+  addEventListener(type: 'abort', listener: () => void): void;
+  removeEventListener(type: 'abort', listener: () => void): void;
+};
+
 export class RequestHandler {
   /**
    * The manager of that initiated this class
+   *
+   * **Note**: Handlers are shared by the clients of a {@link ClientPool}, so the options and events of a request
+   * are those of the client that made it rather than of the client of this manager
    */
   manager: RESTManager;
 
@@ -18,52 +32,220 @@ export class RequestHandler {
    */
   queue: AsyncQueue;
 
+  /**
+   * The maximum number of requests allowed in the current rate limit window, `-1` if unknown
+   */
+  limit: number;
+
+  /**
+   * The number of requests remaining in the current rate limit window, `-1` if unknown
+   */
+  remaining: number;
+
+  /**
+   * The timestamp at which the current rate limit window resets, `-1` if unknown
+   */
+  reset: number;
+
   constructor(manager: RESTManager) {
     this.manager = manager;
     this.queue = new AsyncQueue();
+    this.limit = -1;
+    this.remaining = -1;
+    this.reset = -1;
+  }
+
+  /**
+   * Whether the rate limit of this handler has been exhausted for the current window
+   */
+  get limited(): boolean {
+    return this.remaining === 0 && Date.now() < this.reset;
+  }
+
+  /**
+   * The time in milliseconds until the current rate limit window resets
+   */
+  get timeToReset(): number {
+    return Math.max(this.reset - Date.now(), 0);
   }
 
   async push(request: APIRequest): Promise<Record<string, unknown> | ArrayBuffer | Response> {
+    if (request.options.signal?.aborted) throw new RequestAbortedError(request, false);
     await this.queue.wait();
     try {
+      // The signal could have been aborted while the request was waiting for its turn in the queue
+      if (request.options.signal?.aborted) throw new RequestAbortedError(request, false);
       return await this.execute(request);
     } finally {
       this.queue.shift();
     }
   }
 
-  async execute(request: APIRequest): Promise<Record<string, unknown> | ArrayBuffer | Response> {
-    const res = await request.make();
+  async execute(request: APIRequest, attempt = 0): Promise<Record<string, unknown> | ArrayBuffer | Response> {
+    if (this.limited) await this.#waitForReset(request);
+
+    let res: Response;
+    let parsedResponse: Record<string, unknown> | ArrayBuffer | null;
+    try {
+      [res, parsedResponse] = await this.#send(request);
+    } catch (error) {
+      // Requests aborted by their own signal are not wanted anymore, unlike the ones that timed out
+      const abortedByCaller = error instanceof RequestAbortedError && !error.timedOut;
+      if (abortedByCaller || !this.#isRetryable(request, attempt)) throw error;
+      await this.#waitForRetry(request, attempt, error);
+      return this.execute(request, attempt + 1);
+    }
+    this.#updateRateLimit(res.headers);
+
+    if (res.status === 429 && !request.isStreaming && this.limited) {
+      await this.#waitForReset(request);
+      return this.execute(request, attempt);
+    }
 
     if (res.ok) {
-      if (request.isStreaming) return res;
-      const parsedResponse = (await parseResponse(res)) as Record<string, unknown> | ArrayBuffer;
+      if (request.isStreaming || !parsedResponse) return res;
       if ('errors' in parsedResponse) {
-        if (this.manager.client.options.events.includes('PARTIAL_ERROR')) {
+        if (request.client.options.events.includes('PARTIAL_ERROR')) {
           /**
            * Emitted when the raw data of a 200 OK API response contains error along with the requested data.
            * Use this to debug what fields are missing and why
            */
-          this.manager.client.emit(ClientEvents.PARTIAL_ERROR, parsedResponse.errors);
+          request.client.emit(ClientEvents.PARTIAL_ERROR, parsedResponse.errors);
         }
         // Throw error if there is no data field in the response as there is nothing to process. (⚠ not sure this is true for every response, will look this up later)
         // Currently the thrown error will contain information about the first error only, listen for `partialError` to get the complete error object
-        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-        // @ts-ignore
-        if ('data' in parsedResponse === false) throw new TwitterAPIError(parsedResponse.errors[0]); // TODO
+        if (!('data' in parsedResponse) && !request.options.allowPartialErrors) {
+          // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+          // @ts-ignore
+          throw new TwitterAPIError(parsedResponse.errors[0]); // TODO
+        }
       }
       return parsedResponse;
     } else {
-      if (request.isStreaming) {
-        // It seems that there is some kind of latency issue with the filtered tweets stream endpoint,
-        // where the server thinks that the client is connecting with a simultaneous second connection
-        // whereas the client is actually connecting to the stream “again” after disconnecting.
-        // Hence, Wait for an arbitrary 20s period before initiating a new connection to the stream.
-        await setTimeout(20000); // TODO: Remove this once the latency issue has been fixed
-        return this.execute(request);
+      const apiError = new TwitterAPIError(parsedResponse as unknown as APIProblem, res.status);
+      const retryStatusCodes = request.client.options.rest?.retry.statusCodes;
+      if (retryStatusCodes?.includes(res.status) && this.#isRetryable(request, attempt)) {
+        await this.#waitForRetry(request, attempt, apiError);
+        return this.execute(request, attempt + 1);
       }
-      const apiError = (await parseResponse(res)) as APIProblem;
-      throw new TwitterAPIError(apiError);
+      throw apiError;
+    }
+  }
+
+  // #### 🚧 PRIVATE METHODS 🚧 ####
+
+  /**
+   * Makes a single attempt of a request and reads its response, aborting it if the signal of the request is
+   * aborted or if it takes longer than {@link RESTOptions.timeout}.
+   * @param request The request to make
+   * @returns The response along with its parsed body, which is `null` for successful streaming requests
+   */
+  async #send(request: APIRequest): Promise<[Response, Record<string, unknown> | ArrayBuffer | null]> {
+    const signal = request.options.signal as AbortSignalEventTarget | undefined;
+    // Streaming connections are long-lived and are kept in check by their own stall timeout instead
+    if (request.isStreaming) {
+      const res = await request.make(signal);
+      // The body of a failed connection is the problem that caused it, and reading it also releases the socket
+      return [res, res.ok ? null : ((await parseResponse(res)) as Record<string, unknown> | ArrayBuffer)];
+    }
+    const timeout = request.client.options.rest?.timeout ?? 0;
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+    const timer =
+      timeout > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeout)
+        : null;
+    try {
+      if (signal?.aborted) throw new RequestAbortedError(request, false);
+      const res = await request.make(controller.signal);
+      return [res, (await parseResponse(res)) as Record<string, unknown> | ArrayBuffer];
+    } catch (error) {
+      if (controller.signal.aborted) throw new RequestAbortedError(request, timedOut);
+      throw error;
+    } finally {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  #updateRateLimit(headers: Headers): void {
+    const limit = headers.get('x-rate-limit-limit');
+    const remaining = headers.get('x-rate-limit-remaining');
+    const reset = headers.get('x-rate-limit-reset');
+    if (limit) this.limit = Number(limit);
+    if (remaining) this.remaining = Number(remaining);
+    // The API sends the reset time as seconds since the Unix epoch
+    if (reset) this.reset = Number(reset) * 1000;
+  }
+
+  /**
+   * Waits for the current rate limit window to reset, or throws a {@link RateLimitError} if the client
+   * is configured to reject requests on rate limits.
+   * @param request The request being rate limited
+   */
+  async #waitForReset(request: APIRequest): Promise<void> {
+    const client = request.client;
+    const rateLimitData: RateLimitData = {
+      route: request.route,
+      method: request.method,
+      limit: this.limit,
+      remaining: this.remaining,
+      reset: new Date(this.reset),
+      timeout: this.timeToReset,
+    };
+    client.emit(ClientEvents.RATE_LIMITED, rateLimitData);
+    if (client.options.rest?.rejectOnRateLimit) throw new RateLimitError(rateLimitData);
+    await this.#wait(request, rateLimitData.timeout);
+  }
+
+  /**
+   * Checks whether a failed request can be retried based on the retry options of the client.
+   * @param request The failed request
+   * @param attempt The number of retries already made for the request
+   */
+  #isRetryable(request: APIRequest, attempt: number): boolean {
+    if (request.isStreaming) return false;
+    const retryOptions = request.client.options.rest?.retry;
+    if (!retryOptions || attempt >= retryOptions.maxRetries) return false;
+    return retryOptions.methods.includes(request.method);
+  }
+
+  /**
+   * Waits before retrying a failed request, backing off exponentially with jitter.
+   * @param request The failed request
+   * @param attempt The number of retries already made for the request
+   * @param error The error the request failed with
+   */
+  async #waitForRetry(request: APIRequest, attempt: number, error: unknown): Promise<void> {
+    const client = request.client;
+    const { baseDelay, maxDelay } = client.options.rest?.retry ?? { baseDelay: 0, maxDelay: 0 };
+    const backoff = Math.min(baseDelay * 2 ** attempt, maxDelay);
+    const retryData: RetryData = {
+      route: request.route,
+      method: request.method,
+      attempt: attempt + 1,
+      delay: Math.round(backoff / 2 + Math.random() * (backoff / 2)),
+      error,
+    };
+    client.emit(ClientEvents.RETRY, retryData);
+    await this.#wait(request, retryData.delay);
+  }
+
+  /**
+   * Waits for the given time, throwing a {@link RequestAbortedError} if the signal of the request is aborted meanwhile.
+   * @param request The request that is waiting
+   * @param delay The time to wait in milliseconds
+   */
+  async #wait(request: APIRequest, delay: number): Promise<void> {
+    try {
+      await wait(delay, undefined, { signal: request.options.signal });
+    } catch {
+      throw new RequestAbortedError(request, false);
     }
   }
 }
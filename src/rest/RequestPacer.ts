@@ -0,0 +1,49 @@
+import { setTimeout as wait } from 'timers/promises';
+import { RequestAbortedError } from './RequestAbortedError';
+import type { APIRequest } from './APIRequest';
+
+/**
+ * A class that spaces out the requests made to the endpoints that limit how often they can be requested, on top of the
+ * number of requests allowed in a rate limit window
+ */
+export class RequestPacer {
+  /**
+   * The minimum time in milliseconds between two requests
+   */
+  interval: number;
+
+  /**
+   * The time at which the last request was let through, or will be if it is still waiting for its turn
+   */
+  #lastRequestTimestamp: number | null;
+
+  /**
+   * @param interval The minimum time in milliseconds between two requests
+   */
+  constructor(interval: number) {
+    this.interval = interval;
+    this.#lastRequestTimestamp = null;
+  }
+
+  /**
+   * Waits until the interval since the last request has passed, and counts the next request from then on.
+   *
+   * **Note**: The turn of a request is taken as soon as this is called, so that the requests waiting at the same
+   * time are let through one interval apart
+   * @param request The route and method of the request to pace
+   * @param signal The signal for aborting the wait
+   *
+   * @throws {@link RequestAbortedError} The exception is thrown if the signal is aborted while waiting
+   */
+  async pace(request: Pick<APIRequest, 'route' | 'method'>, signal?: AbortSignal): Promise<void> {
+    const now = Date.now();
+    const turn = Math.max(now, (this.#lastRequestTimestamp ?? 0) + this.interval);
+    this.#lastRequestTimestamp = turn;
+    if (turn === now) return;
+    try {
+      await wait(turn - now, undefined, { signal });
+    } catch {
+      throw new RequestAbortedError(request, false);
+    }
+  }
+}
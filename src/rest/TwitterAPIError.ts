@@ -21,7 +21,7 @@ export class TwitterAPIError extends Error {
   connection_issue: string | null;
   errors: Record<string, string> | null;
 
-  constructor(data: APIProblem) {
+  constructor(data: APIProblem, httpStatus?: number) {
     super(data.detail);
     this.title = data.title;
     this.detail = data.detail;
@@ -30,7 +30,7 @@ export class TwitterAPIError extends Error {
     this.scope = 'scope' in data ? data.scope : null;
     this.value = 'value' in data ? data.value : null;
     this.field = 'field' in data ? data.field : null;
-    this.status = 'status' in data ? data.status : null;
+    this.status = 'status' in data ? data.status : httpStatus ?? null;
     this.period = 'period' in data ? data.period : null;
     this.reason = 'reason' in data ? data.reason : null;
     this.section = 'section' in data ? data.section : null;
@@ -0,0 +1,20 @@
+import { normalizeRoute } from '../APIRouter';
+
+test('normalize paths to the templates of their endpoints', () => {
+  expect(normalizeRoute('/tweets/1460323737035677698/liking_users')).toBe('/tweets/:id/liking_users');
+  expect(normalizeRoute('/users/by/username/bob123')).toBe('/users/by/username/:username');
+  expect(normalizeRoute('/users/2244994945/following/6253282')).toBe('/users/:id/following/:target_user_id');
+  expect(normalizeRoute('/tweets/search/recent')).toBe('/tweets/search/recent');
+});
+
+test('prefer literal segments over parameters', () => {
+  expect(normalizeRoute('/users/me')).toBe('/users/me');
+  expect(normalizeRoute('/users/by')).toBe('/users/by');
+  expect(normalizeRoute('/spaces/search')).toBe('/spaces/search');
+  expect(normalizeRoute('/spaces/1DXxyRYNejbKM')).toBe('/spaces/:id');
+});
+
+test('replace numeric segments of unknown endpoints', () => {
+  expect(normalizeRoute('/compliance/jobs/1382081613278814209')).toBe('/compliance/jobs/:id');
+  expect(normalizeRoute('/unknown/bob123')).toBe('/unknown/bob123');
+});
@@ -0,0 +1,41 @@
+import { Client } from '../../client';
+import { RequestHandler } from '../RequestHandler';
+import { RequestData } from '../../structures';
+import type { AuthRequest } from '../../typings';
+
+test('inspect the rate limit bucket of an endpoint', () => {
+  const client = new Client();
+  const handler = new RequestHandler(client.rest);
+  handler.limit = 15;
+  handler.remaining = 0;
+  handler.reset = Date.now() + 60000;
+  client.rest.requestHandlers.set('get /users/:id/following', handler);
+  expect(client.rest.getBucket('GET /users/2244994945/following')).toMatchObject({
+    route: '/users/:id/following',
+    method: 'get',
+    limit: 15,
+    remaining: 0,
+    reset: new Date(handler.reset),
+    limited: true,
+    queued: 0,
+  });
+  expect(client.rest.getBucket('POST /users/:id/following')).toBeNull();
+});
+
+test('resolve the auth provider of a request', async () => {
+  const client = new Client();
+  await client.loginWithBearerToken('bearer-token');
+  const request: AuthRequest = { method: 'get', url: 'https://api.twitter.com/2/tweets', headers: {} };
+  await client.rest.resolveAuthProvider(new RequestData({})).authorize(request);
+  expect(request.headers.Authorization).toBe('Bearer bearer-token');
+  client.authProviders.set('proxy', {
+    authorize: proxiedRequest => {
+      proxiedRequest.url = proxiedRequest.url.replace('https://api.twitter.com', 'https://signer.example');
+    },
+  });
+  await client.rest.resolveAuthProvider(new RequestData({ authProvider: 'proxy' })).authorize(request);
+  expect(request.url).toBe('https://signer.example/2/tweets');
+  expect(() =>
+    client.rest.resolveAuthProvider(new RequestData({ isUserContext: true, authProvider: 'vault' })),
+  ).toThrow('vault');
+});
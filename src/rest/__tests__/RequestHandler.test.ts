@@ -0,0 +1,139 @@
+import { Response } from 'undici';
+import { Client } from '../../client';
+import { RequestHandler } from '../RequestHandler';
+import { RateLimitError } from '../RateLimitError';
+import { RequestAbortedError } from '../RequestAbortedError';
+import { TwitterAPIError } from '../TwitterAPIError';
+import type { APIRequest } from '../APIRequest';
+
+const reset = Math.floor(Date.now() / 1000) + 900;
+const createRequest = (client: Client, remaining: number): APIRequest =>
+  ({
+    client,
+    route: '/tweets/:id',
+    method: 'get',
+    options: {},
+    make: async () =>
+      new Response('{"data":{}}', {
+        headers: {
+          'content-type': 'application/json',
+          'x-rate-limit-limit': '300',
+          'x-rate-limit-remaining': `${remaining}`,
+          'x-rate-limit-reset': `${reset}`,
+        },
+      }),
+  } as unknown as APIRequest);
+
+test('track the rate limit of the route from the response headers', async () => {
+  const client = new Client();
+  const handler = new RequestHandler(client.rest);
+  await handler.push(createRequest(client, 299));
+  expect(handler.limit).toBe(300);
+  expect(handler.remaining).toBe(299);
+  expect(handler.reset).toBe(reset * 1000);
+  expect(handler.limited).toBe(false);
+});
+
+test('reject requests once the rate limit is exhausted', async () => {
+  const client = new Client({ events: [], rest: { rejectOnRateLimit: true } });
+  const handler = new RequestHandler(client.rest);
+  const rateLimited = jest.fn();
+  client.on('rateLimited', rateLimited);
+  await handler.push(createRequest(client, 0));
+  expect(handler.limited).toBe(true);
+  await expect(handler.push(createRequest(client, 0))).rejects.toBeInstanceOf(RateLimitError);
+  expect(rateLimited).toHaveBeenCalledTimes(1);
+});
+
+const createFlakyRequest = (client: Client, method: string, failures: number): APIRequest => {
+  let calls = 0;
+  return {
+    client,
+    route: '/tweets',
+    method,
+    options: {},
+    make: async () =>
+      ++calls > failures
+        ? new Response('{"data":{}}', { headers: { 'content-type': 'application/json' } })
+        : new Response('{"title":"Service Unavailable","detail":"Service Unavailable","type":"about:blank"}', {
+            status: 503,
+            headers: { 'content-type': 'application/json' },
+          }),
+  } as unknown as APIRequest;
+};
+const retryOptions = {
+  rejectOnRateLimit: false,
+  retry: { maxRetries: 2, baseDelay: 0, maxDelay: 0, statusCodes: [503], methods: ['get'] },
+};
+
+test('retry idempotent requests that failed with a transient error', async () => {
+  const client = new Client({ events: [], rest: retryOptions });
+  const handler = new RequestHandler(client.rest);
+  const retry = jest.fn();
+  client.on('retry', retry);
+  await expect(handler.push(createFlakyRequest(client, 'get', 2))).resolves.toStrictEqual({ data: {} });
+  expect(retry).toHaveBeenCalledTimes(2);
+  await expect(handler.push(createFlakyRequest(client, 'get', 3))).rejects.toBeInstanceOf(TwitterAPIError);
+});
+
+test('do not retry non-idempotent requests by default', async () => {
+  const client = new Client({ events: [], rest: retryOptions });
+  const handler = new RequestHandler(client.rest);
+  await expect(handler.push(createFlakyRequest(client, 'post', 1))).rejects.toBeInstanceOf(TwitterAPIError);
+});
+
+const createHangingRequest = (client: Client, signal?: AbortSignal): APIRequest =>
+  ({
+    client,
+    route: '/users/:id',
+    method: 'get',
+    options: { signal },
+    make: (requestSignal: AbortSignal) =>
+      new Promise((resolve, reject) => requestSignal.addEventListener('abort', () => reject(new Error('aborted')))),
+  } as unknown as APIRequest);
+
+test('reject aborted requests and release their slot in the queue', async () => {
+  const client = new Client({ events: [] });
+  const handler = new RequestHandler(client.rest);
+  const controller = new AbortController();
+  const hangingRequest = handler.push(createHangingRequest(client, controller.signal));
+  controller.abort();
+  await expect(hangingRequest).rejects.toMatchObject({ timedOut: false });
+  await expect(handler.push(createRequest(client, 299))).resolves.toStrictEqual({ data: {} });
+});
+
+test('retry requests that take longer than the timeout before rejecting them', async () => {
+  const client = new Client({ events: [], rest: { ...retryOptions, timeout: 10 } });
+  const handler = new RequestHandler(client.rest);
+  const retry = jest.fn();
+  client.on('retry', retry);
+  const timedOutRequest = handler.push(createHangingRequest(client));
+  await expect(timedOutRequest).rejects.toBeInstanceOf(RequestAbortedError);
+  await expect(timedOutRequest).rejects.toMatchObject({ timedOut: true });
+  expect(retry).toHaveBeenCalledTimes(2);
+});
+
+const createPartialErrorRequest = (client: Client, allowPartialErrors: boolean): APIRequest =>
+  ({
+    client,
+    route: '/tweets/search/stream/rules',
+    method: 'post',
+    options: { allowPartialErrors },
+    make: async () =>
+      new Response(
+        JSON.stringify({
+          errors: [{ value: 'bad', title: 'UnprocessableEntity', type: 'about:blank', detail: 'Invalid rule' }],
+          meta: { sent: '', summary: { created: 0, not_created: 1, valid: 0, invalid: 1 } },
+        }),
+        { headers: { 'content-type': 'application/json' } },
+      ),
+  } as unknown as APIRequest);
+
+test('only return successful responses carrying just errors when the request allows it', async () => {
+  const client = new Client({ events: [] });
+  const handler = new RequestHandler(client.rest);
+  await expect(handler.push(createPartialErrorRequest(client, false))).rejects.toBeInstanceOf(TwitterAPIError);
+  await expect(handler.push(createPartialErrorRequest(client, true))).resolves.toMatchObject({
+    errors: [{ value: 'bad' }],
+  });
+});
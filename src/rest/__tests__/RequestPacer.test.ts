@@ -0,0 +1,23 @@
+import { RequestAbortedError } from '../RequestAbortedError';
+import { RequestPacer } from '../RequestPacer';
+
+test('space out requests by the interval of the pacer', async () => {
+  const pacer = new RequestPacer(100);
+  const request = { route: '/tweets/search/all', method: 'get' };
+  const start = Date.now();
+  await pacer.pace(request);
+  expect(Date.now() - start).toBeLessThan(50);
+  await pacer.pace(request);
+  expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+});
+
+test('reject with a RequestAbortedError when the signal is aborted while pacing', async () => {
+  const pacer = new RequestPacer(10000);
+  const request = { route: '/tweets/search/all', method: 'get' };
+  await pacer.pace(request);
+  const controller = new AbortController();
+  const paced = pacer.pace(request, controller.signal);
+  controller.abort();
+  await expect(paced).rejects.toBeInstanceOf(RequestAbortedError);
+  await expect(paced).rejects.toMatchObject({ route: '/tweets/search/all', method: 'get', timedOut: false });
+});
@@ -0,0 +1,86 @@
+import { TweetStream } from './TweetStream';
+import { CustomError } from '../errors';
+import { Collection, ClientEvents, StreamType } from '../util';
+import { MatchingRule, RequestData } from '../structures';
+import type { Client } from '../client';
+import type { Tweet } from '../structures';
+import type { Response } from 'undici';
+import type { GetFilteredTweetStreamQuery, GetFilteredTweetStreamResponse, Snowflake } from 'twitter-types';
+
+/**
+ * The maximum number of tweet IDs remembered for skipping tweets redelivered by the backfill
+ */
+const RECEIVED_TWEET_IDS_LIMIT = 10000;
+
+/**
+ * The class that represents the connection to the filtered tweet stream
+ */
+export class FilteredTweetStream extends TweetStream<GetFilteredTweetStreamResponse> {
+  /**
+   * The number of minutes of tweets to recover when reconnecting to the stream
+   */
+  #backfillMinutes: number;
+
+  /**
+   * The IDs of the tweets received most recently, used for skipping tweets redelivered by the backfill
+   */
+  #receivedTweetIds: Set<Snowflake>;
+
+  /**
+   * @param client The logged in {@link Client} instance
+   */
+  constructor(client: Client) {
+    super(client, StreamType.FILTERED);
+    this.#backfillMinutes = 0;
+    this.backfillMinutes = client.options.streams?.backfillMinutes ?? 0;
+    this.#receivedTweetIds = new Set();
+  }
+
+  /**
+   * The number of minutes of tweets to recover when reconnecting to the stream, between `1` and `5`, or `0` if
+   * backfilling is disabled
+   *
+   * **Note**: Tweets redelivered by the backfill are not emitted again if they were received before the disconnection
+   */
+  get backfillMinutes(): number {
+    return this.#backfillMinutes;
+  }
+
+  set backfillMinutes(minutes: number) {
+    if (!Number.isInteger(minutes) || minutes < 0 || minutes > 5) {
+      throw new CustomError('BACKFILL_MINUTES_OUT_OF_RANGE', minutes);
+    }
+    this.#backfillMinutes = minutes;
+  }
+
+  protected async _request(signal: AbortSignal, isReconnecting: boolean): Promise<Response> {
+    const queryParameters = this.queryParameters;
+    const query: GetFilteredTweetStreamQuery = {
+      expansions: queryParameters.tweetExpansions,
+      'media.fields': queryParameters.mediaFields,
+      'place.fields': queryParameters.placeFields,
+      'poll.fields': queryParameters.pollFields,
+      'tweet.fields': queryParameters.tweetFields,
+      'user.fields': queryParameters.userFields,
+    };
+    if (isReconnecting && this.backfillMinutes) query.backfill_minutes = this.backfillMinutes;
+    const requestData = new RequestData({ query, isStreaming: true, signal });
+    return this.client._api.tweets.search.stream.get(requestData);
+  }
+
+  protected _handle(rawData: GetFilteredTweetStreamResponse): Tweet | null {
+    if (this.#receivedTweetIds.has(rawData.data.id)) return null;
+    this.#receivedTweetIds.add(rawData.data.id);
+    if (this.#receivedTweetIds.size > RECEIVED_TWEET_IDS_LIMIT) {
+      const [oldestTweetId] = this.#receivedTweetIds;
+      this.#receivedTweetIds.delete(oldestTweetId);
+    }
+    const tweet = this.client.tweets._add(rawData.data.id, rawData, false);
+    const matchingRules = rawData.matching_rules.reduce((col, rule) => {
+      col.set(rule.id, new MatchingRule(rule));
+      return col;
+    }, new Collection<Snowflake, MatchingRule>());
+    this.client.emit(ClientEvents.FILTERED_TWEET_CREATE, tweet, matchingRules);
+    return tweet;
+  }
+}
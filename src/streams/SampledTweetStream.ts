@@ -0,0 +1,39 @@
+import { TweetStream } from './TweetStream';
+import { RequestData } from '../structures';
+import { ClientEvents, StreamType } from '../util';
+import type { Client } from '../client';
+import type { Tweet } from '../structures';
+import type { Response } from 'undici';
+import type { GetSampledTweetStreamQuery, GetSampledTweetStreamResponse } from 'twitter-types';
+
+/**
+ * The class that represents the connection to the sampled tweet stream
+ */
+export class SampledTweetStream extends TweetStream<GetSampledTweetStreamResponse> {
+  /**
+   * @param client The logged in {@link Client} instance
+   */
+  constructor(client: Client) {
+    super(client, StreamType.SAMPLED);
+  }
+
+  protected async _request(signal: AbortSignal): Promise<Response> {
+    const queryParameters = this.queryParameters;
+    const query: GetSampledTweetStreamQuery = {
+      expansions: queryParameters.tweetExpansions,
+      'media.fields': queryParameters.mediaFields,
+      'place.fields': queryParameters.placeFields,
+      'poll.fields': queryParameters.pollFields,
+      'tweet.fields': queryParameters.tweetFields,
+      'user.fields': queryParameters.userFields,
+    };
+    const requestData = new RequestData({ query, isStreaming: true, signal });
+    return this.client._api.tweets.sample.stream.get(requestData);
+  }
+
+  protected _handle(rawTweet: GetSampledTweetStreamResponse): Tweet {
+    const tweet = this.client.tweets._add(rawTweet.data.id, rawTweet, false);
+    this.client.emit(ClientEvents.SAMPLED_TWEET_CREATE, tweet);
+    return tweet;
+  }
+}
@@ -0,0 +1,69 @@
+import { TwitterAPIError } from '../rest/TwitterAPIError';
+
+/**
+ * The class that calculates how long to wait before reconnecting to a tweet stream,
+ * following the reconnection guidelines of Twitter
+ *
+ * See https://developer.twitter.com/en/docs/twitter-api/tweets/filtered-stream/integrate/handling-disconnections
+ */
+export class StreamBackoff {
+  /**
+   * The number of consecutive reconnection attempts made so far
+   */
+  attempts: number;
+
+  /**
+   * The delay of the last network error backoff, in milliseconds
+   */
+  #networkErrorDelay: number;
+
+  /**
+   * The delay of the last HTTP error backoff, in milliseconds
+   */
+  #httpErrorDelay: number;
+
+  /**
+   * The delay of the last rate limit backoff, in milliseconds
+   */
+  #rateLimitDelay: number;
+
+  constructor() {
+    this.attempts = 0;
+    this.#networkErrorDelay = 0;
+    this.#httpErrorDelay = 0;
+    this.#rateLimitDelay = 0;
+  }
+
+  /**
+   * Calculates the delay before the next reconnection attempt based on the error that caused the disconnection.
+   *
+   * - Network errors back off linearly, starting at `250ms` and capped at `16s`
+   * - HTTP errors back off exponentially, starting at `5s` and capped at `320s`
+   * - HTTP `429` errors back off exponentially, starting at `1min` and capped at `15min`
+   * @param error The error that caused the disconnection
+   * @returns The delay in milliseconds
+   */
+  next(error: unknown): number {
+    this.attempts++;
+    if (error instanceof TwitterAPIError) {
+      if (error.status === 429) {
+        this.#rateLimitDelay = this.#rateLimitDelay ? Math.min(this.#rateLimitDelay * 2, 900000) : 60000;
+        return this.#rateLimitDelay;
+      }
+      this.#httpErrorDelay = this.#httpErrorDelay ? Math.min(this.#httpErrorDelay * 2, 320000) : 5000;
+      return this.#httpErrorDelay;
+    }
+    this.#networkErrorDelay = Math.min(this.#networkErrorDelay + 250, 16000);
+    return this.#networkErrorDelay;
+  }
+
+  /**
+   * Resets the backoff after a successful connection.
+   */
+  reset(): void {
+    this.attempts = 0;
+    this.#networkErrorDelay = 0;
+    this.#httpErrorDelay = 0;
+    this.#rateLimitDelay = 0;
+  }
+}
@@ -0,0 +1,41 @@
+import { FilteredTweetStream } from './FilteredTweetStream';
+import { SampledTweetStream } from './SampledTweetStream';
+import type { Client } from '../client';
+
+/**
+ * The manager class that holds the connections to the tweet streams
+ */
+export class StreamManager {
+  /**
+   * The instance of {@link Client} that was used to log in
+   */
+  client: Client;
+
+  /**
+   * The connection to the filtered tweet stream
+   */
+  filtered: FilteredTweetStream;
+
+  /**
+   * The connection to the sampled tweet stream
+   */
+  sampled: SampledTweetStream;
+
+  /**
+   * @param client The logged in {@link Client} instance
+   */
+  constructor(client: Client) {
+    Object.defineProperty(this, 'client', { writable: true, enumerable: false });
+    this.client = client;
+    this.filtered = new FilteredTweetStream(client);
+    this.sampled = new SampledTweetStream(client);
+  }
+
+  /**
+   * Disconnects from all the tweet streams.
+   * @returns A promise that resolves once every connection has been closed
+   */
+  async disconnectAll(): Promise<void> {
+    await Promise.all([this.filtered.disconnect(), this.sampled.disconnect()]);
+  }
+}
@@ -0,0 +1,232 @@
+import { setTimeout as wait } from 'timers/promises';
+import { StreamBackoff } from './StreamBackoff';
+import { TweetStreamIterator } from './TweetStreamIterator';
+import { CustomError } from '../errors';
+import { ClientEvents, StreamDecoder } from '../util';
+import type { Client } from '../client';
+import type { Response } from 'undici';
+import type { Tweet } from '../structures';
+import type { QueryParameters, TweetStreamIteratorOptions, TweetStreamState } from '../typings';
+
+/**
+ * The base class for all tweet streams
+ */
+export abstract class TweetStream<T> {
+  /**
+   * The instance of {@link Client} that was used to log in
+   */
+  client: Client;
+
+  /**
+   * The type of this stream
+   */
+  type: 'sampled' | 'filtered';
+
+  /**
+   * The current state of the connection to this stream
+   */
+  state: TweetStreamState;
+
+  /**
+   * The parameters to pass in the query while connecting to this stream. Changes are applied on the next connection
+   */
+  queryParameters: QueryParameters;
+
+  /**
+   * The promise that settles once the stream gets connected
+   */
+  #connecting: Promise<void> | null;
+
+  /**
+   * The controller for the current connection to the stream
+   */
+  #connectionController: AbortController | null;
+
+  /**
+   * The controller for the whole session, aborted when {@link TweetStream.disconnect} is called
+   */
+  #sessionController: AbortController | null;
+
+  /**
+   * The promise that settles once the reconnection loop of the current session ends
+   */
+  #session: Promise<void> | null;
+
+  /**
+   * The iterators consuming the tweets of this stream
+   */
+  #iterators: Set<TweetStreamIterator>;
+
+  /**
+   * Whether the current session was started by an iterator, in which case it ends along with the last iterator
+   */
+  #startedByIterator: boolean;
+
+  /**
+   * @param client The logged in {@link Client} instance
+   * @param type The type of the stream
+   */
+  constructor(client: Client, type: 'sampled' | 'filtered') {
+    Object.defineProperty(this, 'client', { writable: true, enumerable: false });
+    this.client = client;
+    this.type = type;
+    this.state = 'idle';
+    this.queryParameters = { ...client.options.queryParameters };
+    this.#connecting = null;
+    this.#connectionController = null;
+    this.#sessionController = null;
+    this.#session = null;
+    this.#iterators = new Set();
+    this.#startedByIterator = false;
+  }
+
+  /**
+   * Connects to the stream and keeps reconnecting to it with a backoff whenever the connection drops
+   * or stops receiving data for longer than {@link StreamOptions.stallTimeout}.
+   * @returns A promise that resolves once the stream gets connected, or rejects with the last error if
+   * the stream gives up reconnecting before that
+   */
+  async connect(): Promise<void> {
+    if (this.#connecting) return this.#connecting;
+    const sessionController = new AbortController();
+    this.#sessionController = sessionController;
+    this.#connecting = new Promise((resolve, reject) => {
+      let lastError: unknown;
+      const onGiveUp = (error: unknown) => {
+        lastError = error;
+        reject(error);
+      };
+      this.#session = this.#run(sessionController.signal, resolve, onGiveUp).finally(() => {
+        this.state = 'idle';
+        this.#connecting = null;
+        this.#sessionController = null;
+        this.#session = null;
+        this.#startedByIterator = false;
+        for (const iterator of this.#iterators) iterator.end(lastError);
+        this.#iterators.clear();
+      });
+    });
+    return this.#connecting;
+  }
+
+  /**
+   * Disconnects from the stream and stops reconnecting to it.
+   * @returns A promise that resolves once the connection has been closed
+   */
+  async disconnect(): Promise<void> {
+    this.#sessionController?.abort();
+    this.#connectionController?.abort();
+    // Release the stream if it is waiting for an iterator that stopped reading to have space for more tweets
+    for (const iterator of this.#iterators) iterator.end();
+    await this.#session;
+  }
+
+  /**
+   * Creates an iterator over the tweets received from this stream, connecting to it if needed.
+   *
+   * **Note**: If the stream was connected by the iterator, breaking out of the loop of the last iterator
+   * disconnects the stream
+   * @param options The options for iterating over the stream
+   * @returns An {@link TweetStreamIterator} object
+   */
+  iterate(options?: TweetStreamIteratorOptions): TweetStreamIterator {
+    const iterator = new TweetStreamIterator(options?.bufferSize ?? 100, async returned => {
+      this.#iterators.delete(returned);
+      if (this.#iterators.size === 0 && this.#startedByIterator) await this.disconnect();
+    });
+    if (this.state === 'idle') this.#startedByIterator = true;
+    this.#iterators.add(iterator);
+    this.connect().catch(() => undefined);
+    return iterator;
+  }
+
+  /**
+   * Makes the request to the endpoint of the stream.
+   * @param signal The signal for aborting the request
+   * @param isReconnecting Whether the request is a reconnection attempt after the stream got disconnected
+   */
+  protected abstract _request(signal: AbortSignal, isReconnecting: boolean): Promise<Response>;
+
+  /**
+   * Handles a payload received from the stream.
+   * @param data The parsed payload
+   * @returns The tweet received in the payload, or `null` if it should be skipped
+   */
+  protected abstract _handle(data: T): Tweet | null;
+
+  // #### 🚧 PRIVATE METHODS 🚧 ####
+
+  async #run(sessionSignal: AbortSignal, onConnect: () => void, onGiveUp: (error: unknown) => void): Promise<void> {
+    const backoff = new StreamBackoff();
+    while (!sessionSignal.aborted) {
+      const controller = new AbortController();
+      this.#connectionController = controller;
+      this.state = 'connecting';
+      const stallTimeout = this.client.options.streams?.stallTimeout;
+      let watchdog: NodeJS.Timeout | null = null;
+      const armWatchdog = () => {
+        if (watchdog) clearTimeout(watchdog);
+        if (!stallTimeout) return;
+        watchdog = setTimeout(() => {
+          this.client.emit(ClientEvents.STREAM_STALL, this.type);
+          controller.abort();
+        }, stallTimeout);
+      };
+      armWatchdog();
+      try {
+        const { body }: Response = await this._request(controller.signal, backoff.attempts > 0);
+        if (!body) throw new CustomError('NO_STREAM_RESPONSE_BODY');
+        this.state = 'connected';
+        onConnect();
+        if (backoff.attempts > 0) this.client.emit(ClientEvents.STREAM_RECONNECTED, this.type, backoff.attempts);
+        backoff.reset();
+        const decoder = new StreamDecoder();
+        for await (const chunk of body) {
+          armWatchdog();
+          for (const payload of decoder.push(chunk)) {
+            if (payload.length === 0) {
+              if (this.client.options.events.includes('KEEP_ALIVE_SIGNAL')) {
+                this.client.emit(ClientEvents.KEEP_ALIVE_SIGNAL, this.type);
+              }
+              continue;
+            }
+            let tweet: Tweet | null;
+            try {
+              tweet = this._handle(JSON.parse(payload));
+            } catch (error) {
+              this.client.emit(ClientEvents.STREAM_PARSE_ERROR, this.type, payload, error);
+              continue;
+            }
+            if (!tweet || this.#iterators.size === 0) continue;
+            const receivedTweet = tweet;
+            // Stop reading from the connection until the iterators have space for more tweets, without
+            // treating the time spent waiting for them as a stall
+            if (watchdog) clearTimeout(watchdog);
+            await Promise.all([...this.#iterators].map(iterator => iterator.push(receivedTweet)));
+            armWatchdog();
+          }
+        }
+        throw new CustomError('STREAM_CONNECTION_CLOSED');
+      } catch (error) {
+        if (watchdog) clearTimeout(watchdog);
+        if (sessionSignal.aborted) break;
+        this.client.emit(ClientEvents.STREAM_DISCONNECT, this.type, error);
+        const streamOptions = this.client.options.streams;
+        if (!streamOptions?.autoReconnect || backoff.attempts >= streamOptions.maxReconnectAttempts) {
+          onGiveUp(error);
+          break;
+        }
+        const delay = backoff.next(error);
+        this.state = 'backoff';
+        this.client.emit(ClientEvents.STREAM_RECONNECTING, this.type, backoff.attempts, delay);
+        try {
+          await wait(delay, undefined, { signal: sessionSignal });
+        } catch {
+          break;
+        }
+      }
+    }
+    this.#connectionController = null;
+    onConnect();
+  }
+}
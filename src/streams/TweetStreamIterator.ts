@@ -0,0 +1,130 @@
+import type { Tweet } from '../structures';
+
+/**
+ * The class for consuming the tweets of a {@link TweetStream} using `for await...of` loops.
+ *
+ * The iterator buffers at most {@link TweetStreamIterator.bufferSize} tweets, after which the stream stops
+ * reading from the connection until the consumer catches up
+ */
+export class TweetStreamIterator implements AsyncIterableIterator<Tweet> {
+  /**
+   * The maximum number of tweets that are buffered while waiting for the consumer
+   */
+  bufferSize: number;
+
+  /**
+   * The tweets that have been received but not consumed yet
+   */
+  #buffer: Array<Tweet>;
+
+  /**
+   * The pending read of the consumer waiting for the next tweet
+   */
+  #pendingRead: { resolve: (result: IteratorResult<Tweet>) => void; reject: (error: unknown) => void } | null;
+
+  /**
+   * The callbacks of the stream waiting for space in the buffer
+   */
+  #pendingWrites: Array<() => void>;
+
+  /**
+   * The error that ended the iterator, if any
+   */
+  #error: unknown;
+
+  /**
+   * Whether the iterator has finished
+   */
+  #done: boolean;
+
+  /**
+   * The function called once the consumer stops iterating
+   */
+  #onReturn: (iterator: TweetStreamIterator) => Promise<void>;
+
+  /**
+   * @param bufferSize The maximum number of tweets to buffer
+   * @param onReturn The function to call once the consumer stops iterating
+   */
+  constructor(bufferSize: number, onReturn: (iterator: TweetStreamIterator) => Promise<void>) {
+    this.bufferSize = bufferSize;
+    this.#buffer = [];
+    this.#pendingRead = null;
+    this.#pendingWrites = [];
+    this.#error = null;
+    this.#done = false;
+    this.#onReturn = onReturn;
+  }
+
+  /**
+   * Pushes a tweet to the iterator.
+   * @param tweet The tweet received from the stream
+   * @returns A promise that resolves once there is space in the buffer for more tweets
+   */
+  async push(tweet: Tweet): Promise<void> {
+    if (this.#done) return;
+    if (this.#pendingRead) {
+      this.#pendingRead.resolve({ value: tweet, done: false });
+      this.#pendingRead = null;
+      return;
+    }
+    this.#buffer.push(tweet);
+    if (this.#buffer.length < this.bufferSize) return;
+    return new Promise(resolve => this.#pendingWrites.push(resolve));
+  }
+
+  /**
+   * Ends the iterator once the buffered tweets are consumed.
+   * @param error The error to throw to the consumer, if the stream ended due to an error
+   */
+  end(error?: unknown): void {
+    if (this.#done) return;
+    this.#done = true;
+    this.#error = error ?? null;
+    this.#releaseWrites();
+    if (this.#pendingRead) {
+      if (this.#error) this.#pendingRead.reject(this.#error);
+      else this.#pendingRead.resolve({ value: undefined, done: true });
+      this.#pendingRead = null;
+      this.#error = null;
+    }
+  }
+
+  async next(): Promise<IteratorResult<Tweet>> {
+    const tweet = this.#buffer.shift();
+    if (tweet) {
+      if (this.#buffer.length < this.bufferSize) this.#releaseWrites();
+      return { value: tweet, done: false };
+    }
+    if (this.#done) {
+      if (this.#error) {
+        const error = this.#error;
+        this.#error = null;
+        throw error;
+      }
+      return { value: undefined, done: true };
+    }
+    return new Promise((resolve, reject) => {
+      this.#pendingRead = { resolve, reject };
+    });
+  }
+
+  async return(): Promise<IteratorResult<Tweet>> {
+    this.#buffer = [];
+    this.end();
+    await this.#onReturn(this);
+    return { value: undefined, done: true };
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<Tweet> {
+    return this;
+  }
+
+  // #### 🚧 PRIVATE METHODS 🚧 ####
+
+  #releaseWrites(): void {
+    const pendingWrites = this.#pendingWrites;
+    this.#pendingWrites = [];
+    for (const resolve of pendingWrites) resolve();
+  }
+}
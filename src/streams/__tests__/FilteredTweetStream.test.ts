@@ -0,0 +1,49 @@
+import { withMockServer } from '../../__tests__/mockServer';
+import { Client } from '../../client';
+import type { RequestListener } from 'http';
+
+const payload = (id: string) =>
+  `${JSON.stringify({ data: { id, text: `tweet ${id}` }, matching_rules: [{ id: '10', tag: 'cats' }] })}\r\n`;
+
+test('backfill the tweets missed while reconnecting without emitting the received ones again', async () => {
+  const urls: Array<string | undefined> = [];
+  const handler: RequestListener = (req, res) => {
+    urls.push(req.url);
+    res.setHeader('content-type', 'application/json');
+    // Both connections stay open without sending anything after their tweets, so the first one stalls
+    res.write(urls.length === 1 ? payload('1') : payload('1') + payload('2'));
+  };
+  await withMockServer(handler, async ({ client }) => {
+    client.options.streams = { ...client.options.streams, stallTimeout: 200 };
+    await client.loginWithBearerToken('bearer-token');
+    const stream = client.streams.filtered;
+    stream.backfillMinutes = 2;
+    const stalled = jest.fn();
+    client.on('streamStall', stalled);
+    const tweetIds: Array<string> = [];
+    const received = new Promise<void>(resolve => {
+      client.on('filteredTweetCreate', (tweet, matchingRules) => {
+        expect(matchingRules.get('10')?.tag).toBe('cats');
+        tweetIds.push(tweet.id);
+        if (tweetIds.length === 2) resolve();
+      });
+    });
+    await stream.connect();
+    await received;
+    await stream.disconnect();
+    expect(stalled).toHaveBeenCalledWith('filtered');
+    expect(tweetIds).toEqual(['1', '2']);
+    expect(urls[0]).not.toContain('backfill_minutes');
+    expect(urls[1]).toContain('backfill_minutes=2');
+  });
+});
+
+test('reject backfill minutes outside of the range accepted by the API', () => {
+  expect(() => new Client({ events: [], streams: { backfillMinutes: 6 } })).toThrow(
+    'The backfill minutes must be a whole number between 0 and 5, received 6.',
+  );
+  const stream = new Client({ events: [] }).streams.filtered;
+  expect(() => (stream.backfillMinutes = 1.5)).toThrow('received 1.5');
+  stream.backfillMinutes = 5;
+  expect(stream.backfillMinutes).toBe(5);
+});
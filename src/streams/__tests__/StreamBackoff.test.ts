@@ -0,0 +1,51 @@
+import { StreamBackoff } from '../StreamBackoff';
+import { TwitterAPIError } from '../../rest/TwitterAPIError';
+
+const httpError = new TwitterAPIError(
+  {
+    title: 'Service Unavailable',
+    detail: 'Service Unavailable',
+    type: 'about:blank',
+  },
+  503,
+);
+const rateLimitError = new TwitterAPIError(
+  {
+    title: 'Too Many Requests',
+    detail: 'Too Many Requests',
+    type: 'about:blank',
+  },
+  429,
+);
+
+test('network errors back off linearly up to 16 seconds', () => {
+  const backoff = new StreamBackoff();
+  expect(backoff.next(new Error())).toBe(250);
+  expect(backoff.next(new Error())).toBe(500);
+  for (let i = 0; i < 100; i++) backoff.next(new Error());
+  expect(backoff.next(new Error())).toBe(16000);
+});
+
+test('http errors back off exponentially up to 320 seconds', () => {
+  const backoff = new StreamBackoff();
+  expect(backoff.next(httpError)).toBe(5000);
+  expect(backoff.next(httpError)).toBe(10000);
+  for (let i = 0; i < 10; i++) backoff.next(httpError);
+  expect(backoff.next(httpError)).toBe(320000);
+});
+
+test('rate limit errors back off exponentially starting at one minute', () => {
+  const backoff = new StreamBackoff();
+  expect(backoff.next(rateLimitError)).toBe(60000);
+  expect(backoff.next(rateLimitError)).toBe(120000);
+});
+
+test('reset clears the attempts and delays', () => {
+  const backoff = new StreamBackoff();
+  backoff.next(httpError);
+  backoff.next(httpError);
+  expect(backoff.attempts).toBe(2);
+  backoff.reset();
+  expect(backoff.attempts).toBe(0);
+  expect(backoff.next(httpError)).toBe(5000);
+});
@@ -0,0 +1,102 @@
+import { withMockServer } from '../../__tests__/mockServer';
+import { Client } from '../../client';
+import { TwitterAPIError } from '../../rest/TwitterAPIError';
+import { Tweet } from '../../structures';
+import { TweetStream } from '../TweetStream';
+import type { RequestListener } from 'http';
+import type { Response } from 'undici';
+import type { GetSampledTweetStreamResponse } from 'twitter-types';
+
+class TestStream extends TweetStream<GetSampledTweetStreamResponse> {
+  protected async _request(signal: AbortSignal): Promise<Response> {
+    async function* body() {
+      yield Buffer.from('{"data":{"id":"1","text":"one"}}\r\n{"data":');
+      yield Buffer.from('{"id":"2","text":"two"}}\r\n');
+      if (!signal.aborted) await new Promise(resolve => signal.addEventListener('abort', resolve));
+      throw new Error('aborted');
+    }
+    return { body: body() } as unknown as Response;
+  }
+
+  protected _handle(data: GetSampledTweetStreamResponse): Tweet {
+    return new Tweet(this.client, data);
+  }
+}
+
+test('connect and disconnect a stream', async () => {
+  const stream = new TestStream(new Client(), 'sampled');
+  expect(stream.state).toBe('idle');
+  await stream.connect();
+  expect(stream.state).toBe('connected');
+  await stream.disconnect();
+  expect(stream.state).toBe('idle');
+});
+
+test('iterate over a stream and disconnect on break', async () => {
+  const stream = new TestStream(new Client(), 'sampled');
+  const ids = [];
+  for await (const tweet of stream.iterate()) {
+    ids.push(tweet.id);
+    if (ids.length === 2) break;
+  }
+  expect(ids).toStrictEqual(['1', '2']);
+  expect(stream.state).toBe('idle');
+});
+
+test('disconnect a stream while an iterator stopped reading with a full buffer', async () => {
+  const stream = new TestStream(new Client(), 'sampled');
+  const iterator = stream.iterate({ bufferSize: 1 });
+  await stream.connect();
+  await new Promise(resolve => setImmediate(resolve));
+  await stream.disconnect();
+  expect(stream.state).toBe('idle');
+  expect((await iterator.next()).value?.id).toBe('1');
+  expect(await iterator.next()).toStrictEqual({ value: undefined, done: true });
+});
+
+test('back off for a minute when the stream endpoint responds with 429', async () => {
+  const handler: RequestListener = (req, res) => {
+    res.statusCode = 429;
+    res.setHeader('content-type', 'application/json');
+    res.end(
+      JSON.stringify({
+        title: 'ConnectionException',
+        detail: 'This stream is currently at the maximum allowed connection limit.',
+        connection_issue: 'TooManyConnections',
+        type: 'https://api.twitter.com/2/problems/streaming-connection',
+      }),
+    );
+  };
+  await withMockServer(handler, async ({ client }) => {
+    await client.loginWithBearerToken('bearer-token');
+    const disconnected = new Promise<unknown>(resolve => client.once('streamDisconnect', (_, error) => resolve(error)));
+    const reconnecting = new Promise<number>(resolve =>
+      client.once('streamReconnecting', (_, __, delay) => resolve(delay)),
+    );
+    const connected = client.streams.sampled.connect();
+    const error = await disconnected;
+    expect(error).toBeInstanceOf(TwitterAPIError);
+    expect(error).toMatchObject({ status: 429, connection_issue: 'TooManyConnections' });
+    await expect(reconnecting).resolves.toBe(60000);
+    await client.streams.sampled.disconnect();
+    await connected;
+  });
+});
+
+test('reconnect to a stream that stops sending data', async () => {
+  const client = new Client({ events: [], streams: { stallTimeout: 50 } });
+  const stream = new TestStream(client, 'sampled');
+  const stalled = jest.fn();
+  const disconnected = jest.fn();
+  client.on('streamStall', stalled);
+  client.on('streamDisconnect', disconnected);
+  const reconnected = new Promise<number>(resolve =>
+    client.once('streamReconnected', (_, attempts) => resolve(attempts)),
+  );
+  await stream.connect();
+  await expect(reconnected).resolves.toBe(1);
+  expect(stalled).toHaveBeenCalledWith('sampled');
+  expect(disconnected).toHaveBeenCalledTimes(1);
+  expect(stream.state).toBe('connected');
+  await stream.disconnect();
+});
@@ -0,0 +1,39 @@
+import { Client } from '../../client';
+import { Tweet } from '../../structures';
+import { TweetStreamIterator } from '../TweetStreamIterator';
+
+const client = new Client();
+const createTweet = (id: string) => new Tweet(client, { data: { id, text: id } });
+
+test('push waits for the consumer once the buffer is full', async () => {
+  const iterator = new TweetStreamIterator(1, async () => undefined);
+  let released = false;
+  iterator.push(createTweet('1')).then(() => (released = true));
+  await Promise.resolve();
+  expect(released).toBe(false);
+  expect((await iterator.next()).value?.id).toBe('1');
+  await Promise.resolve();
+  expect(released).toBe(true);
+});
+
+test('next resolves with tweets pushed after it was called', async () => {
+  const iterator = new TweetStreamIterator(10, async () => undefined);
+  const next = iterator.next();
+  await iterator.push(createTweet('1'));
+  expect((await next).value?.id).toBe('1');
+});
+
+test('end rejects the pending read with the error', async () => {
+  const iterator = new TweetStreamIterator(10, async () => undefined);
+  const next = iterator.next();
+  iterator.end(new Error('gave up'));
+  await expect(next).rejects.toThrow('gave up');
+  expect(await iterator.next()).toStrictEqual({ value: undefined, done: true });
+});
+
+test('return calls the return callback', async () => {
+  const onReturn = jest.fn(async () => undefined);
+  const iterator = new TweetStreamIterator(10, onReturn);
+  expect(await iterator.return()).toStrictEqual({ value: undefined, done: true });
+  expect(onReturn).toHaveBeenCalledWith(iterator);
+});
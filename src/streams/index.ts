@@ -0,0 +1,6 @@
+export * from './FilteredTweetStream';
+export * from './SampledTweetStream';
+export * from './StreamBackoff';
+export * from './StreamManager';
+export * from './TweetStream';
+export * from './TweetStreamIterator';
@@ -1,8 +1,15 @@
 import { User } from './User';
-import { BlocksBook, MutesBook } from '../books';
+import { BlocksBook, BookmarksBook, HomeTimelineBook, MutesBook } from '../books';
 import type { Client } from '../client';
 import type { Collection } from '../util';
-import type { FetchBlocksOptions, FetchMutesOptions } from '../typings';
+import type {
+  FetchBlocksOptions,
+  FetchBookmarksOptions,
+  FetchHomeTimelineOptions,
+  FetchMutesOptions,
+  HomeTimelineBookOptions,
+} from '../typings';
+import type { Tweet } from './Tweet';
 import type { SingleUserLookupResponse, Snowflake } from 'twitter-types';
 
 export class ClientUser extends User {
@@ -17,7 +24,7 @@ export class ClientUser extends User {
    */
   async fetchBlocks(options?: FetchBlocksOptions): Promise<[BlocksBook, Collection<Snowflake, User>]> {
     const blocksBook = new BlocksBook(this.client, { userId: this.id, maxResultsPerPage: options?.maxResultsPerPage });
-    const firstPage = await blocksBook.fetchNextPage();
+    const firstPage = await blocksBook.fetchNextPage({ signal: options?.signal });
     return [blocksBook, firstPage];
   }
 
@@ -28,7 +35,59 @@ export class ClientUser extends User {
    */
   async fetchMutes(options?: FetchMutesOptions): Promise<[MutesBook, Collection<Snowflake, User>]> {
     const mutesBook = new MutesBook(this.client, { userId: this.id, maxResultsPerPage: options?.maxResultsPerPage });
-    const firstPage = await mutesBook.fetchNextPage();
+    const firstPage = await mutesBook.fetchNextPage({ signal: options?.signal });
     return [mutesBook, firstPage];
   }
+
+  /**
+   * Fetches tweets bookmarked by the authorized user.
+   *
+   * **Note**: This requires the client to be logged in using {@link Client.loginWithOAuth2}
+   * @param options The options for fetching bookmarked tweets
+   * @returns A tuple containing {@link BookmarksBook} object and a {@link Collection} of {@link Tweet} objects representing the first page
+   */
+  async fetchBookmarks(options?: FetchBookmarksOptions): Promise<[BookmarksBook, Collection<Snowflake, Tweet>]> {
+    const bookmarksBook = new BookmarksBook(this.client, {
+      userId: this.id,
+      maxResultsPerPage: options?.maxResultsPerPage,
+    });
+    const firstPage = await bookmarksBook.fetchNextPage({ signal: options?.signal });
+    return [bookmarksBook, firstPage];
+  }
+
+  /**
+   * Fetches the reverse-chronological home timeline of the authorized user.
+   * @param options The options for fetching the home timeline
+   * @returns A tuple containing {@link HomeTimelineBook} object and a {@link Collection} of {@link Tweet} objects representing the first page
+   */
+  async fetchHomeTimeline(
+    options?: FetchHomeTimelineOptions,
+  ): Promise<[HomeTimelineBook, Collection<Snowflake, Tweet>]> {
+    const bookData: HomeTimelineBookOptions = { userId: this.id };
+    if (options?.afterTweet) {
+      const afterTweetId = this.client.tweets.resolveId(options.afterTweet);
+      if (afterTweetId) bookData.afterTweetId = afterTweetId;
+    }
+    if (options?.beforeTweet) {
+      const beforeTweetId = this.client.tweets.resolveId(options.beforeTweet);
+      if (beforeTweetId) bookData.beforeTweetId = beforeTweetId;
+    }
+    if (options?.afterTime) {
+      const afterTimestamp = new Date(options.afterTime).getTime();
+      if (afterTimestamp) bookData.afterTimestamp = afterTimestamp;
+    }
+    if (options?.beforeTime) {
+      const beforeTimestamp = new Date(options.beforeTime).getTime();
+      if (beforeTimestamp) bookData.beforeTimestamp = beforeTimestamp;
+    }
+    if (options?.exclude) {
+      bookData.exclude = options.exclude;
+    }
+    if (options?.maxResultsPerPage) {
+      bookData.maxResultsPerPage = options.maxResultsPerPage;
+    }
+    const homeTimelineBook = new HomeTimelineBook(this.client, bookData);
+    const firstPage = await homeTimelineBook.fetchNextPage({ signal: options?.signal });
+    return [homeTimelineBook, firstPage];
+  }
 }
@@ -0,0 +1,112 @@
+import { Collection } from '../util';
+import { ConversationThreadNode } from './ConversationThreadNode';
+import type { Tweet } from './Tweet';
+import type { Snowflake } from 'twitter-types';
+
+/**
+ * The class that represents the tree of replies in a conversation, rooted at the tweet that started it
+ */
+export class ConversationThread {
+  /**
+   * The ID of the conversation, which is the ID of the tweet that started it
+   */
+  id: Snowflake;
+
+  /**
+   * The node of the tweet that started the conversation
+   */
+  root: ConversationThreadNode;
+
+  /**
+   * The nodes of all the tweets in the conversation
+   */
+  nodes: Collection<Snowflake, ConversationThreadNode>;
+
+  /**
+   * @param id The ID of the conversation
+   * @param tweets The tweets of the conversation, including the root tweet if it could be fetched
+   */
+  constructor(id: Snowflake, tweets: Collection<Snowflake, Tweet>) {
+    this.id = id;
+    this.nodes = new Collection();
+    this.root = this.#patchNode(id);
+    this.#patchTree(tweets);
+  }
+
+  /**
+   * The number of tweets in the conversation that could be fetched
+   */
+  get size(): number {
+    return this.nodes.filter(node => !node.missing).size;
+  }
+
+  /**
+   * Gets the node of a tweet in the conversation.
+   * @param tweetId The ID of the tweet
+   * @returns The {@link ConversationThreadNode} of the tweet, or `null` if it is not in the conversation
+   */
+  get(tweetId: Snowflake): ConversationThreadNode | null {
+    return this.nodes.get(tweetId) ?? null;
+  }
+
+  /**
+   * Iterates over the nodes of the conversation depth-first, visiting each node before its replies.
+   * @returns An iterator of {@link ConversationThreadNode} objects
+   */
+  depthFirst(): Generator<ConversationThreadNode, void, undefined> {
+    return this.root.depthFirst();
+  }
+
+  /**
+   * Iterates over the nodes of the conversation breadth-first, visiting them level by level.
+   * @returns An iterator of {@link ConversationThreadNode} objects
+   */
+  breadthFirst(): Generator<ConversationThreadNode, void, undefined> {
+    return this.root.breadthFirst();
+  }
+
+  // #### 🚧 PRIVATE METHODS 🚧 ####
+
+  #patchNode(tweetId: Snowflake): ConversationThreadNode {
+    const cachedNode = this.nodes.get(tweetId);
+    if (cachedNode) return cachedNode;
+    const node = new ConversationThreadNode(tweetId);
+    this.nodes.set(tweetId, node);
+    return node;
+  }
+
+  #patchTree(tweets: Collection<Snowflake, Tweet>): void {
+    const sortedTweets = [...tweets.values()].sort((a, b) => ConversationThread.#compareIds(a.id, b.id));
+    for (const tweet of sortedTweets) {
+      this.#patchNode(tweet.id).tweet = tweet;
+    }
+    for (const tweet of sortedTweets) {
+      if (tweet.id === this.id) continue;
+      const parentId = tweet.referencedTweets.find(reference => reference.type === 'replied_to')?.id;
+      const parent = parentId && parentId !== tweet.id ? this.#patchNode(parentId) : this.root;
+      this.#link(parent, this.#patchNode(tweet.id));
+    }
+    // Replies to tweets that could not be fetched hang off a placeholder node, which is attached to the root as
+    // the position of a missing tweet in the thread cannot be known
+    for (const node of this.nodes.values()) {
+      if (node !== this.root && !node.parent) this.#link(this.root, node);
+    }
+    for (const node of this.nodes.values()) {
+      node.children.sort((a, b) => ConversationThread.#compareIds(a.id, b.id));
+    }
+  }
+
+  #link(parent: ConversationThreadNode, child: ConversationThreadNode): void {
+    for (let node: ConversationThreadNode | null = parent; node; node = node.parent) {
+      // Linking a node under one of its own descendants would create a cycle, so it is attached to the root instead
+      if (node === child) return this.#link(this.root, child);
+    }
+    child.parent = parent;
+    parent.children.set(child.id, child);
+  }
+
+  static #compareIds(a: Snowflake, b: Snowflake): number {
+    const difference = BigInt(a) - BigInt(b);
+    return difference > 0n ? 1 : difference < 0n ? -1 : 0;
+  }
+}
@@ -0,0 +1,82 @@
+import { Collection } from '../util';
+import type { Tweet } from './Tweet';
+import type { Snowflake } from 'twitter-types';
+
+/**
+ * The class that represents a tweet in a {@link ConversationThread}, along with its position in the thread
+ */
+export class ConversationThreadNode {
+  /**
+   * The ID of the tweet
+   */
+  id: Snowflake;
+
+  /**
+   * The tweet, or `null` if it could not be fetched because it is missing or has been deleted
+   */
+  tweet: Tweet | null;
+
+  /**
+   * The node of the tweet this tweet is a reply to, or `null` if this is the root of the thread
+   */
+  parent: ConversationThreadNode | null;
+
+  /**
+   * The nodes of the tweets that are replies to this tweet, from oldest to newest
+   */
+  children: Collection<Snowflake, ConversationThreadNode>;
+
+  /**
+   * @param id The ID of the tweet
+   * @param tweet The tweet, if it could be fetched
+   */
+  constructor(id: Snowflake, tweet: Tweet | null = null) {
+    Object.defineProperty(this, 'parent', { writable: true, enumerable: false });
+    this.id = id;
+    this.tweet = tweet;
+    this.parent = null;
+    this.children = new Collection();
+  }
+
+  /**
+   * The number of tweets between this tweet and the root of the thread
+   */
+  get depth(): number {
+    let depth = 0;
+    for (let node = this.parent; node; node = node.parent) depth++;
+    return depth;
+  }
+
+  /**
+   * Whether the tweet could not be fetched because it is missing or has been deleted
+   */
+  get missing(): boolean {
+    return this.tweet === null;
+  }
+
+  /**
+   * Iterates over this node and the nodes under it depth-first, visiting each node before its replies.
+   * @returns An iterator of {@link ConversationThreadNode} objects
+   */
+  *depthFirst(): Generator<ConversationThreadNode, void, undefined> {
+    const stack: Array<ConversationThreadNode> = [this];
+    while (stack.length) {
+      const node = stack.pop() as ConversationThreadNode;
+      yield node;
+      stack.push(...[...node.children.values()].reverse());
+    }
+  }
+
+  /**
+   * Iterates over this node and the nodes under it breadth-first, visiting them level by level.
+   * @returns An iterator of {@link ConversationThreadNode} objects
+   */
+  *breadthFirst(): Generator<ConversationThreadNode, void, undefined> {
+    const queue: Array<ConversationThreadNode> = [this];
+    for (let index = 0; index < queue.length; index++) {
+      const node = queue[index];
+      yield node;
+      queue.push(...node.children.values());
+    }
+  }
+}
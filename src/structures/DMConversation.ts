@@ -0,0 +1,52 @@
+import type { Client } from '../client';
+import type { DMEventsBook } from '../books';
+import type { DMEvent } from './DMEvent';
+import type { DMCreateResponse } from './misc';
+import type { Collection } from '../util';
+import type { DMCreateOptions, FetchDMEventsOptions } from '../typings';
+import type { Snowflake } from 'twitter-types';
+
+/**
+ * The class that represents a direct message conversation of the authorized user
+ */
+export class DMConversation {
+  /**
+   * The instance of {@link Client} that was used to log in
+   */
+  client: Client;
+
+  /**
+   * The unique identifier of the conversation
+   */
+  id: string;
+
+  /**
+   * @param client The logged in {@link Client} instance
+   * @param id The ID of the conversation
+   */
+  constructor(client: Client, id: string) {
+    Object.defineProperty(this, 'client', { writable: true, enumerable: false });
+    this.client = client;
+    this.id = id;
+  }
+
+  /**
+   * Sends a message to this conversation.
+   * @param message The text of the message, or the options for sending it
+   * @returns A {@link DMCreateResponse} object
+   */
+  async send(message: string | DMCreateOptions): Promise<DMCreateResponse> {
+    return this.client.directMessages.sendToConversation(this, message);
+  }
+
+  /**
+   * Fetches the events of this conversation.
+   * @param options The options for fetching the events
+   * @returns A tuple containing {@link DMEventsBook} object and a {@link Collection} of {@link DMEvent} objects representing the first page
+   */
+  async fetchEvents(
+    options?: Omit<FetchDMEventsOptions, 'participant' | 'conversation'>,
+  ): Promise<[DMEventsBook, Collection<Snowflake, DMEvent>]> {
+    return this.client.directMessages.fetchEvents({ ...options, conversation: this });
+  }
+}
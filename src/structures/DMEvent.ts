@@ -0,0 +1,154 @@
+import { Media } from './Media';
+import { Collection } from '../util';
+import { CustomError } from '../errors';
+import { BaseStructure } from './BaseStructure';
+import { DMConversation } from './DMConversation';
+import { SimplifiedUser } from './SimplifiedUser';
+import { SimplifiedTweet } from './SimplifiedTweet';
+import type { Client } from '../client';
+import type { DMCreateResponse } from './misc';
+import type { DMCreateOptions, DMEventData, DMEventType, APIDMEventIncludes } from '../typings';
+import type { Snowflake } from 'twitter-types';
+
+/**
+ * The class that represents an event of a direct message conversation, such as a message or a participant joining it
+ */
+export class DMEvent extends BaseStructure {
+  /**
+   * The type of the event
+   */
+  type: DMEventType;
+
+  /**
+   * The text of the message, if the event is a message
+   */
+  text: string | null;
+
+  /**
+   * The time the event was created at
+   */
+  createdAt: Date | null;
+
+  /**
+   * The ID of the conversation the event belongs to
+   */
+  conversationId: string | null;
+
+  /**
+   * The ID of the user who sent the message, if the event is a message
+   */
+  senderId: Snowflake | null;
+
+  /**
+   * The IDs of the users who joined or left the conversation, if the event is a participant change
+   */
+  participantIds: Array<Snowflake>;
+
+  /**
+   * The IDs of the tweets shared in the message
+   */
+  referencedTweetIds: Array<Snowflake>;
+
+  /**
+   * The keys of the media attached to the message
+   */
+  mediaKeys: Array<string>;
+
+  /**
+   * The user who sent the message
+   */
+  sender: SimplifiedUser | null;
+
+  /**
+   * The users who joined or left the conversation
+   */
+  participants: Collection<Snowflake, SimplifiedUser>;
+
+  /**
+   * The tweets shared in the message
+   */
+  referencedTweets: Collection<Snowflake, SimplifiedTweet>;
+
+  /**
+   * The media attached to the message
+   */
+  media: Collection<string, Media>;
+
+  /**
+   * @param client The logged in {@link Client} instance
+   * @param data The raw data sent by the API for the event, along with the objects it references
+   */
+  constructor(client: Client, data: DMEventData) {
+    super(client, data.data);
+    this.type = data.data.event_type;
+    this.text = data.data.text ?? null;
+    this.createdAt = data.data.created_at ? new Date(data.data.created_at) : null;
+    this.conversationId = data.data.dm_conversation_id ?? null;
+    this.senderId = data.data.sender_id ?? null;
+    this.participantIds = data.data.participant_ids ?? [];
+    this.referencedTweetIds = data.data.referenced_tweets?.map(tweet => tweet.id) ?? [];
+    this.mediaKeys = data.data.attachments?.media_keys ?? [];
+    this.sender = this.#patchSender(data.includes) ?? null;
+    this.participants = this.#patchParticipants(data.includes);
+    this.referencedTweets = this.#patchReferencedTweets(data.includes);
+    this.media = this.#patchMedia(data.includes);
+  }
+
+  /**
+   * The conversation the event belongs to
+   */
+  get conversation(): DMConversation | null {
+    return this.conversationId ? new DMConversation(this.client, this.conversationId) : null;
+  }
+
+  /**
+   * Sends a message to the conversation this event belongs to.
+   * @param message The text of the message, or the options for sending it
+   * @returns A {@link DMCreateResponse} object
+   */
+  async reply(message: string | DMCreateOptions): Promise<DMCreateResponse> {
+    if (!this.conversationId) throw new CustomError('DM_CONVERSATION_RESOLVE_ID', 'reply to');
+    return this.client.directMessages.sendToConversation(this.conversationId, message);
+  }
+
+  // #### 🚧 PRIVATE METHODS 🚧 ####
+
+  #patchSender(includes?: APIDMEventIncludes): SimplifiedUser | undefined {
+    const rawSender = includes?.users?.find(user => user.id === this.senderId);
+    if (!rawSender) return;
+    return new SimplifiedUser(this.client, rawSender);
+  }
+
+  #patchParticipants(includes?: APIDMEventIncludes): Collection<Snowflake, SimplifiedUser> {
+    const participantsCollection = new Collection<Snowflake, SimplifiedUser>();
+    if (!includes?.users) return participantsCollection;
+    for (const participantId of this.participantIds) {
+      const rawParticipant = includes.users.find(user => user.id === participantId);
+      if (!rawParticipant) continue;
+      participantsCollection.set(participantId, new SimplifiedUser(this.client, rawParticipant));
+    }
+    return participantsCollection;
+  }
+
+  #patchReferencedTweets(includes?: APIDMEventIncludes): Collection<Snowflake, SimplifiedTweet> {
+    const referencedTweetsCollection = new Collection<Snowflake, SimplifiedTweet>();
+    if (!includes?.tweets) return referencedTweetsCollection;
+    for (const tweetId of this.referencedTweetIds) {
+      const rawTweet = includes.tweets.find(tweet => tweet.id === tweetId);
+      if (!rawTweet) continue;
+      referencedTweetsCollection.set(tweetId, new SimplifiedTweet(this.client, rawTweet));
+    }
+    return referencedTweetsCollection;
+  }
+
+  #patchMedia(includes?: APIDMEventIncludes): Collection<string, Media> {
+    const mediaCollection = new Collection<string, Media>();
+    if (!includes?.media) return mediaCollection;
+    for (const mediaKey of this.mediaKeys) {
+      const rawMedia = includes.media.find(media => media.media_key === mediaKey);
+      if (!rawMedia) continue;
+      mediaCollection.set(mediaKey, new Media(this.client, rawMedia));
+    }
+    return mediaCollection;
+  }
+}
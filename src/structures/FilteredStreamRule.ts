@@ -1,5 +1,8 @@
 import { BaseStructure } from './BaseStructure';
+import { testQuery } from '../util';
+import type { Tweet } from './Tweet';
 import type { Client } from '../client';
+import type { QueryTestResult } from '../typings';
 import type { APIFilteredTweetStreamRule } from 'twitter-types';
 
 export class FilteredStreamRule extends BaseStructure {
@@ -15,4 +18,13 @@ export class FilteredStreamRule extends BaseStructure {
     this.tag = data.tag ?? null;
     this.value = data.value;
   }
+
+  /**
+   * Tests a tweet against this rule locally, to explain which of its clauses a tweet matched.
+   * @param tweet The tweet to test
+   * @returns A {@link QueryTestResult} object
+   */
+  test(tweet: Tweet): QueryTestResult {
+    return testQuery(this.value, tweet);
+  }
 }
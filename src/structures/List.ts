@@ -1,6 +1,18 @@
 import { BaseStructure } from './BaseStructure';
+import { SimplifiedUser } from './SimplifiedUser';
+import type { User } from './User';
+import type { Tweet } from './Tweet';
 import type { Client } from '../client';
-import type { APIList } from 'twitter-types';
+import type { Collection } from '../util';
+import type { ListFollowersBook, ListMembersBook, ListTweetsBook } from '../books';
+import type {
+  FetchListFollowersOptions,
+  FetchListMembersOptions,
+  FetchListTweetsOptions,
+  ListData,
+  RequestOptions,
+} from '../typings';
+import type { APIUser, Snowflake } from 'twitter-types';
 
 export class List extends BaseStructure {
   /**
@@ -18,14 +30,125 @@ export class List extends BaseStructure {
    */
   private: boolean | null;
 
+  /**
+   * The ID of the user who owns the list
+   */
+  ownerId: Snowflake | null;
+
+  /**
+   * The user who owns the list
+   */
+  owner: SimplifiedUser | null;
+
+  /**
+   * The number of users who are members of the list
+   */
+  memberCount: number | null;
+
+  /**
+   * The number of users who follow the list
+   */
+  followerCount: number | null;
+
+  /**
+   * The time the list was created at
+   */
+  createdAt: Date | null;
+
   /**
    * @param client The logged in {@link Client} instance
    * @param data The raw data sent by the API for the list
    */
-  constructor(client: Client, data: APIList) {
-    super(client, data);
-    this.name = data.name;
-    this.description = data.description ?? null;
-    this.private = data.private ?? null;
+  constructor(client: Client, data: ListData) {
+    super(client, data.data);
+    this.name = data.data.name;
+    this.description = data.data.description ?? null;
+    this.private = data.data.private ?? null;
+    this.ownerId = data.data.owner_id ?? null;
+    this.owner = this.#patchOwner(data.includes?.users) ?? null;
+    this.memberCount = data.data.member_count ?? null;
+    this.followerCount = data.data.follower_count ?? null;
+    this.createdAt = data.data.created_at ? new Date(data.data.created_at) : null;
+  }
+
+  /**
+   * Fetches the members of this list.
+   * @param options The options for fetching the members
+   * @returns A tuple containing {@link ListMembersBook} object and a {@link Collection} of {@link User} objects representing the first page
+   */
+  async fetchMembers(options?: FetchListMembersOptions): Promise<[ListMembersBook, Collection<Snowflake, User>]> {
+    return this.client.lists.fetchMembers(this, options);
+  }
+
+  /**
+   * Fetches the followers of this list.
+   * @param options The options for fetching the followers
+   * @returns A tuple containing {@link ListFollowersBook} object and a {@link Collection} of {@link User} objects representing the first page
+   */
+  async fetchFollowers(options?: FetchListFollowersOptions): Promise<[ListFollowersBook, Collection<Snowflake, User>]> {
+    return this.client.lists.fetchFollowers(this, options);
+  }
+
+  /**
+   * Fetches the tweets of the members of this list.
+   * @param options The options for fetching the tweets
+   * @returns A tuple containing {@link ListTweetsBook} object and a {@link Collection} of {@link Tweet} objects representing the first page
+   */
+  async fetchTweets(options?: FetchListTweetsOptions): Promise<[ListTweetsBook, Collection<Snowflake, Tweet>]> {
+    return this.client.lists.fetchTweets(this, options);
+  }
+
+  /**
+   * Follows this list.
+   * @param options The options for the request
+   * @returns A boolean representing whether the authorized user followed the list
+   */
+  async follow(options?: RequestOptions): Promise<boolean> {
+    return this.client.lists.follow(this, options);
+  }
+
+  /**
+   * Unfollows this list.
+   * @param options The options for the request
+   * @returns A boolean representing whether the authorized user unfollowed the list
+   */
+  async unfollow(options?: RequestOptions): Promise<boolean> {
+    return this.client.lists.unfollow(this, options);
+  }
+
+  /**
+   * Pins this list.
+   * @param options The options for the request
+   * @returns A boolean representing whether the authorized user pinned the list
+   */
+  async pin(options?: RequestOptions): Promise<boolean> {
+    return this.client.lists.pin(this, options);
+  }
+
+  /**
+   * Unpins this list.
+   * @param options The options for the request
+   * @returns A boolean representing whether the authorized user unpinned the list
+   */
+  async unpin(options?: RequestOptions): Promise<boolean> {
+    return this.client.lists.unpin(this, options);
+  }
+
+  /**
+   * Deletes this list.
+   * @param options The options for the request
+   * @returns A boolean representing whether the list has been deleted
+   */
+  async delete(options?: RequestOptions): Promise<boolean> {
+    return this.client.lists.delete(this, options);
+  }
+
+  // #### 🚧 PRIVATE METHODS 🚧 ####
+
+  #patchOwner(users?: Array<APIUser>): SimplifiedUser | undefined {
+    if (!users) return;
+    const rawOwner = users.find(user => user.id === this.ownerId);
+    if (!rawOwner) return;
+    return new SimplifiedUser(this.client, rawOwner);
   }
 }
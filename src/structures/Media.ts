@@ -1,6 +1,7 @@
 import { MediaNonPublicMetrics, MediaOrganicMetrics, MediaPromotedMetrics, MediaPublicMetrics } from './misc';
 import type { Client } from '../client';
-import type { APIMedia, APIMediaType } from 'twitter-types';
+import type { APIMedia, APIMediaType, Snowflake } from 'twitter-types';
+import type { RequestOptions } from '../typings';
 
 /**
  * The class that represents a media content in a {@link Tweet}
@@ -16,6 +17,11 @@ export class Media {
    */
   id: string;
 
+  /**
+   * The ID used for attaching the media to tweets
+   */
+  mediaId: Snowflake;
+
   type: APIMediaType;
 
   duration: number | null;
@@ -40,6 +46,8 @@ export class Media {
     Object.defineProperty(this, 'client', { writable: true, enumerable: false });
     this.client = client;
     this.id = data.media_key;
+    // Media keys are made of a numeric prefix for the type of the media followed by its ID
+    this.mediaId = data.media_key.slice(data.media_key.indexOf('_') + 1) as Snowflake;
     this.type = data.type;
     this.duration = data.duration_ms ?? null;
     this.height = data.height ?? null;
@@ -51,4 +59,14 @@ export class Media {
     this.url = data.url ?? null;
     this.width = data.width ?? null;
   }
+
+  /**
+   * Sets the alternative text of the media for accessibility. Only media uploaded by the authorized user can be edited.
+   * @param altText The alternative text, up to 1000 characters
+   * @param options The options for the request
+   * @returns A promise that resolves once the alternative text is set
+   */
+  async setAltText(altText: string, options?: RequestOptions): Promise<void> {
+    return this.client.media.createMetadata(this, altText, options);
+  }
 }
@@ -12,10 +12,16 @@ import {
   TweetWithheld,
 } from './misc';
 import type { User } from './User';
+import type { Tweet } from './Tweet';
+import type { ConversationThread } from './ConversationThread';
 import type { Client } from '../client';
+import type { QuoteTweetsBook } from '../books';
+import type { FetchQuoteTweetsOptions } from '../typings';
 import type { Collection } from '../util';
 import type {
+  TweetBookmarkResponse,
   TweetLikeResponse,
+  TweetUnbookmarkResponse,
   TweetUnlikeResponse,
   TweetReplyHideUnhideResponse,
   RetweetResponse,
@@ -175,6 +181,22 @@ export class SimplifiedTweet extends BaseStructure {
     return this.client.tweets.unlike(this.id);
   }
 
+  /**
+   * Bookmarks this tweet.
+   * @returns A {@link TweetBookmarkResponse} object
+   */
+  async bookmark(): Promise<TweetBookmarkResponse> {
+    return this.client.tweets.bookmark(this.id);
+  }
+
+  /**
+   * Removes the bookmark of this tweet.
+   * @returns A {@link TweetUnbookmarkResponse} object
+   */
+  async unbookmark(): Promise<TweetUnbookmarkResponse> {
+    return this.client.tweets.unbookmark(this.id);
+  }
+
   /**
    * Hides this tweet from the tweet replies section.
    *
@@ -221,6 +243,23 @@ export class SimplifiedTweet extends BaseStructure {
     return this.client.tweets.fetchRetweetedBy(this.id) as Promise<Collection<Snowflake, User>>;
   }
 
+  /**
+   * Fetches tweets that quote this tweet.
+   * @param options The options for fetching quote tweets
+   * @returns A tuple containing {@link QuoteTweetsBook} object and a {@link Collection} of {@link Tweet} objects representing the first page
+   */
+  async fetchQuoteTweets(options?: FetchQuoteTweetsOptions): Promise<[QuoteTweetsBook, Collection<Snowflake, Tweet>]> {
+    return this.client.tweets.fetchQuoteTweets(this.id, options);
+  }
+
+  /**
+   * Fetches the conversation this tweet is part of as a thread of replies.
+   * @returns A {@link ConversationThread} object rooted at the tweet that started the conversation
+   */
+  async fetchConversation(): Promise<ConversationThread> {
+    return this.client.tweets.fetchConversation(this);
+  }
+
   // #### 🚧 PRIVATE METHODS 🚧 ####
 
   /**
@@ -56,6 +56,12 @@ export class TweetPayload {
       : undefined;
   }
 
+  resolveDirectMessageDeepLink(): string | undefined {
+    const deepLink = this.options.directMessageDeepLink;
+    if (!deepLink || typeof deepLink === 'string') return deepLink;
+    return this.client.directMessages.createDeepLink(deepLink);
+  }
+
   resolveData(): PostTweetCreateJSONBody {
     const text = this.options.text;
 
@@ -64,7 +70,7 @@ export class TweetPayload {
 
     const data: PostTweetCreateJSONBody = {
       text,
-      direct_message_deep_link: this.options.directMessageDeepLink,
+      direct_message_deep_link: this.resolveDirectMessageDeepLink(),
       for_super_followers_only: this.options.forSuperFollowersOnly,
       geo: this.resolveGeo(this.options.geo),
       media: this.resolveMedia(this.options.media),
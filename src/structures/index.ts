@@ -1,6 +1,10 @@
 export * from './misc';
 export * from './BaseStructure';
 export * from './ClientUser';
+export * from './ConversationThread';
+export * from './ConversationThreadNode';
+export * from './DMConversation';
+export * from './DMEvent';
 export * from './FilteredStreamRule';
 export * from './List';
 export * from './Media';
@@ -1,5 +1,10 @@
 import { CustomError } from '../../errors';
-import type { ClientCredentialsInterface, RequestDataOptions } from '../../typings';
+import type {
+  BookmarkResponse,
+  ClientCredentialsInterface,
+  PostDMMessageResponse,
+  RequestDataOptions,
+} from '../../typings';
 import type {
   APIPlaceGeo,
   APIPlaceGeoBoundingBox,
@@ -52,11 +57,35 @@ export class RequestData<Q = undefined, B = undefined> {
    */
   isUserContext?: boolean;
 
+  /**
+   * The signal for aborting the request
+   */
+  signal?: AbortSignal;
+
+  /**
+   * The name of the provider to authorize the request with
+   */
+  authProvider?: string;
+
+  /**
+   * The base URL to make the request to, including the version of the API
+   */
+  baseURL?: string;
+
+  /**
+   * Whether a successful response carrying only errors is returned instead of rejecting with the first one
+   */
+  allowPartialErrors?: boolean;
+
   constructor(data: RequestDataOptions<Q, B>) {
     this.query = data.query;
     this.body = data.body;
     this.isStreaming = data.isStreaming;
     this.isUserContext = data.isUserContext;
+    this.signal = data.signal;
+    this.authProvider = data.authProvider;
+    this.baseURL = data.baseURL;
+    this.allowPartialErrors = data.allowPartialErrors;
   }
 }
 
@@ -237,6 +266,26 @@ export class UserUnmuteResponse {
   }
 }
 
+/**
+ * A class that represents the data returned when the authorized user sends a direct message
+ */
+export class DMCreateResponse {
+  /**
+   * The ID of the conversation the message was sent to
+   */
+  conversationId: string;
+
+  /**
+   * The ID of the event of the sent message
+   */
+  eventId: Snowflake;
+
+  constructor(data: PostDMMessageResponse) {
+    this.conversationId = data.data.dm_conversation_id;
+    this.eventId = data.data.dm_event_id;
+  }
+}
+
 /**
  * A class that represents the data returned when the authorized user likes a target tweet
  */
@@ -265,6 +314,34 @@ export class TweetUnlikeResponse {
   }
 }
 
+/**
+ * A class that represents the data returned when the authorized user bookmarks a target tweet
+ */
+export class TweetBookmarkResponse {
+  /**
+   * Whether the authorized user has bookmarked the target tweet
+   */
+  bookmarked: boolean;
+
+  constructor(data: BookmarkResponse) {
+    this.bookmarked = data.data.bookmarked;
+  }
+}
+
+/**
+ * A class that represents the data returned when the authorized user removes the bookmark of a target tweet
+ */
+export class TweetUnbookmarkResponse {
+  /**
+   * Whether the authorized user has bookmarked the target tweet
+   */
+  bookmarked: boolean;
+
+  constructor(data: BookmarkResponse) {
+    this.bookmarked = data.data.bookmarked;
+  }
+}
+
 /**
  * A class that represents the data returned when the authorized user hides or unhides a target tweet reply
  */
@@ -1,10 +1,36 @@
 import type { Client } from '../client';
-import type { FilteredStreamRuleResolvable } from './Types';
+import type { FormData } from 'undici';
+import type {
+  FilteredStreamRuleResolvable,
+  QueryLintIssueCode,
+  QueryNode,
+  QueryTarget,
+  QueryTermType,
+  SearchQuery,
+} from './Types';
 import type { ClientEvents, Collection } from '../util';
-import type { Tweet, RequestData, MatchingRule } from '../structures';
-import type { TweetResolvable, UserResolvable, SpaceResolvable } from './Types';
+import type { Tweet, RequestData, MatchingRule, User, SimplifiedUser, FilteredStreamRule } from '../structures';
+import type {
+  TweetResolvable,
+  UserResolvable,
+  SpaceResolvable,
+  OAuth2Scope,
+  MediaAttachment,
+  MediaCategory,
+  DMConversationResolvable,
+  DMEventExpansionsParameter,
+  DMEventFieldsParameter,
+  DMEventType,
+  ListExpansionsParameter,
+  ListFieldsParameter,
+  ListResolvable,
+} from './Types';
 import type {
+  APIList,
+  APIMedia,
+  APITweet,
   APITweetReplySettings,
+  APIUser,
   Granularity,
   MediaFieldsParameter,
   PlaceFieldsParameter,
@@ -19,6 +45,43 @@ import type {
   UserFieldsParameter,
 } from 'twitter-types';
 
+/**
+ * The strategy for authorizing the requests made to the API
+ */
+export interface AuthProvider {
+  /**
+   * Decorates an outgoing request with its authorization, such as by setting its `Authorization` header.
+   * @param request The request to authorize
+   */
+  authorize(request: AuthRequest): void | Promise<void>;
+}
+
+/**
+ * The request passed to an {@link AuthProvider} for authorizing it
+ */
+export interface AuthRequest {
+  /**
+   * The HTTP method of the request
+   */
+  method: string;
+
+  /**
+   * The URL of the request including its query string. Providers can change it, to route the request through
+   * a signing proxy for example
+   */
+  url: string;
+
+  /**
+   * The headers of the request
+   */
+  headers: Record<string, string>;
+
+  /**
+   * The body of the request, if any. JSON bodies are serialized, while multipart bodies are passed as `FormData`
+   */
+  body?: string | FormData;
+}
+
 /**
  * The options for the API in use
  */
@@ -32,12 +95,17 @@ export interface ApiOptions {
    * The base URL of the API
    */
   baseURL: string;
+
+  /**
+   * The base URL of the media upload API, including its version
+   */
+  uploadURL?: string;
 }
 
 /**
  * The common optional options to provide while fetching a content
  */
-export interface BaseFetchOptions {
+export interface BaseFetchOptions extends RequestOptions {
   /**
    * Whether to skip cache check for the requested content and fetch from the API directly
    */
@@ -60,10 +128,20 @@ export interface ClientCredentialsInterface {
 
 export interface ClientEventsMapping {
   filteredTweetCreate: [tweet: Tweet, matchingRules: Collection<Snowflake, MatchingRule>];
+  homeTimelinePollError: [error: unknown];
+  homeTimelineTweetCreate: [tweet: Tweet];
   keepAliveSignal: [stream: 'sampled' | 'filtered'];
+  oauth2TokenRefresh: [token: OAuth2TokenData];
   partialError: [partialError: Record<string, unknown>];
+  rateLimited: [rateLimitData: RateLimitData];
   ready: [client: Client];
+  retry: [retryData: RetryData];
   sampledTweetCreate: [tweet: Tweet];
+  streamDisconnect: [stream: 'sampled' | 'filtered', error: unknown];
+  streamParseError: [stream: 'sampled' | 'filtered', payload: string, error: unknown];
+  streamStall: [stream: 'sampled' | 'filtered'];
+  streamReconnected: [stream: 'sampled' | 'filtered', attempts: number];
+  streamReconnecting: [stream: 'sampled' | 'filtered', attempt: number, delay: number];
 }
 
 /**
@@ -75,6 +153,11 @@ export interface ClientOptions {
    */
   api?: ApiOptions;
 
+  /**
+   * The options for the REST API requests
+   */
+  rest?: RESTOptions;
+
   /**
    * The options provided for query of an API request
    */
@@ -84,6 +167,11 @@ export interface ClientOptions {
    * The options for selecting what events should be fired
    */
   events: Array<keyof typeof ClientEvents>;
+
+  /**
+   * The options for the tweet streams
+   */
+  streams?: StreamOptions;
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -203,355 +291,907 @@ export interface SearchSpacesOptions extends Omit<BaseFetchOptions, 'skipCacheCh
   maxResults?: number;
 }
 
-export interface QueryParameters {
-  userFields?: Array<UserFieldsParameter>;
-  tweetFields?: Array<TweetFieldsParameter>;
-  spaceFields?: Array<SpaceFieldsParameter>;
-  mediaFields?: Array<MediaFieldsParameter>;
-  placeFields?: Array<PlaceFieldsParameter>;
-  pollFields?: Array<PollFieldsParameter>;
-  tweetExpansions?: Array<TweetExpansionsParameter>;
-  userExpansions?: Array<UserExpansionsParameter>;
-  spaceExpansions?: Array<SpaceExpansionsParameter>;
-}
-
-export interface StructureConstructable<T> {
-  // eslint-disable-next-line
-  new(...args: any[]): T;
-}
-
-export interface TwitterjsErrorConstructor {
-  // eslint-disable-next-line
-  new(key: string, ...args: Array<unknown>): Error;
-}
-
 /**
- * The options used to add a new filtered tweet stream rule
+ * The options used to create an {@link OAuth2Helper}
  */
-export interface FilteredStreamRuleData {
+export interface OAuth2HelperOptions {
   /**
-   * The value of the rule
+   * The client ID of the app
    */
-  value: string;
+  clientId: string;
 
   /**
-   * The label of the rule
+   * The client secret of the app, required only for confidential clients
    */
-  tag?: string;
-}
+  clientSecret?: string;
 
-export interface RequestDataOptions<Q, B> {
   /**
-   * The query for the request
+   * The URL to redirect the user to after they authorize the app. This should match one of the callback URLs of the app
    */
-  query?: Q;
+  redirectURI: string;
 
   /**
-   * The body for the request
+   * The scopes to request by default. Include `offline.access` to receive a refresh token
    */
-  body?: B;
+  scopes?: Array<OAuth2Scope>;
 
   /**
-   * Whether the request results in a persisent http connection
+   * The URL of the page where the user authorizes the app, defaults to {@link OAuth2URLs.AUTHORIZE}
    */
-  isStreaming?: boolean;
+  authorizeURL?: string;
 
   /**
-   * Whether the request should be authorized with user context authorization
+   * The URL of the endpoint that issues the tokens, defaults to {@link OAuth2URLs.TOKEN}
    */
-  isUserContext?: boolean;
+  tokenURL?: string;
+
+  /**
+   * The time in milliseconds before the expiry of the access token at which it gets refreshed, defaults to `60000`
+   */
+  refreshThreshold?: number;
 }
 
 /**
- * The options used to fetch users blocked by the authorized user
+ * The options used to generate the URL for authorizing an app
  */
-export interface FetchBlocksOptions {
+export interface OAuth2AuthURLOptions {
   /**
-   * The maximum number of users to fetch per page
+   * The scopes to request, overriding {@link OAuth2HelperOptions.scopes}
    */
-  maxResultsPerPage?: number;
+  scopes?: Array<OAuth2Scope>;
+
+  /**
+   * The value used to verify the redirect of the user, a random one is generated if not provided
+   */
+  state?: string;
 }
 
 /**
- * The options used to fetch users muted by the authorized user
+ * The data generated for authorizing an app
  */
-export interface FetchMutesOptions {
+export interface OAuth2AuthURLData {
   /**
-   * The maximum number of users to fetch per page
+   * The URL to send the user to for authorizing the app
    */
-  maxResultsPerPage?: number;
-}
+  url: string;
 
-export interface BookOptions {
   /**
-   * The ID of the user to create the book for
+   * The state sent in the URL, which should match the one in the redirect of the user
    */
-  userId: Snowflake;
+  state: string;
 
   /**
-   * The maximum number of results to fetch per page
+   * The code verifier of the URL, required for exchanging the authorization code for a token
    */
-  maxResultsPerPage?: number;
+  codeVerifier: string;
 }
 
 /**
- * The options used to fetch tweets composed by a twitter user
+ * The token issued to an app on behalf of a user through OAuth 2.0
  */
-export interface FetchComposedTweetsOptions {
+export interface OAuth2TokenData {
   /**
-   * Fetch tweets that were created after this point in time
+   * The token for making requests on behalf of the user
    */
-  afterTime?: Date | number;
+  accessToken: string;
 
   /**
-   * Fetch tweets that were created before this point in time
+   * The token for getting a new access token once it expires, `null` if `offline.access` was not requested
    */
-  beforeTime?: Date | number;
+  refreshToken: string | null;
 
   /**
-   * Fetch tweets that were created after this tweet
+   * The time at which the access token expires
    */
-  afterTweet?: TweetResolvable;
+  expiresAt: Date;
 
   /**
-   * Fetch tweets that were created before this tweet
+   * The scopes granted by the user
    */
-  beforeTweet?: TweetResolvable;
+  scopes: Array<OAuth2Scope>;
+}
+
+export interface QueryParameters {
+  userFields?: Array<UserFieldsParameter>;
+  tweetFields?: Array<TweetFieldsParameter>;
+  spaceFields?: Array<SpaceFieldsParameter>;
+  mediaFields?: Array<MediaFieldsParameter>;
+  placeFields?: Array<PlaceFieldsParameter>;
+  pollFields?: Array<PollFieldsParameter>;
+  tweetExpansions?: Array<TweetExpansionsParameter>;
+  userExpansions?: Array<UserExpansionsParameter>;
+  spaceExpansions?: Array<SpaceExpansionsParameter>;
+  dmEventFields?: Array<DMEventFieldsParameter>;
+  dmEventExpansions?: Array<DMEventExpansionsParameter>;
+  listFields?: Array<ListFieldsParameter>;
+  listExpansions?: Array<ListExpansionsParameter>;
+}
+
+/**
+ * The options for the REST API requests
+ */
+export interface RESTOptions {
+  /**
+   * Whether to throw a {@link RateLimitError} instead of waiting for the rate limit of a route to reset
+   */
+  rejectOnRateLimit: boolean;
 
   /**
-   * The types of tweet to exclude from fetching
+   * The time in milliseconds after which a request is aborted with a {@link RequestAbortedError}.
+   * Set to `0` to disable the timeout. Streaming connections are not affected by this option
+   *
+   * **Note**: Timed out requests are retried like network errors, following {@link RESTOptions.retry}
    */
-  exclude?: Array<TweetTypeExcludesRequestParameter>;
+  timeout: number;
 
   /**
-   * The maximum number of tweets to fetch per page
+   * The options for retrying requests that failed due to network errors or transient API errors
    */
-  maxResultsPerPage?: number;
+  retry: RetryOptions;
 }
 
 /**
- * The options used to create a {@link ComposedTweetsBook} object for a user
+ * The options for retrying failed requests
  */
-export interface ComposedTweetsBookOptions extends BookOptions {
+export interface RetryOptions {
   /**
-   * Return tweets that were created after this timestamp
+   * The maximum number of times to retry a failed request. Set to `0` to disable retries
    */
-  afterTimestamp?: number;
+  maxRetries: number;
 
   /**
-   * Return tweets that were created before this timestamp
+   * The delay in milliseconds before the first retry, doubled on every subsequent retry
    */
-  beforeTimestamp?: number;
+  baseDelay: number;
 
   /**
-   * The types of tweets to exclude
+   * The maximum delay in milliseconds between two retries
    */
-  exclude?: Array<TweetTypeExcludesRequestParameter>;
+  maxDelay: number;
 
   /**
-   * Return tweets that were created after this tweet ID
+   * The HTTP status codes of the responses to retry
    */
-  afterTweetId?: Snowflake;
+  statusCodes: Array<number>;
 
   /**
-   * Return tweets that were created before this tweet ID
+   * The HTTP methods of the requests to retry. Only idempotent methods are retried by default, add `post` to
+   * also retry requests like {@link TweetManager.create}, at the risk of performing the action twice
    */
-  beforeTweetId?: Snowflake;
+  methods: Array<string>;
 }
 
 /**
- * The options used to create a {@link MentionsBook} object
+ * The data about a failed request that is about to be retried
  */
-export interface MentionsBookOptions extends BookOptions {
+export interface RetryData {
   /**
-   * Return tweets that were created after this timestamp
+   * The route of the request
    */
-  afterTimestamp?: number;
+  route: string;
 
   /**
-   * Return tweets that were created before this timestamp
+   * The HTTP method of the request
    */
-  beforeTimestamp?: number;
+  method: string;
 
   /**
-   * Return tweets that were created after this tweet ID
+   * The number of the upcoming retry, starting at `1`
    */
-  afterTweetId?: Snowflake;
+  attempt: number;
 
   /**
-   * Return tweets that were created before this tweet ID
+   * The time in milliseconds to wait before the retry
    */
-  beforeTweetId?: Snowflake;
+  delay: number;
+
+  /**
+   * The error the request failed with
+   */
+  error: unknown;
 }
 
 /**
- * The options used to fetch tweets that mention a given user
+ * The data about a request that hit the rate limit of its route
  */
-export interface FetchMentionsOptions {
+export interface RateLimitData {
   /**
-   * Fetch tweets that were created after this point in time
+   * The route of the request
    */
-  afterTime?: Date | number;
+  route: string;
 
   /**
-   * Fetch tweets that were created before this point in time
+   * The HTTP method of the request
    */
-  beforeTime?: Date | number;
+  method: string;
 
   /**
-   * Fetch tweets that were created after this tweet
+   * The maximum number of requests allowed in the rate limit window, `-1` if unknown
    */
-  afterTweet?: TweetResolvable;
+  limit: number;
 
   /**
-   * Fetch tweets that were created before this tweet
+   * The number of requests remaining in the rate limit window, `-1` if unknown
    */
-  beforeTweet?: TweetResolvable;
+  remaining: number;
 
   /**
-   * The maximum number of tweets to fetch per page
+   * The time at which the rate limit window resets
    */
-  maxResultsPerPage?: number;
+  reset: Date;
+
+  /**
+   * The time in milliseconds until the rate limit window resets
+   */
+  timeout: number;
 }
 
 /**
- * The options used to create a {@link SearchTweetsBook} object
+ * The state of the rate limit bucket of an endpoint
  */
-export interface SearchTweetsBookOptions {
-  query: string;
+export interface RateLimitBucketData {
+  /**
+   * The route of the endpoint
+   */
+  route: string;
 
   /**
-   * Return tweets that were created after this timestamp
+   * The HTTP method of the endpoint
    */
-  afterTimestamp?: number;
+  method: string;
 
   /**
-   * Return tweets that were created before this timestamp
+   * The maximum number of requests allowed in the current rate limit window, `-1` if unknown
    */
-  beforeTimestamp?: number;
+  limit: number;
 
   /**
-   * Return tweets that were created after this tweet ID
+   * The number of requests remaining in the current rate limit window, `-1` if unknown
    */
-  afterTweetId?: Snowflake;
+  remaining: number;
 
   /**
-   * Return tweets that were created before this tweet ID
+   * The time at which the current rate limit window resets, `null` if unknown
    */
-  beforeTweetId?: Snowflake;
+  reset: Date | null;
 
   /**
-   * The maximum number of results to fetch per page
+   * Whether the rate limit has been exhausted for the current window
    */
-  maxResultsPerPage?: number;
-}
+  limited: boolean;
 
-/**
- * The options used to fetch tweets using query
- */
-export interface SearchTweetsOptions {
   /**
-   * Fetch tweets that were created after this point in time
+   * The number of requests that are queued or in progress for the endpoint
    */
-  afterTime?: Date | number;
+  queued: number;
+}
 
+/**
+ * The options for the tweet streams
+ */
+export interface StreamOptions {
   /**
-   * Fetch tweets that were created before this point in time
+   * Whether to reconnect to a stream after it gets disconnected
    */
-  beforeTime?: Date | number;
+  autoReconnect: boolean;
 
   /**
-   * Fetch tweets that were created after this tweet
+   * The maximum number of consecutive reconnection attempts before giving up on a stream
    */
-  afterTweet?: TweetResolvable;
+  maxReconnectAttempts: number;
 
   /**
-   * Fetch tweets that were created before this tweet
+   * The time in milliseconds to wait for any data or keep-alive signal before considering a stream stalled
+   * and reconnecting to it. Set to `0` to disable stall detection
    */
-  beforeTweet?: TweetResolvable;
+  stallTimeout: number;
 
   /**
-   * The maximum number of tweets to fetch per page
+   * The number of minutes of tweets to recover when reconnecting to the filtered stream, between `1` and `5`.
+   * Set to `0` to disable backfilling
+   *
+   * **Note**: This requires Academic Research access to the API
    */
-  maxResultsPerPage?: number;
+  backfillMinutes: number;
 }
 
 /**
- * The options used to create a {@link TweetsCountBook} object
+ * The options used to iterate over the tweets of a stream
  */
-export interface TweetsCountBookOptions {
+export interface TweetStreamIteratorOptions {
   /**
-   * The query for matching tweets
+   * The maximum number of tweets to buffer while waiting for the consumer, defaults to `100`
    */
-  query: string;
+  bufferSize?: number;
+}
+
+export interface StructureConstructable<T> {
+  // eslint-disable-next-line
+  new(...args: any[]): T;
+}
+
+export interface TwitterjsErrorConstructor {
+  // eslint-disable-next-line
+  new(key: string, ...args: Array<unknown>): Error;
+}
 
+/**
+ * The options used to add a new filtered tweet stream rule
+ */
+export interface FilteredStreamRuleData {
   /**
-   * Match tweets that were created after this timestamp
+   * The value of the rule
    */
-  afterTimestamp?: number;
+  value: SearchQuery;
 
   /**
-   * Match tweets that were created before this timestamp
+   * The label of the rule
    */
-  beforeTimestamp?: number;
+  tag?: string;
+}
 
+export interface RequestDataOptions<Q, B> {
   /**
-   * The granularity of the {@link TweetCountBucket}
+   * The query for the request
    */
-  granularity?: Granularity;
+  query?: Q;
 
   /**
-   * Match tweets that were created after this tweet ID
+   * The body for the request
    */
-  afterTweetId?: Snowflake;
+  body?: B;
 
   /**
-   * Match tweets that weere created before this tweet ID
+   * Whether the request results in a persisent http connection
    */
-  beforeTweetId?: Snowflake;
-}
+  isStreaming?: boolean;
 
-/**
- * The options for fetching tweets count matching a query
- */
-export interface CountTweetsOptions {
   /**
-   * Match tweets that were created after this point in time
+   * Whether the request should be authorized with user context authorization
    */
-  afterTime?: Date | number;
+  isUserContext?: boolean;
 
   /**
-   * Match tweets that were created before this point in time
+   * The signal for aborting the request
    */
-  beforeTime?: Date | number;
+  signal?: AbortSignal;
 
   /**
-   * Match tweets that were created after this tweet
+   * The name of the provider in {@link Client.authProviders} to authorize the request with, overriding the one
+   * picked based on {@link RequestDataOptions.isUserContext}
    */
-  afterTweet?: TweetResolvable;
+  authProvider?: string;
 
   /**
-   * Match tweets that were created before this tweet
+   * The base URL to make the request to including the version of the API, for endpoints outside of the
+   * default version such as the media upload ones
    */
-  beforeTweet?: TweetResolvable;
+  baseURL?: string;
 
   /**
-   * The granularity of the {@link TweetCountBucket}
+   * Whether a successful response carrying only errors is returned instead of rejecting with the first one, for
+   * endpoints reporting the errors of each item they were sent such as the stream rules one
    */
-  granularity?: Granularity;
+  allowPartialErrors?: boolean;
 }
 
 /**
- * The data to instantiate {@link BaseStructure} with
+ * The common optional options to provide while making a request
  */
-export interface BaseStructureData {
-  id: Snowflake;
+export interface RequestOptions {
+  /**
+   * The signal for aborting the request, which then rejects with a {@link RequestAbortedError}
+   */
+  signal?: AbortSignal;
 }
 
 /**
- * The options used for creating a new list
+ * The options used to send a direct message
  */
-export interface CreateListOptions {
+export interface DMCreateOptions extends RequestOptions {
+  /**
+   * The text of the message
+   */
+  text?: string;
+
+  /**
+   * The media to attach to the message. Media that has not been uploaded yet gets uploaded before sending the message
+   */
+  media?: Array<MediaAttachment>;
+}
+
+/**
+ * The options used to fetch the events of direct message conversations
+ */
+export interface FetchDMEventsOptions extends RequestOptions {
+  /**
+   * The user whose one-to-one conversation with the authorized user to fetch the events of
+   */
+  participant?: UserResolvable;
+
+  /**
+   * The conversation to fetch the events of
+   */
+  conversation?: DMConversationResolvable;
+
+  /**
+   * The types of the events to fetch
+   */
+  eventTypes?: Array<DMEventType>;
+
+  /**
+   * The maximum number of events to fetch per page
+   */
+  maxResultsPerPage?: number;
+}
+
+/**
+ * The options used to create a {@link DMEventsBook} object
+ */
+export interface DMEventsBookOptions {
+  /**
+   * The ID of the user whose one-to-one conversation with the authorized user the book belongs to
+   */
+  participantId?: Snowflake;
+
+  /**
+   * The ID of the conversation the book belongs to
+   */
+  conversationId?: string;
+
+  /**
+   * The types of the events to fetch
+   */
+  eventTypes?: Array<DMEventType>;
+
+  /**
+   * The maximum number of events to fetch per page
+   */
+  maxResultsPerPage?: number;
+}
+
+/**
+ * The raw response of the endpoints for bookmarking and unbookmarking tweets
+ */
+export interface BookmarkResponse {
+  data: { bookmarked: boolean };
+}
+
+/**
+ * The raw data of an event of a direct message conversation, as sent by the API
+ */
+export interface APIDMEvent {
+  id: Snowflake;
+  event_type: DMEventType;
+  text?: string;
+  created_at?: string;
+  dm_conversation_id?: string;
+  sender_id?: Snowflake;
+  participant_ids?: Array<Snowflake>;
+  referenced_tweets?: Array<{ id: Snowflake }>;
+  attachments?: { media_keys?: Array<string> };
+}
+
+/**
+ * The raw data of the objects referenced by direct message events, as sent by the API
+ */
+export interface APIDMEventIncludes {
+  users?: Array<APIUser>;
+  tweets?: Array<APITweet>;
+  media?: Array<APIMedia>;
+}
+
+/**
+ * The data used to create a {@link DMEvent} object
+ */
+export interface DMEventData {
+  data: APIDMEvent;
+  includes?: APIDMEventIncludes;
+}
+
+/**
+ * The raw response of the endpoints for fetching direct message events
+ */
+export interface GetDMEventsResponse {
+  data?: Array<APIDMEvent>;
+  includes?: APIDMEventIncludes;
+  meta: { result_count: number; next_token?: string; previous_token?: string };
+}
+
+/**
+ * The raw response of the endpoints for sending direct messages
+ */
+export interface PostDMMessageResponse {
+  data: { dm_conversation_id: string; dm_event_id: Snowflake };
+}
+
+/**
+ * The options used to upload media
+ */
+export interface MediaUploadOptions extends RequestOptions {
+  /**
+   * The MIME type of the media, detected from its content if not provided
+   */
+  mimeType?: string;
+
+  /**
+   * The category of the media, picked based on its MIME type if not provided
+   */
+  category?: MediaCategory;
+
+  /**
+   * Whether the media is going to be attached to a direct message, in which case the `dm_*` categories are picked
+   * instead of the `tweet_*` ones
+   */
+  forDirectMessage?: boolean;
+
+  /**
+   * The alternative text of the media for accessibility, up to 1000 characters
+   */
+  altText?: string;
+}
+
+/**
+ * The options used to fetch users blocked by the authorized user
+ */
+export interface FetchBlocksOptions extends RequestOptions {
+  /**
+   * The maximum number of users to fetch per page
+   */
+  maxResultsPerPage?: number;
+}
+
+/**
+ * The options used to fetch users muted by the authorized user
+ */
+export interface FetchMutesOptions extends RequestOptions {
+  /**
+   * The maximum number of users to fetch per page
+   */
+  maxResultsPerPage?: number;
+}
+
+/**
+ * The options used to fetch tweets bookmarked by the authorized user
+ */
+export interface FetchBookmarksOptions extends RequestOptions {
+  /**
+   * The maximum number of tweets to fetch per page
+   */
+  maxResultsPerPage?: number;
+}
+
+export interface BookOptions {
+  /**
+   * The ID of the user to create the book for
+   */
+  userId: Snowflake;
+
+  /**
+   * The maximum number of results to fetch per page
+   */
+  maxResultsPerPage?: number;
+}
+
+/**
+ * The options used to fetch tweets composed by a twitter user
+ */
+export interface FetchComposedTweetsOptions extends RequestOptions {
+  /**
+   * Fetch tweets that were created after this point in time
+   */
+  afterTime?: Date | number;
+
+  /**
+   * Fetch tweets that were created before this point in time
+   */
+  beforeTime?: Date | number;
+
+  /**
+   * Fetch tweets that were created after this tweet
+   */
+  afterTweet?: TweetResolvable;
+
+  /**
+   * Fetch tweets that were created before this tweet
+   */
+  beforeTweet?: TweetResolvable;
+
+  /**
+   * The types of tweet to exclude from fetching
+   */
+  exclude?: Array<TweetTypeExcludesRequestParameter>;
+
+  /**
+   * The maximum number of tweets to fetch per page
+   */
+  maxResultsPerPage?: number;
+}
+
+/**
+ * The options used to create a {@link ComposedTweetsBook} object for a user
+ */
+export interface ComposedTweetsBookOptions extends BookOptions {
+  /**
+   * Return tweets that were created after this timestamp
+   */
+  afterTimestamp?: number;
+
+  /**
+   * Return tweets that were created before this timestamp
+   */
+  beforeTimestamp?: number;
+
+  /**
+   * The types of tweets to exclude
+   */
+  exclude?: Array<TweetTypeExcludesRequestParameter>;
+
+  /**
+   * Return tweets that were created after this tweet ID
+   */
+  afterTweetId?: Snowflake;
+
+  /**
+   * Return tweets that were created before this tweet ID
+   */
+  beforeTweetId?: Snowflake;
+}
+
+/**
+ * The options used to create a {@link MentionsBook} object
+ */
+export interface MentionsBookOptions extends BookOptions {
+  /**
+   * Return tweets that were created after this timestamp
+   */
+  afterTimestamp?: number;
+
+  /**
+   * Return tweets that were created before this timestamp
+   */
+  beforeTimestamp?: number;
+
+  /**
+   * Return tweets that were created after this tweet ID
+   */
+  afterTweetId?: Snowflake;
+
+  /**
+   * Return tweets that were created before this tweet ID
+   */
+  beforeTweetId?: Snowflake;
+}
+
+/**
+ * The options used to fetch tweets that mention a given user
+ */
+export interface FetchMentionsOptions extends RequestOptions {
+  /**
+   * Fetch tweets that were created after this point in time
+   */
+  afterTime?: Date | number;
+
+  /**
+   * Fetch tweets that were created before this point in time
+   */
+  beforeTime?: Date | number;
+
+  /**
+   * Fetch tweets that were created after this tweet
+   */
+  afterTweet?: TweetResolvable;
+
+  /**
+   * Fetch tweets that were created before this tweet
+   */
+  beforeTweet?: TweetResolvable;
+
+  /**
+   * The maximum number of tweets to fetch per page
+   */
+  maxResultsPerPage?: number;
+}
+
+/**
+ * The options used to create a {@link SearchTweetsBook} object
+ */
+export interface SearchTweetsBookOptions {
+  query: string;
+
+  /**
+   * Whether to search the full archive of tweets instead of the ones from the last seven days
+   */
+  archive?: boolean;
+
+  /**
+   * Return tweets that were created after this timestamp
+   */
+  afterTimestamp?: number;
+
+  /**
+   * Return tweets that were created before this timestamp
+   */
+  beforeTimestamp?: number;
+
+  /**
+   * Return tweets that were created after this tweet ID
+   */
+  afterTweetId?: Snowflake;
+
+  /**
+   * Return tweets that were created before this tweet ID
+   */
+  beforeTweetId?: Snowflake;
+
+  /**
+   * The maximum number of results to fetch per page
+   */
+  maxResultsPerPage?: number;
+}
+
+/**
+ * The options used to fetch tweets using query
+ */
+export interface SearchTweetsOptions extends RequestOptions {
+  /**
+   * Whether to search the full archive of tweets instead of the ones from the last seven days.
+   *
+   * **Note**: This is only available to projects with access to the full-archive search endpoint
+   */
+  archive?: boolean;
+
+  /**
+   * Fetch tweets that were created after this point in time
+   */
+  afterTime?: Date | number;
+
+  /**
+   * Fetch tweets that were created before this point in time
+   */
+  beforeTime?: Date | number;
+
+  /**
+   * Fetch tweets that were created after this tweet
+   */
+  afterTweet?: TweetResolvable;
+
+  /**
+   * Fetch tweets that were created before this tweet
+   */
+  beforeTweet?: TweetResolvable;
+
+  /**
+   * The maximum number of tweets to fetch per page.
+   *
+   * **Note**: This is kept between `10` and `100`, or `500` when searching the full archive
+   */
+  maxResultsPerPage?: number;
+}
+
+/**
+ * The options used to fetch tweets that quote a tweet
+ */
+export interface FetchQuoteTweetsOptions extends RequestOptions {
+  /**
+   * The types of tweet to exclude from fetching
+   */
+  exclude?: Array<TweetTypeExcludesRequestParameter>;
+
+  /**
+   * The maximum number of tweets to fetch per page
+   */
+  maxResultsPerPage?: number;
+}
+
+/**
+ * The options used to create a {@link QuoteTweetsBook} object
+ */
+export interface QuoteTweetsBookOptions {
+  /**
+   * The ID of the tweet whose quote tweets are to be fetched
+   */
+  tweetId: Snowflake;
+
+  /**
+   * The types of tweets to exclude
+   */
+  exclude?: Array<TweetTypeExcludesRequestParameter>;
+
+  /**
+   * The maximum number of results to fetch per page
+   */
+  maxResultsPerPage?: number;
+}
+
+/**
+ * The options used to create a {@link TweetsCountBook} object
+ */
+export interface TweetsCountBookOptions {
+  /**
+   * The query for matching tweets
+   */
+  query: string;
+
+  /**
+   * Whether to count tweets from the full archive instead of the ones from the last seven days
+   */
+  fullArchive?: boolean;
+
+  /**
+   * Match tweets that were created after this timestamp
+   */
+  afterTimestamp?: number;
+
+  /**
+   * Match tweets that were created before this timestamp
+   */
+  beforeTimestamp?: number;
+
+  /**
+   * The granularity of the {@link TweetCountBucket}
+   */
+  granularity?: Granularity;
+
+  /**
+   * Match tweets that were created after this tweet ID
+   */
+  afterTweetId?: Snowflake;
+
+  /**
+   * Match tweets that weere created before this tweet ID
+   */
+  beforeTweetId?: Snowflake;
+}
+
+/**
+ * The options for fetching tweets count matching a query
+ */
+export interface CountTweetsOptions extends RequestOptions {
+  /**
+   * Whether to count tweets from the full archive instead of the ones from the last seven days.
+   *
+   * **Note**: This is only available to projects with access to the full-archive counts endpoint
+   */
+  fullArchive?: boolean;
+
+  /**
+   * Match tweets that were created after this point in time
+   */
+  afterTime?: Date | number;
+
+  /**
+   * Match tweets that were created before this point in time
+   */
+  beforeTime?: Date | number;
+
+  /**
+   * Match tweets that were created after this tweet
+   */
+  afterTweet?: TweetResolvable;
+
+  /**
+   * Match tweets that were created before this tweet
+   */
+  beforeTweet?: TweetResolvable;
+
+  /**
+   * The granularity of the {@link TweetCountBucket}
+   */
+  granularity?: Granularity;
+}
+
+/**
+ * The data to instantiate {@link BaseStructure} with
+ */
+export interface BaseStructureData {
+  id: Snowflake;
+}
+
+/**
+ * The options used for creating a new list
+ */
+export interface CreateListOptions extends RequestOptions {
   /**
    * The name of the list
    */
@@ -573,6 +1213,95 @@ export interface CreateListOptions {
  */
 export type UpdateListOptions = Partial<CreateListOptions>;
 
+/**
+ * Options used to fetch a single list
+ */
+export interface FetchListOptions extends BaseFetchOptions {
+  /**
+   * The list to fetch
+   */
+  list: ListResolvable;
+}
+
+/**
+ * The options used to fetch the lists owned, followed or joined by a twitter user
+ */
+export interface FetchUserListsOptions extends RequestOptions {
+  /**
+   * The maximum number of lists to fetch per page
+   */
+  maxResultsPerPage?: number;
+}
+
+/**
+ * The options used to fetch the members of a list
+ */
+export interface FetchListMembersOptions extends RequestOptions {
+  /**
+   * The maximum number of users to fetch per page
+   */
+  maxResultsPerPage?: number;
+}
+
+/**
+ * The options used to fetch the followers of a list
+ */
+export interface FetchListFollowersOptions extends RequestOptions {
+  /**
+   * The maximum number of users to fetch per page
+   */
+  maxResultsPerPage?: number;
+}
+
+/**
+ * The options used to fetch the tweets of a list
+ */
+export interface FetchListTweetsOptions extends RequestOptions {
+  /**
+   * The maximum number of tweets to fetch per page
+   */
+  maxResultsPerPage?: number;
+}
+
+export interface ListBookOptions {
+  /**
+   * The ID of the list to create the book for
+   */
+  listId: Snowflake;
+
+  /**
+   * The maximum number of results to fetch per page
+   */
+  maxResultsPerPage?: number;
+}
+
+/**
+ * The raw data of a list, including the fields that can be requested through `list.fields`
+ */
+export interface APIListData extends APIList {
+  created_at?: string;
+  follower_count?: number;
+  member_count?: number;
+  owner_id?: Snowflake;
+}
+
+/**
+ * The data used to create a {@link List} object
+ */
+export interface ListData {
+  data: APIListData;
+  includes?: { users?: Array<APIUser> };
+}
+
+/**
+ * The raw response of the endpoints for fetching multiple lists
+ */
+export interface GetListsResponse {
+  data?: Array<APIListData>;
+  includes?: { users?: Array<APIUser> };
+  meta: { result_count: number; next_token?: string; previous_token?: string };
+}
+
 /**
  * Options used to feth a single filtered stream rule
  */
@@ -596,8 +1325,8 @@ export interface FetchFilteredStreamRulesOptions extends Omit<BaseFetchOptions,
 /**
  * Options used to craete a tweet
  */
-export interface TweetCreateOptions {
-  directMessageDeepLink?: string;
+export interface TweetCreateOptions extends RequestOptions {
+  directMessageDeepLink?: string | User | SimplifiedUser;
   forSuperFollowersOnly?: boolean;
   geo?: TweetCreateGeoOptions;
   media?: TweetCreateMediaOptions;
@@ -615,6 +1344,7 @@ export interface TweetCreateGeoOptions {
 
 export interface TweetCreateMediaOptions {
   mediaIds?: Array<Snowflake>;
+  attachments?: Array<MediaAttachment>;
   taggedUsers?: Array<UserResolvable>;
 }
 
@@ -622,3 +1352,282 @@ export interface TweetCreatePollOptions {
   durationMinutes: number;
   options: Array<string>;
 }
+
+/**
+ * The options used to create filtered stream rules
+ */
+export interface CreateFilteredStreamRulesOptions extends RequestOptions {
+  /**
+   * Whether to lint the rules with {@link lintQuery} and reject the ones with errors before sending them to Twitter
+   */
+  lint?: boolean;
+}
+
+/**
+ * The options used to sync the rules of the filtered stream
+ */
+export interface SyncFilteredStreamRulesOptions extends CreateFilteredStreamRulesOptions {
+  /**
+   * Whether to only validate the changes with Twitter without applying them
+   */
+  dryRun?: boolean;
+
+  /**
+   * The maximum number of rules to add or delete per request, `100` by default
+   */
+  batchSize?: number;
+}
+
+/**
+ * The changes made by syncing the rules of the filtered stream
+ */
+export interface FilteredStreamRulesSyncReport {
+  /**
+   * Whether the changes were only validated without being applied
+   */
+  dryRun: boolean;
+
+  /**
+   * Whether all the changes were applied. They are not in a dry run, nor when Twitter rejects any of the added rules,
+   * in which case the existing rules are only deleted if they had the same value as one of the added rules
+   */
+  applied: boolean;
+
+  /**
+   * The desired rules that did not exist and were sent to be created
+   */
+  added: Array<{ value: string; tag?: string }>;
+
+  /**
+   * The rules that were created by Twitter, which is empty in a dry run
+   */
+  created: Collection<Snowflake, FilteredStreamRule>;
+
+  /**
+   * The existing rules that were not desired and were sent to be deleted
+   */
+  deleted: Collection<Snowflake, FilteredStreamRule>;
+
+  /**
+   * The existing rules that were desired and were left as they are
+   */
+  unchanged: Collection<Snowflake, FilteredStreamRule>;
+
+  /**
+   * The counts of the changes reported by Twitter, added up across batches. If the changes were not applied, these
+   * are the counts of validating them
+   */
+  summary: FilteredStreamRulesSyncSummary;
+
+  /**
+   * The rules rejected by Twitter while validating or applying the changes
+   */
+  errors: Array<FilteredStreamRulesSyncError>;
+}
+
+/**
+ * A rule rejected by Twitter when syncing the rules of the filtered stream
+ */
+export interface FilteredStreamRulesSyncError {
+  /**
+   * Whether the rule was rejected while being added or deleted
+   */
+  operation: 'add' | 'delete';
+
+  /**
+   * The value of the rule, if it was being added
+   */
+  value: string | null;
+
+  /**
+   * The ID of the rule being deleted, or of the existing rule that an added rule duplicates
+   */
+  id: Snowflake | null;
+
+  /**
+   * The title of the error
+   */
+  title: string;
+
+  /**
+   * The URI identifying the type of the error
+   */
+  type: string;
+
+  /**
+   * The reasons the rule was rejected for
+   */
+  details: Array<string>;
+}
+
+/**
+ * The counts of the changes reported by Twitter when syncing the rules of the filtered stream
+ */
+export interface FilteredStreamRulesSyncSummary {
+  created: number;
+  notCreated: number;
+  valid: number;
+  invalid: number;
+  deleted: number;
+  notDeleted: number;
+}
+
+/**
+ * The options used to lint a search query
+ */
+export interface LintQueryOptions {
+  /**
+   * The endpoint the query is to be sent to, `recent` by default
+   */
+  endpoint?: QueryTarget;
+}
+
+/**
+ * A problem found in a search query by {@link lintQuery}
+ */
+export interface QueryLintIssue {
+  /**
+   * The code of the problem
+   */
+  code: QueryLintIssueCode;
+
+  /**
+   * Whether the problem makes Twitter reject the query, or only makes it likely to match something unintended
+   */
+  severity: 'error' | 'warning';
+
+  /**
+   * The description of the problem
+   */
+  message: string;
+
+  /**
+   * The index in the query at which the problem starts
+   */
+  start: number;
+
+  /**
+   * The index in the query at which the problem ends
+   */
+  end: number;
+}
+
+/**
+ * A keyword, phrase, hashtag, mention, cashtag or operator in a parsed search query
+ */
+export interface QueryTermNode {
+  type: QueryTermType;
+
+  /**
+   * The value of the term, without quotes and the `operator:` prefix
+   */
+  value: string;
+
+  /**
+   * The name of the operator, if the term is one
+   */
+  operator?: string;
+
+  /**
+   * Whether the value of the term is quoted
+   */
+  quoted: boolean;
+
+  /**
+   * Whether the term is negated with `-`
+   */
+  negated: boolean;
+
+  /**
+   * The index in the query at which the term starts
+   */
+  start: number;
+
+  /**
+   * The index in the query at which the term ends
+   */
+  end: number;
+}
+
+/**
+ * A parenthesized group in a parsed search query
+ */
+export interface QueryGroupNode {
+  type: 'group';
+
+  /**
+   * The expression inside the parentheses, or `null` if the group is empty
+   */
+  expression: QueryNode | null;
+
+  /**
+   * Whether the group is negated with `-`
+   */
+  negated: boolean;
+
+  /**
+   * The index in the query at which the group starts
+   */
+  start: number;
+
+  /**
+   * The index in the query at which the group ends
+   */
+  end: number;
+}
+
+/**
+ * Nodes separated by spaces in a parsed search query, all of which have to match
+ */
+export interface QueryAndNode {
+  type: 'and';
+  children: Array<QueryNode>;
+  start: number;
+  end: number;
+}
+
+/**
+ * Nodes separated by `OR` in a parsed search query, any of which has to match
+ */
+export interface QueryOrNode {
+  type: 'or';
+  children: Array<QueryNode>;
+  start: number;
+  end: number;
+}
+
+/**
+ * The result of testing a tweet against a search query with {@link testQuery}
+ */
+export interface QueryTestResult {
+  /**
+   * Whether the tweet matches the query, or `null` if that depends on clauses that cannot be evaluated locally
+   */
+  matched: boolean | null;
+
+  /**
+   * The results of the clauses of the query, in the order they appear in it
+   */
+  clauses: Array<QueryClauseResult>;
+}
+
+/**
+ * The result of testing a tweet against a clause of a search query
+ */
+export interface QueryClauseResult {
+  /**
+   * The clause as it is written in the query
+   */
+  clause: string;
+
+  /**
+   * The parsed clause
+   */
+  node: QueryTermNode;
+
+  /**
+   * Whether the tweet satisfies the clause, including its negation, or `null` if the clause cannot be evaluated
+   * locally, such as `context:` or `sample:`, or if the tweet lacks the data it needs
+   */
+  matched: boolean | null;
+}
@@ -1,5 +1,7 @@
 import type { Collection } from '../util';
+import type { Readable } from 'stream';
 import type { Snowflake } from 'twitter-types';
+import type { QueryBuilder } from '../util';
 import type { FetchFilteredStreamRuleOptions, FetchFilteredStreamRulesOptions, TweetCreateOptions } from './Interfaces';
 import type {
   User,
@@ -10,6 +12,9 @@ import type {
   SimplifiedTweet,
   FilteredStreamRule,
   List,
+  Media,
+  DMEvent,
+  DMConversation,
 } from '../structures';
 import type {
   ClientEventsMapping,
@@ -22,6 +27,13 @@ import type {
   FetchSpaceOptions,
   FetchSpacesOptions,
   BookOptions,
+  ListBookOptions,
+  FetchComposedTweetsOptions,
+  ComposedTweetsBookOptions,
+  QueryTermNode,
+  QueryGroupNode,
+  QueryAndNode,
+  QueryOrNode,
 } from './Interfaces';
 
 export type ClientEventArgsType<K> = K extends keyof ClientEventsMapping
@@ -59,17 +71,194 @@ export type SpaceResolvable = Space | SimplifiedSpace | Snowflake;
 
 export type ListResolvable = List | Snowflake;
 
+export type ListFieldsParameter =
+  | 'created_at'
+  | 'description'
+  | 'follower_count'
+  | 'member_count'
+  | 'owner_id'
+  | 'private';
+
+export type ListExpansionsParameter = 'owner_id';
+
+export type DMEventResolvable = DMEvent | Snowflake;
+
+export type DMConversationResolvable = DMConversation | string;
+
+/**
+ * The types of the events of direct message conversations
+ */
+export type DMEventType = 'MessageCreate' | 'ParticipantsJoin' | 'ParticipantsLeave';
+
+export type DMEventFieldsParameter =
+  | 'id'
+  | 'text'
+  | 'event_type'
+  | 'created_at'
+  | 'dm_conversation_id'
+  | 'sender_id'
+  | 'participant_ids'
+  | 'referenced_tweets'
+  | 'attachments';
+
+export type DMEventExpansionsParameter =
+  | 'attachments.media_keys'
+  | 'referenced_tweets.id'
+  | 'sender_id'
+  | 'participant_ids';
+
+/**
+ * The media that can be uploaded, either its content or the path of its file
+ */
+export type MediaUploadable = Buffer | Readable | string;
+
+/**
+ * The media that can be attached to a tweet. Media that has not been uploaded yet gets uploaded while creating the tweet
+ */
+export type MediaAttachment = MediaUploadable | Media;
+
+/**
+ * The categories of the uploaded media, which decide the limits the media is checked against
+ */
+export type MediaCategory = 'tweet_image' | 'tweet_gif' | 'tweet_video' | 'dm_image' | 'dm_gif' | 'dm_video';
+
 export type SpaceManagerFetchResult<T extends FetchSpaceOptions | FetchSpacesOptions> = T extends FetchSpaceOptions
   ? Space
   : Collection<Snowflake, Space>;
 
 export type FilteredStreamRuleResolvable = FilteredStreamRule | Snowflake;
 
+/**
+ * The scopes that can be requested while authorizing an app through OAuth 2.0
+ */
+export type OAuth2Scope =
+  | 'block.read'
+  | 'block.write'
+  | 'bookmark.read'
+  | 'bookmark.write'
+  | 'dm.read'
+  | 'dm.write'
+  | 'follows.read'
+  | 'follows.write'
+  | 'like.read'
+  | 'like.write'
+  | 'list.read'
+  | 'list.write'
+  | 'mute.read'
+  | 'mute.write'
+  | 'offline.access'
+  | 'space.read'
+  | 'tweet.moderate.write'
+  | 'tweet.read'
+  | 'tweet.write'
+  | 'users.read';
+
+/**
+ * A search query, either as a string or built with a {@link QueryBuilder}
+ */
+export type SearchQuery = string | QueryBuilder;
+
+/**
+ * The endpoints a search query can be sent to, which differ in the operators and query length they accept
+ */
+export type QueryTarget = 'recent' | 'archive' | 'stream';
+
+/**
+ * The operators supported by {@link QueryBuilder}
+ */
+export type QueryOperator =
+  | 'from'
+  | 'to'
+  | 'url'
+  | 'retweets_of'
+  | 'conversation_id'
+  | 'lang'
+  | 'place'
+  | 'place_country'
+  | 'is'
+  | 'has'
+  | 'sample'
+  | 'bio'
+  | 'bio_name'
+  | 'bio_location'
+  | 'followers_count'
+  | 'following_count'
+  | 'tweets_count'
+  | 'listed_count'
+  | 'url_title'
+  | 'url_description'
+  | 'url_contains'
+  | 'source'
+  | 'context'
+  | 'entity'
+  | 'point_radius'
+  | 'bounding_box'
+  | 'list'
+  | 'in_reply_to_tweet_id'
+  | 'retweets_of_tweet_id'
+  | 'quotes_of_tweet_id';
+
+/**
+ * The node of a parsed search query
+ */
+export type QueryNode = QueryTermNode | QueryGroupNode | QueryAndNode | QueryOrNode;
+
+/**
+ * The types of the terms of a parsed search query
+ */
+export type QueryTermType = 'keyword' | 'phrase' | 'hashtag' | 'mention' | 'cashtag' | 'operator';
+
+/**
+ * The codes of the problems reported by {@link lintQuery}
+ */
+export type QueryLintIssueCode =
+  | 'UNBALANCED_PARENTHESES'
+  | 'UNTERMINATED_QUOTE'
+  | 'MISPLACED_OR'
+  | 'DANGLING_NEGATION'
+  | 'EMPTY_GROUP'
+  | 'MIXED_AND_OR'
+  | 'LOWERCASE_OR'
+  | 'UNKNOWN_OPERATOR'
+  | 'UNSUPPORTED_OPERATOR'
+  | 'INVALID_OPERATOR_VALUE'
+  | 'NEGATION_REQUIRED'
+  | 'CONJUNCTION_REQUIRED'
+  | 'QUERY_TOO_LONG';
+
+/**
+ * The values of the `is:` query operator
+ */
+export type QueryIsOperatorValue = 'retweet' | 'reply' | 'quote' | 'verified' | 'nullcast';
+
+/**
+ * The values of the `has:` query operator
+ */
+export type QueryHasOperatorValue =
+  | 'hashtags'
+  | 'cashtags'
+  | 'links'
+  | 'mentions'
+  | 'media'
+  | 'images'
+  | 'videos'
+  | 'geo';
+
+/**
+ * The state of the connection to a tweet stream
+ */
+export type TweetStreamState = 'idle' | 'connecting' | 'connected' | 'backoff';
+
 /**
  * The options used to create a {@link BlocksBook} object
  */
 export type BlocksBookOptions = BookOptions;
 
+/**
+ * The options used to create a {@link BookmarksBook} object
+ */
+export type BookmarksBookOptions = BookOptions;
+
 /**
  * The options used to create a {@link FollowersBook} object
  */
@@ -90,6 +279,46 @@ export type LikedTweetsBookOptions = BookOptions;
  */
 export type MutesBookOptions = BookOptions;
 
+/**
+ * The options used to create a {@link OwnedListsBook} object
+ */
+export type OwnedListsBookOptions = BookOptions;
+
+/**
+ * The options used to create a {@link ListMembershipsBook} object
+ */
+export type ListMembershipsBookOptions = BookOptions;
+
+/**
+ * The options used to create a {@link FollowedListsBook} object
+ */
+export type FollowedListsBookOptions = BookOptions;
+
+/**
+ * The options used to create a {@link ListMembersBook} object
+ */
+export type ListMembersBookOptions = ListBookOptions;
+
+/**
+ * The options used to create a {@link ListFollowersBook} object
+ */
+export type ListFollowersBookOptions = ListBookOptions;
+
+/**
+ * The options used to create a {@link ListTweetsBook} object
+ */
+export type ListTweetsBookOptions = ListBookOptions;
+
+/**
+ * The options used to fetch the home timeline of the authorized user
+ */
+export type FetchHomeTimelineOptions = FetchComposedTweetsOptions;
+
+/**
+ * The options used to create a {@link HomeTimelineBook} object
+ */
+export type HomeTimelineBookOptions = ComposedTweetsBookOptions;
+
 export type FilteredStreamRuleManagerFetchResult<
   T extends FetchFilteredStreamRuleOptions | FetchFilteredStreamRulesOptions,
 > = T extends undefined | FetchFilteredStreamRulesOptions
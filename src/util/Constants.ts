@@ -1,4 +1,12 @@
-import type { ClientOptions } from '../typings';
+import type {
+  ClientOptions,
+  DMEventExpansionsParameter,
+  DMEventFieldsParameter,
+  ListExpansionsParameter,
+  ListFieldsParameter,
+  QueryOperator,
+  QueryTarget,
+} from '../typings';
 import type {
   MediaFieldsParameter,
   PlaceFieldsParameter,
@@ -116,12 +124,52 @@ export const SpaceExpansions: Array<SpaceExpansionsParameter> = [
   'speaker_ids',
 ];
 
+export const ListFields: Array<ListFieldsParameter> = [
+  'created_at',
+  'description',
+  'follower_count',
+  'member_count',
+  'owner_id',
+  'private',
+];
+
+export const ListExpansions: Array<ListExpansionsParameter> = ['owner_id'];
+
+export const DMEventFields: Array<DMEventFieldsParameter> = [
+  'id',
+  'text',
+  'event_type',
+  'created_at',
+  'dm_conversation_id',
+  'sender_id',
+  'participant_ids',
+  'referenced_tweets',
+  'attachments',
+];
+
+export const DMEventExpansions: Array<DMEventExpansionsParameter> = [
+  'attachments.media_keys',
+  'referenced_tweets.id',
+  'sender_id',
+  'participant_ids',
+];
+
 export const ClientEvents = {
   FILTERED_TWEET_CREATE: 'filteredTweetCreate',
+  HOME_TIMELINE_POLL_ERROR: 'homeTimelinePollError',
+  HOME_TIMELINE_TWEET_CREATE: 'homeTimelineTweetCreate',
   KEEP_ALIVE_SIGNAL: 'keepAliveSignal',
+  OAUTH2_TOKEN_REFRESH: 'oauth2TokenRefresh',
   PARTIAL_ERROR: 'partialError',
+  RATE_LIMITED: 'rateLimited',
   READY: 'ready',
+  RETRY: 'retry',
   SAMPLED_TWEET_CREATE: 'sampledTweetCreate',
+  STREAM_DISCONNECT: 'streamDisconnect',
+  STREAM_PARSE_ERROR: 'streamParseError',
+  STREAM_RECONNECTED: 'streamReconnected',
+  STREAM_RECONNECTING: 'streamReconnecting',
+  STREAM_STALL: 'streamStall',
 };
 
 /**
@@ -134,6 +182,22 @@ export const defaultClientOptions: ClientOptions = {
   api: {
     version: 2,
     baseURL: 'https://api.twitter.com',
+    uploadURL: 'https://upload.twitter.com/1.1',
+  },
+
+  /**
+   * The options for the REST API requests
+   */
+  rest: {
+    rejectOnRateLimit: false,
+    timeout: 15000,
+    retry: {
+      maxRetries: 3,
+      baseDelay: 1000,
+      maxDelay: 30000,
+      statusCodes: [500, 502, 503, 504],
+      methods: ['get', 'put', 'delete'],
+    },
   },
 
   /**
@@ -149,15 +213,203 @@ export const defaultClientOptions: ClientOptions = {
     tweetExpansions: TweetExpansions,
     userExpansions: UserExpansions,
     spaceExpansions: SpaceExpansions,
+    dmEventFields: DMEventFields,
+    dmEventExpansions: DMEventExpansions,
+    listFields: ListFields,
+    listExpansions: ListExpansions,
   },
 
   /**
    * The events that the client opted-in for
    */
   events: [],
+
+  /**
+   * The options for the tweet streams
+   */
+  streams: {
+    autoReconnect: true,
+    maxReconnectAttempts: Infinity,
+    stallTimeout: 20000,
+    backfillMinutes: 0,
+  },
+};
+
+/**
+ * The names of the built-in providers in {@link Client.authProviders}
+ */
+export const AuthProviderName = {
+  BEARER: 'bearer',
+  OAUTH1: 'oauth1',
+  OAUTH2_USER: 'oauth2User',
+} as const;
+
+/**
+ * The URLs of the endpoints used in the OAuth 2.0 authorization code flow
+ */
+export const OAuth2URLs = {
+  AUTHORIZE: 'https://twitter.com/i/oauth2/authorize',
+  TOKEN: 'https://api.twitter.com/2/oauth2/token',
+} as const;
+
+/**
+ * The size limits in bytes of media uploads
+ */
+export const MediaUploadLimits = {
+  /**
+   * The maximum size of images uploaded in a single request, larger ones are uploaded in chunks
+   */
+  SIMPLE_UPLOAD_MAX_SIZE: 5 * 1024 * 1024,
+  /**
+   * The size of the segments of chunked uploads
+   */
+  CHUNK_SIZE: 4 * 1024 * 1024,
+} as const;
+
+export const SearchLimits = {
+  /**
+   * The lowest `max_results` accepted by the search endpoints
+   */
+  MIN_RESULTS_PER_PAGE: 10,
+  /**
+   * The highest `max_results` accepted by the recent search endpoint
+   */
+  RECENT_MAX_RESULTS_PER_PAGE: 100,
+  /**
+   * The highest `max_results` accepted by the full-archive search endpoint
+   */
+  ARCHIVE_MAX_RESULTS_PER_PAGE: 500,
+  /**
+   * The time in milliseconds to wait between requests to the full-archive endpoints, which allow one per second
+   */
+  ARCHIVE_REQUEST_INTERVAL: 1000,
+} as const;
+
+/**
+ * The maximum length of the queries accepted by each search endpoint
+ */
+export const QueryLengthLimits: Record<QueryTarget, number> = {
+  recent: 512,
+  archive: 1024,
+  stream: 1024,
+};
+
+/**
+ * The search endpoints that accept each query operator
+ */
+export const QueryOperatorTargets: Record<QueryOperator, Array<QueryTarget>> = {
+  from: ['recent', 'archive', 'stream'],
+  to: ['recent', 'archive', 'stream'],
+  url: ['recent', 'archive', 'stream'],
+  retweets_of: ['recent', 'archive', 'stream'],
+  conversation_id: ['recent', 'archive', 'stream'],
+  lang: ['recent', 'archive', 'stream'],
+  place: ['recent', 'archive', 'stream'],
+  place_country: ['recent', 'archive', 'stream'],
+  is: ['recent', 'archive', 'stream'],
+  has: ['recent', 'archive', 'stream'],
+  sample: ['stream'],
+  bio: ['stream'],
+  bio_name: ['stream'],
+  bio_location: ['stream'],
+  followers_count: ['stream'],
+  following_count: ['stream'],
+  tweets_count: ['stream'],
+  listed_count: ['stream'],
+  url_title: ['stream'],
+  url_description: ['stream'],
+  url_contains: ['stream'],
+  source: ['stream'],
+  context: ['recent', 'archive', 'stream'],
+  entity: ['recent', 'archive', 'stream'],
+  point_radius: ['recent', 'archive', 'stream'],
+  bounding_box: ['recent', 'archive', 'stream'],
+  list: ['recent', 'archive', 'stream'],
+  in_reply_to_tweet_id: ['recent', 'archive', 'stream'],
+  retweets_of_tweet_id: ['recent', 'archive', 'stream'],
+  quotes_of_tweet_id: ['recent', 'archive', 'stream'],
+};
+
+/**
+ * The query operators that cannot match tweets on their own, and have to be used along with other terms
+ */
+export const ConjunctionRequiredQueryOperators: Array<QueryOperator> = ['is', 'has', 'lang', 'sample'];
+
+/**
+ * The values accepted by the query operators that take a fixed set of them
+ */
+export const QueryOperatorValues: Partial<Record<QueryOperator, Array<string>>> = {
+  is: ['retweet', 'reply', 'quote', 'verified', 'nullcast'],
+  has: ['hashtags', 'cashtags', 'links', 'mentions', 'media', 'images', 'videos', 'geo'],
 };
 
 export const StreamType = {
   SAMPLED: 'sampled',
   FILTERED: 'filtered',
-};
+} as const;
+
+/**
+ * The templates of the Twitter API v2 endpoints, used to group requests into the rate limit buckets of their
+ * endpoints. Segments starting with `:` match any value
+ */
+export const RouteTemplates: Array<string> = [
+  '/tweets',
+  '/tweets/:id',
+  '/tweets/:id/hidden',
+  '/tweets/:id/liking_users',
+  '/tweets/:id/quote_tweets',
+  '/tweets/:id/retweeted_by',
+  '/tweets/counts/all',
+  '/tweets/counts/recent',
+  '/tweets/sample/stream',
+  '/tweets/search/all',
+  '/tweets/search/recent',
+  '/tweets/search/stream',
+  '/tweets/search/stream/rules',
+  '/users',
+  '/users/:id',
+  '/users/:id/blocking',
+  '/users/:id/blocking/:target_user_id',
+  '/users/:id/bookmarks',
+  '/users/:id/bookmarks/:tweet_id',
+  '/users/:id/followed_lists',
+  '/users/:id/followed_lists/:list_id',
+  '/users/:id/followers',
+  '/users/:id/following',
+  '/users/:id/following/:target_user_id',
+  '/users/:id/liked_tweets',
+  '/users/:id/likes',
+  '/users/:id/likes/:tweet_id',
+  '/users/:id/list_memberships',
+  '/users/:id/mentions',
+  '/users/:id/muting',
+  '/users/:id/muting/:target_user_id',
+  '/users/:id/owned_lists',
+  '/users/:id/pinned_lists',
+  '/users/:id/pinned_lists/:list_id',
+  '/users/:id/retweets',
+  '/users/:id/retweets/:source_tweet_id',
+  '/users/:id/timelines/reverse_chronological',
+  '/users/:id/tweets',
+  '/users/by',
+  '/users/by/username/:username',
+  '/users/me',
+  '/spaces',
+  '/spaces/:id',
+  '/spaces/:id/buyers',
+  '/spaces/:id/tweets',
+  '/spaces/by/creator_ids',
+  '/spaces/search',
+  '/lists',
+  '/lists/:id',
+  '/lists/:id/followers',
+  '/lists/:id/members',
+  '/lists/:id/members/:user_id',
+  '/lists/:id/tweets',
+  '/dm_conversations',
+  '/dm_conversations/:dm_conversation_id/dm_events',
+  '/dm_conversations/:dm_conversation_id/messages',
+  '/dm_conversations/with/:participant_id/dm_events',
+  '/dm_conversations/with/:participant_id/messages',
+  '/dm_events',
+];
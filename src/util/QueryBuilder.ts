@@ -0,0 +1,286 @@
+import { CustomError } from '../errors';
+import { QueryLengthLimits, QueryOperatorTargets } from './Constants';
+import type { QueryHasOperatorValue, QueryIsOperatorValue, QueryOperator, QueryTarget } from '../typings';
+import type { Snowflake } from 'twitter-types';
+
+/**
+ * A term of a query, which is a keyword, an operator or a group of other terms
+ */
+interface QueryTerm {
+  value: string | QueryBuilder;
+  operator?: QueryOperator;
+  negated: boolean;
+}
+
+/**
+ * A class for building search queries for {@link TweetManager.search}, {@link TweetManager.count} and
+ * {@link FilteredStreamRuleManager.create}, which checks them against the endpoint they are sent to
+ *
+ * @example
+ * const query = new QueryBuilder()
+ *   .from('TwitterDev')
+ *   .group(builder => builder.has('media').or().has('links'))
+ *   .not()
+ *   .is('retweet');
+ * // from:TwitterDev (has:media OR has:links) -is:retweet
+ */
+export class QueryBuilder {
+  /**
+   * The terms of the query, with `OR` separating the terms that are alternatives of each other
+   */
+  #terms: Array<QueryTerm | 'OR'>;
+
+  /**
+   * Whether the next term added to the query is to be negated
+   */
+  #negateNext: boolean;
+
+  constructor() {
+    this.#terms = [];
+    this.#negateNext = false;
+  }
+
+  /**
+   * Matches tweets containing a keyword, or an exact phrase if it contains spaces.
+   * @param keyword The keyword to match
+   * @returns The query builder
+   */
+  keyword(keyword: string): this {
+    return this.#add(QueryBuilder.#quote(keyword));
+  }
+
+  /**
+   * Matches tweets containing an exact phrase.
+   * @param phrase The phrase to match
+   * @returns The query builder
+   */
+  phrase(phrase: string): this {
+    return this.#add(QueryBuilder.#quote(phrase, true));
+  }
+
+  /**
+   * Matches tweets containing a hashtag.
+   * @param hashtag The hashtag to match, with or without the leading `#`
+   * @returns The query builder
+   */
+  hashtag(hashtag: string): this {
+    return this.#add(`#${hashtag.replace(/^#/, '')}`);
+  }
+
+  /**
+   * Matches tweets mentioning a user.
+   * @param username The username of the user, with or without the leading `@`
+   * @returns The query builder
+   */
+  mention(username: string): this {
+    return this.#add(`@${username.replace(/^@/, '')}`);
+  }
+
+  /**
+   * Matches tweets composed by a user, using the `from:` operator.
+   * @param user The username or ID of the user
+   * @returns The query builder
+   */
+  from(user: string): this {
+    return this.#add(user.replace(/^@/, ''), 'from');
+  }
+
+  /**
+   * Matches tweets replying to a user, using the `to:` operator.
+   * @param user The username or ID of the user
+   * @returns The query builder
+   */
+  to(user: string): this {
+    return this.#add(user.replace(/^@/, ''), 'to');
+  }
+
+  /**
+   * Matches retweets of the tweets of a user, using the `retweets_of:` operator.
+   * @param user The username or ID of the user
+   * @returns The query builder
+   */
+  retweetsOf(user: string): this {
+    return this.#add(user.replace(/^@/, ''), 'retweets_of');
+  }
+
+  /**
+   * Matches tweets containing a URL, using the `url:` operator.
+   * @param url The URL, or a part of it, to match
+   * @returns The query builder
+   */
+  url(url: string): this {
+    return this.#add(QueryBuilder.#quote(url), 'url');
+  }
+
+  /**
+   * Matches tweets that are part of a conversation, using the `conversation_id:` operator.
+   * @param conversationId The ID of the conversation, which is the ID of the tweet that started it
+   * @returns The query builder
+   */
+  conversationId(conversationId: Snowflake): this {
+    return this.#add(conversationId, 'conversation_id');
+  }
+
+  /**
+   * Matches tweets written in a language, using the `lang:` operator.
+   * @param language The BCP 47 code of the language
+   * @returns The query builder
+   */
+  lang(language: string): this {
+    return this.#add(language, 'lang');
+  }
+
+  /**
+   * Matches tweets tagged with a place, using the `place:` operator.
+   * @param place The name or ID of the place
+   * @returns The query builder
+   */
+  place(place: string): this {
+    return this.#add(QueryBuilder.#quote(place), 'place');
+  }
+
+  /**
+   * Matches tweets tagged with a place in a country, using the `place_country:` operator.
+   * @param countryCode The ISO alpha-2 code of the country
+   * @returns The query builder
+   */
+  placeCountry(countryCode: string): this {
+    return this.#add(countryCode, 'place_country');
+  }
+
+  /**
+   * Matches tweets of a type, using the `is:` operator.
+   *
+   * **Note**: `is:nullcast` can only be used negated
+   * @param type The type of tweets to match
+   * @returns The query builder
+   */
+  is(type: QueryIsOperatorValue): this {
+    return this.#add(type, 'is');
+  }
+
+  /**
+   * Matches tweets containing a type of content, using the `has:` operator.
+   * @param content The type of content the tweets contain
+   * @returns The query builder
+   */
+  has(content: QueryHasOperatorValue): this {
+    return this.#add(content, 'has');
+  }
+
+  /**
+   * Matches a random sample of the tweets matching the rest of the query, using the `sample:` operator.
+   *
+   * **Note**: This operator is only supported by the filtered stream
+   * @param percent The percentage of tweets to match, between `1` and `100`
+   * @returns The query builder
+   */
+  sample(percent: number): this {
+    if (!Number.isInteger(percent) || percent < 1 || percent > 100) {
+      throw new CustomError('QUERY_INVALID', '`sample:` takes a whole percentage between 1 and 100');
+    }
+    return this.#add(String(percent), 'sample');
+  }
+
+  /**
+   * Matches tweets of users whose bio contains a keyword or phrase, using the `bio:` operator.
+   *
+   * **Note**: This operator is only supported by the filtered stream
+   * @param text The keyword or phrase to look for in the bio
+   * @returns The query builder
+   */
+  bio(text: string): this {
+    return this.#add(QueryBuilder.#quote(text), 'bio');
+  }
+
+  /**
+   * Groups terms together, so that they can be negated or used as an alternative as a whole.
+   * @param callback A function that adds the terms of the group to the builder it is given
+   * @returns The query builder
+   */
+  group(callback: (builder: QueryBuilder) => unknown): this {
+    const builder = new QueryBuilder();
+    callback(builder);
+    return this.#add(builder);
+  }
+
+  /**
+   * Negates the next term or group added to the query.
+   * @returns The query builder
+   */
+  not(): this {
+    this.#negateNext = true;
+    return this;
+  }
+
+  /**
+   * Matches either the term or group before this or the one after it.
+   * @returns The query builder
+   */
+  or(): this {
+    this.#terms.push('OR');
+    return this;
+  }
+
+  /**
+   * Builds the query, checking that it is accepted by the endpoint it is to be sent to.
+   * @param target The endpoint the query is to be sent to
+   * @returns The query as a string
+   */
+  build(target: QueryTarget = 'recent'): string {
+    this.#validate(target);
+    const query = this.toString();
+    const limit = QueryLengthLimits[target];
+    if (query.length > limit) throw new CustomError('QUERY_TOO_LONG', query.length, limit, target);
+    return query;
+  }
+
+  /**
+   * Converts the query into a string without checking it.
+   * @returns The query as a string
+   */
+  toString(): string {
+    return this.#terms
+      .map(term => {
+        if (term === 'OR') return term;
+        const value = term.value instanceof QueryBuilder ? `(${term.value})` : term.value;
+        const operatorValue = term.operator ? `${term.operator}:${value}` : value;
+        return term.negated ? `-${operatorValue}` : operatorValue;
+      })
+      .join(' ');
+  }
+
+  // #### 🚧 PRIVATE METHODS 🚧 ####
+
+  #add(value: string | QueryBuilder, operator?: QueryOperator): this {
+    this.#terms.push({ value, operator, negated: this.#negateNext });
+    this.#negateNext = false;
+    return this;
+  }
+
+  #validate(target: QueryTarget): void {
+    if (!this.#terms.length) throw new CustomError('QUERY_INVALID', 'a query or group has no terms');
+    if (this.#negateNext) throw new CustomError('QUERY_INVALID', 'a negation is not followed by a term');
+    this.#terms.forEach((term, index) => {
+      if (term === 'OR') {
+        if (index === 0 || index === this.#terms.length - 1 || this.#terms[index - 1] === 'OR') {
+          throw new CustomError('QUERY_INVALID', '`OR` has to be placed between two terms');
+        }
+        return;
+      }
+      if (term.value instanceof QueryBuilder) return term.value.#validate(target);
+      if (!term.operator) return;
+      if (!QueryOperatorTargets[term.operator].includes(target)) {
+        throw new CustomError('QUERY_OPERATOR_UNSUPPORTED', term.operator, target);
+      }
+      if (term.operator === 'is' && term.value === 'nullcast' && !term.negated) {
+        throw new CustomError('QUERY_INVALID', '`is:nullcast` can only be used negated');
+      }
+    });
+  }
+
+  static #quote(value: string, always = false): string {
+    if (!always && value !== 'OR' && !/[\s"():]|^-/.test(value)) return value;
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  }
+}
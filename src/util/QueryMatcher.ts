@@ -0,0 +1,182 @@
+import { parseQuery } from './QueryParser';
+import type { Tweet } from '../structures';
+import type { QueryClauseResult, QueryNode, QueryTermNode, QueryTestResult } from '../typings';
+
+/**
+ * Tests a tweet against a search query locally, using the text, entities, language, author, referenced tweets and
+ * media of the tweet. Clauses that cannot be evaluated locally, such as `context:` or `sample:`, are treated as
+ * unknown, and so is the result if it depends on them.
+ *
+ * **Note**: Keywords are matched as whole words regardless of case, which approximates how Twitter tokenizes text
+ * @param query The query to test the tweet against
+ * @param tweet The tweet to test
+ * @returns A {@link QueryTestResult} object
+ */
+export function testQuery(query: string, tweet: Tweet): QueryTestResult {
+  const clauses: Array<QueryClauseResult> = [];
+  const evaluate = (node: QueryNode): boolean | null => {
+    switch (node.type) {
+      case 'group': {
+        const matched = node.expression ? evaluate(node.expression) : null;
+        return node.negated ? negate(matched) : matched;
+      }
+      case 'and': {
+        const results = node.children.map(evaluate);
+        if (results.includes(false)) return false;
+        return results.includes(null) ? null : true;
+      }
+      case 'or': {
+        const results = node.children.map(evaluate);
+        if (results.includes(true)) return true;
+        return results.includes(null) ? null : false;
+      }
+      default: {
+        const termMatched = matchTerm(node, tweet);
+        const matched = node.negated ? negate(termMatched) : termMatched;
+        clauses.push({ clause: query.slice(node.start, node.end), node, matched });
+        return matched;
+      }
+    }
+  };
+  const matched = evaluate(parseQuery(query));
+  return { matched, clauses };
+}
+
+function negate(matched: boolean | null): boolean | null {
+  return matched === null ? null : !matched;
+}
+
+function matchText(text: string, value: string): boolean {
+  const escapedValue = value
+    .trim()
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\s+/g, '\\s+');
+  return new RegExp(`(?:^|[^\\p{L}\\p{N}_])${escapedValue}(?:$|[^\\p{L}\\p{N}_])`, 'iu').test(text);
+}
+
+function equalsIgnoringCase(a: string | null | undefined, b: string): boolean {
+  return typeof a === 'string' && a.toLowerCase() === b.toLowerCase();
+}
+
+function hasReference(tweet: Tweet, type: 'retweeted' | 'replied_to' | 'quoted', tweetId?: string): boolean {
+  return tweet.referencedTweets.some(reference => reference.type === type && (!tweetId || reference.id === tweetId));
+}
+
+function matchTerm(term: QueryTermNode, tweet: Tweet): boolean | null {
+  const entities = tweet.entities;
+  switch (term.type) {
+    case 'keyword':
+    case 'phrase':
+      return matchText(tweet.text, term.value);
+    case 'hashtag':
+      return entities
+        ? entities.hashtags.some(hashtag => equalsIgnoringCase(hashtag.tag, term.value))
+        : matchText(tweet.text, `#${term.value}`);
+    case 'cashtag':
+      return entities
+        ? entities.cashtags.some(cashtag => equalsIgnoringCase(cashtag.tag, term.value))
+        : matchText(tweet.text, `$${term.value}`);
+    case 'mention':
+      return entities
+        ? entities.mentions.some(mention => equalsIgnoringCase(mention.username, term.value))
+        : matchText(tweet.text, `@${term.value}`);
+    default:
+      return matchOperator(term.operator ?? '', term.value, tweet);
+  }
+}
+
+function matchOperator(operator: string, value: string, tweet: Tweet): boolean | null {
+  switch (operator) {
+    case 'from':
+      if (tweet.authorId === value || equalsIgnoringCase(tweet.author?.username, value)) return true;
+      return tweet.authorId || tweet.author ? false : null;
+    case 'to': {
+      if (!tweet.inReplyToUserId) return hasReference(tweet, 'replied_to') ? null : false;
+      if (tweet.inReplyToUserId === value) return true;
+      const repliedToUser = tweet.mentions.get(tweet.inReplyToUserId);
+      return repliedToUser ? equalsIgnoringCase(repliedToUser.username, value) : null;
+    }
+    case 'retweets_of': {
+      if (!hasReference(tweet, 'retweeted')) return false;
+      const retweetedUsername = /^RT @(\w+):/.exec(tweet.text)?.[1];
+      return retweetedUsername ? equalsIgnoringCase(retweetedUsername, value) : null;
+    }
+    case 'url':
+      return (
+        tweet.entities?.urls.some(url =>
+          [url.url, url.expandedURL, url.displayURL, url.unwoundURL].some(link =>
+            link?.toLowerCase().includes(value.toLowerCase()),
+          ),
+        ) ?? false
+      );
+    case 'conversation_id':
+      return tweet.conversationId ? tweet.conversationId === value : null;
+    case 'lang':
+      return tweet.lang ? equalsIgnoringCase(tweet.lang, value) : null;
+    case 'place':
+    case 'place_country': {
+      if (!tweet.geo) return false;
+      if (!tweet.places.size) return null;
+      return tweet.places.some(place =>
+        operator === 'place'
+          ? place.id === value || equalsIgnoringCase(place.fullName, value) || equalsIgnoringCase(place.name, value)
+          : equalsIgnoringCase(place.countryCode, value),
+      );
+    }
+    case 'in_reply_to_tweet_id':
+      return hasReference(tweet, 'replied_to', value);
+    case 'retweets_of_tweet_id':
+      return hasReference(tweet, 'retweeted', value);
+    case 'quotes_of_tweet_id':
+      return hasReference(tweet, 'quoted', value);
+    case 'is':
+      return matchIsOperator(value, tweet);
+    case 'has':
+      return matchHasOperator(value, tweet);
+    default:
+      return null;
+  }
+}
+
+function matchIsOperator(value: string, tweet: Tweet): boolean | null {
+  switch (value) {
+    case 'retweet':
+      return hasReference(tweet, 'retweeted');
+    case 'reply':
+      return hasReference(tweet, 'replied_to');
+    case 'quote':
+      return hasReference(tweet, 'quoted');
+    case 'verified':
+      return tweet.author?.verified ?? null;
+    default:
+      return null;
+  }
+}
+
+function matchHasOperator(value: string, tweet: Tweet): boolean | null {
+  const entities = tweet.entities;
+  const mediaKeys = tweet.attachments?.mediaKeys ?? [];
+  switch (value) {
+    case 'hashtags':
+      return entities ? entities.hashtags.length > 0 : /(?:^|\s)#\w/.test(tweet.text);
+    case 'cashtags':
+      return entities ? entities.cashtags.length > 0 : /(?:^|\s)\$[a-zA-Z]/.test(tweet.text);
+    case 'mentions':
+      return entities ? entities.mentions.length > 0 : /(?:^|\s)@\w/.test(tweet.text);
+    case 'links':
+      return entities ? entities.urls.length > 0 : /https?:\/\//.test(tweet.text);
+    case 'media':
+      return mediaKeys.length > 0;
+    case 'images':
+    case 'videos': {
+      if (!mediaKeys.length) return false;
+      if (!tweet.media.size) return null;
+      const types = value === 'images' ? ['photo'] : ['video', 'animated_gif'];
+      return tweet.media.some(media => types.includes(media.type));
+    }
+    case 'geo':
+      return tweet.geo !== null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,342 @@
+import { CustomError } from '../errors';
+import {
+  ConjunctionRequiredQueryOperators,
+  QueryLengthLimits,
+  QueryOperatorTargets,
+  QueryOperatorValues,
+} from './Constants';
+import type {
+  LintQueryOptions,
+  QueryLintIssue,
+  QueryNode,
+  QueryOperator,
+  QueryOrNode,
+  QueryTarget,
+  QueryTermNode,
+} from '../typings';
+
+/**
+ * A token of a search query
+ */
+interface QueryToken {
+  type: 'open' | 'close' | 'or' | 'negation' | 'term';
+  start: number;
+  end: number;
+  term?: QueryTermNode;
+}
+
+/**
+ * A parser that turns a search query into a tree of {@link QueryNode} objects, recording the syntax problems it
+ * recovers from instead of stopping at the first one
+ */
+class QueryParser {
+  /**
+   * The syntax problems found while parsing the query
+   */
+  issues: Array<QueryLintIssue>;
+
+  /**
+   * The query being parsed
+   */
+  #query: string;
+
+  /**
+   * The tokens of the query
+   */
+  #tokens: Array<QueryToken>;
+
+  /**
+   * The index of the token to be parsed next
+   */
+  #index: number;
+
+  /**
+   * @param query The query to parse
+   */
+  constructor(query: string) {
+    this.issues = [];
+    this.#query = query;
+    this.#index = 0;
+    this.#tokens = this.#tokenize();
+  }
+
+  /**
+   * Parses the query.
+   * @returns The root node of the query, or `null` if the query has no terms
+   */
+  parse(): QueryNode | null {
+    return this.#parseOr(0);
+  }
+
+  // #### 🚧 PRIVATE METHODS 🚧 ####
+
+  #tokenize(): Array<QueryToken> {
+    const tokens: Array<QueryToken> = [];
+    const query = this.#query;
+    let position = 0;
+    while (position < query.length) {
+      const char = query[position];
+      if (/\s/.test(char)) {
+        position++;
+      } else if (char === '(' || char === ')') {
+        tokens.push({ type: char === '(' ? 'open' : 'close', start: position, end: position + 1 });
+        position++;
+      } else if (char === '-') {
+        if (/^\s?$/.test(query.charAt(position + 1))) this.#reportDanglingNegation(position);
+        else tokens.push({ type: 'negation', start: position, end: position + 1 });
+        position++;
+      } else if (query.startsWith('OR', position) && /^[\s()]?$/.test(query.charAt(position + 2))) {
+        tokens.push({ type: 'or', start: position, end: position + 2 });
+        position += 2;
+      } else {
+        const term = this.#readTerm(position);
+        tokens.push({ type: 'term', start: term.start, end: term.end, term });
+        position = term.end;
+      }
+    }
+    return tokens;
+  }
+
+  #readTerm(start: number): QueryTermNode {
+    const query = this.#query;
+    if (query[start] === '"') {
+      const { value, end } = this.#readQuoted(start);
+      return { type: 'phrase', value, quoted: true, negated: false, start, end };
+    }
+    const operatorMatch = /^([a-z_]+):/.exec(query.slice(start));
+    if (operatorMatch) {
+      const valueStart = start + operatorMatch[0].length;
+      const { value, end, quoted } =
+        query[valueStart] === '"'
+          ? { ...this.#readQuoted(valueStart), quoted: true }
+          : { ...this.#readWord(valueStart), quoted: false };
+      return { type: 'operator', operator: operatorMatch[1], value, quoted, negated: false, start, end };
+    }
+    const { value, end } = this.#readWord(start);
+    const term: QueryTermNode = { type: 'keyword', value, quoted: false, negated: false, start, end };
+    if (/^#./.test(value)) return { ...term, type: 'hashtag', value: value.slice(1) };
+    if (/^@./.test(value)) return { ...term, type: 'mention', value: value.slice(1) };
+    if (/^\$[a-zA-Z]/.test(value)) return { ...term, type: 'cashtag', value: value.slice(1) };
+    return term;
+  }
+
+  #readWord(start: number): { value: string; end: number } {
+    const match = /^[^\s()]*/.exec(this.#query.slice(start));
+    const value = match ? match[0] : '';
+    return { value, end: start + value.length };
+  }
+
+  #readQuoted(start: number): { value: string; end: number } {
+    const query = this.#query;
+    let value = '';
+    for (let position = start + 1; position < query.length; position++) {
+      if (query[position] === '\\' && position + 1 < query.length) {
+        value += query[++position];
+      } else if (query[position] === '"') {
+        return { value, end: position + 1 };
+      } else {
+        value += query[position];
+      }
+    }
+    this.#report('UNTERMINATED_QUOTE', `the quote at position ${start} is never closed`, start, query.length);
+    return { value, end: query.length };
+  }
+
+  #parseOr(depth: number): QueryNode | null {
+    const branches: Array<QueryNode> = [];
+    let pendingOr: QueryToken | null = null;
+    for (;;) {
+      const token = this.#tokens[this.#index];
+      if (token?.type === 'or') {
+        if (!branches.length || pendingOr) this.#reportMisplacedOr(token);
+        pendingOr = token;
+        this.#index++;
+        continue;
+      }
+      const branch = this.#parseAnd(depth);
+      if (!branch) break;
+      branches.push(branch);
+      pendingOr = null;
+      if (this.#tokens[this.#index]?.type !== 'or') break;
+    }
+    if (pendingOr && branches.length) this.#reportMisplacedOr(pendingOr);
+    if (branches.length <= 1) return branches[0] ?? null;
+    const start = branches[0].start;
+    const end = branches[branches.length - 1].end;
+    return { type: 'or', children: branches, start, end };
+  }
+
+  #parseAnd(depth: number): QueryNode | null {
+    const children: Array<QueryNode> = [];
+    for (let token = this.#tokens[this.#index]; token && token.type !== 'or'; token = this.#tokens[this.#index]) {
+      if (token.type === 'close') {
+        if (depth > 0) break;
+        this.#report('UNBALANCED_PARENTHESES', `\`)\` at position ${token.start} has no matching \`(\``, token);
+        this.#index++;
+        continue;
+      }
+      const node = this.#parseUnary(depth);
+      if (node) children.push(node);
+    }
+    if (children.length <= 1) return children[0] ?? null;
+    return { type: 'and', children, start: children[0].start, end: children[children.length - 1].end };
+  }
+
+  #parseUnary(depth: number): QueryNode | null {
+    const start = this.#tokens[this.#index].start;
+    let negated = false;
+    while (this.#tokens[this.#index]?.type === 'negation') {
+      negated = true;
+      this.#index++;
+    }
+    const token = this.#tokens[this.#index];
+    if (token?.type === 'term' && token.term) {
+      this.#index++;
+      return { ...token.term, negated, start };
+    }
+    if (token?.type !== 'open') {
+      if (negated) this.#reportDanglingNegation(this.#tokens[this.#index - 1].start);
+      return null;
+    }
+    this.#index++;
+    const expression = this.#parseOr(depth + 1);
+    const closingToken = this.#tokens[this.#index];
+    let end: number;
+    if (closingToken?.type === 'close') {
+      this.#index++;
+      end = closingToken.end;
+    } else {
+      end = expression?.end ?? token.end;
+      this.#report('UNBALANCED_PARENTHESES', `\`(\` at position ${token.start} is never closed`, token);
+    }
+    if (!expression) this.#report('EMPTY_GROUP', `the group at position ${token.start} has no terms`, start, end);
+    return { type: 'group', expression, negated, start, end };
+  }
+
+  #reportDanglingNegation(position: number): void {
+    const message = `\`-\` at position ${position} has to be placed right before the term or group it negates`;
+    this.#report('DANGLING_NEGATION', message, position, position + 1);
+  }
+
+  #reportMisplacedOr(token: QueryToken): void {
+    this.#report('MISPLACED_OR', `\`OR\` at position ${token.start} has to be placed between two terms`, token);
+  }
+
+  #report(code: QueryLintIssue['code'], message: string, start: number | QueryToken, end?: number): void {
+    const range = typeof start === 'number' ? { start, end: end ?? start } : { start: start.start, end: start.end };
+    this.issues.push({ code, severity: 'error', message, ...range });
+  }
+}
+
+/**
+ * Parses a search query into a tree of nodes.
+ * @param query The query to parse
+ * @returns The root {@link QueryNode} of the query
+ */
+export function parseQuery(query: string): QueryNode {
+  const parser = new QueryParser(query);
+  const root = parser.parse();
+  if (parser.issues.length) throw new CustomError('QUERY_INVALID', parser.issues[0].message);
+  if (!root) throw new CustomError('QUERY_INVALID', 'a query or group has no terms');
+  return root;
+}
+
+/**
+ * Checks a search query for problems without sending it to Twitter.
+ * @param query The query to check
+ * @param options The options for checking the query
+ * @returns An array of {@link QueryLintIssue} objects, ordered by their position in the query
+ */
+export function lintQuery(query: string, options?: LintQueryOptions): Array<QueryLintIssue> {
+  const endpoint = options?.endpoint ?? 'recent';
+  const parser = new QueryParser(query);
+  const root = parser.parse();
+  const issues = [...parser.issues];
+  const report = (
+    code: QueryLintIssue['code'],
+    message: string,
+    node: { start: number; end: number },
+    severity: QueryLintIssue['severity'] = 'error',
+  ): void => {
+    issues.push({ code, severity, message, start: node.start, end: node.end });
+  };
+  const limit = QueryLengthLimits[endpoint];
+  if (query.length > limit) {
+    const message = `the query is ${query.length} characters long, which exceeds the limit of ${limit} for the ${endpoint} endpoint`;
+    report('QUERY_TOO_LONG', message, { start: limit, end: query.length });
+  }
+  const visit = (node: QueryNode): void => {
+    if (node.type === 'group') {
+      if (node.expression) visit(node.expression);
+    } else if (node.type === 'and' || node.type === 'or') {
+      if (node.type === 'or' && node.children.some(child => child.type === 'and')) {
+        const explicitQuery = formatExplicitPrecedence(query, node);
+        const message = `terms separated by spaces are matched before \`OR\`, so this is read as \`${explicitQuery}\`, add parentheses to make it explicit`;
+        report('MIXED_AND_OR', message, node, 'warning');
+      }
+      node.children.forEach(visit);
+    } else if (node.type === 'keyword' && node.value.toLowerCase() === 'or') {
+      const message = `\`${node.value}\` at position ${node.start} is matched as a keyword, use \`OR\` to match either of the terms around it`;
+      report('LOWERCASE_OR', message, node, 'warning');
+    } else if (node.type === 'operator' && node.operator) {
+      lintOperator(node, node.operator, endpoint, report);
+    }
+  };
+  if (root) visit(root);
+  if (!root || !canMatchOnItsOwn(root)) {
+    const message =
+      'the query has no term that can match tweets on its own, operators like `is:`, `has:` and `lang:` have to be used along with other terms';
+    report('CONJUNCTION_REQUIRED', message, { start: 0, end: query.length });
+  }
+  return issues.sort((a, b) => a.start - b.start);
+}
+
+function lintOperator(
+  term: QueryTermNode,
+  operator: string,
+  endpoint: QueryTarget,
+  report: (code: QueryLintIssue['code'], message: string, node: QueryTermNode) => void,
+): void {
+  if (!(operator in QueryOperatorTargets)) {
+    return report('UNKNOWN_OPERATOR', `\`${operator}:\` at position ${term.start} is not a known operator`, term);
+  }
+  if (!QueryOperatorTargets[operator as QueryOperator].includes(endpoint)) {
+    const message = `\`${operator}:\` is not supported when sending a query to the ${endpoint} endpoint`;
+    return report('UNSUPPORTED_OPERATOR', message, term);
+  }
+  const acceptedValues = QueryOperatorValues[operator as QueryOperator];
+  if (!term.value) {
+    return report('INVALID_OPERATOR_VALUE', `\`${operator}:\` at position ${term.start} has no value`, term);
+  }
+  if (acceptedValues && !acceptedValues.includes(term.value)) {
+    const message = `\`${operator}:\` does not accept \`${term.value}\`, use one of ${acceptedValues.join(', ')}`;
+    return report('INVALID_OPERATOR_VALUE', message, term);
+  }
+  if (operator === 'is' && term.value === 'nullcast' && !term.negated) {
+    report('NEGATION_REQUIRED', '`is:nullcast` can only be used negated', term);
+  }
+}
+
+function canMatchOnItsOwn(node: QueryNode): boolean {
+  switch (node.type) {
+    case 'group':
+      return !node.negated && !!node.expression && canMatchOnItsOwn(node.expression);
+    case 'and':
+      return node.children.some(canMatchOnItsOwn);
+    case 'or':
+      return node.children.every(canMatchOnItsOwn);
+    case 'operator':
+      return !node.negated && !ConjunctionRequiredQueryOperators.includes(node.operator as QueryOperator);
+    default:
+      return !node.negated;
+  }
+}
+
+function formatExplicitPrecedence(query: string, node: QueryOrNode): string {
+  return node.children
+    .map(child => {
+      const text = query.slice(child.start, child.end);
+      return child.type === 'and' ? `(${text})` : text;
+    })
+    .join(' OR ');
+}
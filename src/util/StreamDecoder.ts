@@ -0,0 +1,45 @@
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * The class for reassembling `\r\n` delimited payloads from the raw chunks of a tweet stream.
+ * Chunks can split and merge payloads at arbitrary byte boundaries, including in the middle of multi-byte
+ * `UTF-8` characters, so the decoder buffers the incomplete tail of every chunk until its delimiter arrives
+ */
+export class StreamDecoder {
+  /**
+   * The decoder that holds back incomplete multi-byte characters at the end of a chunk
+   */
+  #decoder: StringDecoder;
+
+  /**
+   * The decoded text that has not been terminated by a delimiter yet
+   */
+  #buffer: string;
+
+  constructor() {
+    this.#decoder = new StringDecoder('utf8');
+    this.#buffer = '';
+  }
+
+  /**
+   * Decodes a chunk of the stream.
+   * @param chunk The raw chunk received from the stream
+   * @returns An array of the payloads completed by this chunk. Keep-alive signals are returned as empty strings
+   */
+  push(chunk: Uint8Array): Array<string> {
+    this.#buffer += this.#decoder.write(Buffer.from(chunk));
+    const payloads = this.#buffer.split('\r\n');
+    this.#buffer = payloads.pop() ?? '';
+    return payloads;
+  }
+
+  /**
+   * Clears the incomplete data held by the decoder.
+   * @returns The data that was not terminated by a delimiter
+   */
+  flush(): string {
+    const remaining = this.#buffer + this.#decoder.end();
+    this.#buffer = '';
+    return remaining;
+  }
+}
@@ -17,7 +17,7 @@ export function mergeDefault(defaultObject: any, givenObject: any): ClientOption
   for (key in defaultObject) {
     if (!objectHasKey(givenObject, key) || givenObject[key] === undefined) {
       givenObject[key] = defaultObject[key];
-    } else if (givenObject[key] === Object(givenObject[key])) {
+    } else if (givenObject[key] === Object(givenObject[key]) && !Array.isArray(givenObject[key])) {
       givenObject[key] = mergeDefault(defaultObject[key], givenObject[key]);
     }
   }
@@ -0,0 +1,48 @@
+import { QueryBuilder } from '../QueryBuilder';
+
+test('build a query with operators, groups, alternatives and negations', () => {
+  const query = new QueryBuilder()
+    .from('@TwitterDev')
+    .group(builder => builder.has('media').or().has('links'))
+    .not()
+    .is('retweet')
+    .lang('en')
+    .placeCountry('US')
+    .phrase('say "hi"')
+    .keyword('OR');
+  expect(query.build()).toBe(
+    'from:TwitterDev (has:media OR has:links) -is:retweet lang:en place_country:US "say \\"hi\\"" "OR"',
+  );
+  expect(`${query}`).toBe(query.build('archive'));
+});
+
+test('quote values of operators that need it', () => {
+  const query = new QueryBuilder().url('https://developer.twitter.com').place('new york city').conversationId('1');
+  expect(query.build()).toBe('url:"https://developer.twitter.com" place:"new york city" conversation_id:1');
+});
+
+test('reject operators that are not supported by the endpoint', () => {
+  const query = new QueryBuilder().keyword('cats').sample(10);
+  expect(query.build('stream')).toBe('cats sample:10');
+  expect(() => query.build('recent')).toThrow('`sample:` operator is not supported');
+  expect(() => new QueryBuilder().sample(0)).toThrow('search query is invalid');
+  const bioQuery = new QueryBuilder().keyword('cats').bio('cat lover');
+  expect(bioQuery.build('stream')).toBe('cats bio:"cat lover"');
+  expect(() => bioQuery.build('archive')).toThrow('`bio:` operator is not supported');
+});
+
+test('reject malformed queries', () => {
+  expect(() => new QueryBuilder().build()).toThrow('search query is invalid');
+  expect(() => new QueryBuilder().keyword('cats').not().build()).toThrow('negation');
+  expect(() => new QueryBuilder().keyword('cats').or().build()).toThrow('`OR`');
+  expect(() => new QueryBuilder().group(() => undefined).build()).toThrow('no terms');
+  expect(() => new QueryBuilder().is('nullcast').build()).toThrow('negated');
+  expect(new QueryBuilder().keyword('cats').not().is('nullcast').build()).toBe('cats -is:nullcast');
+});
+
+test('enforce the query length limit of the endpoint', () => {
+  const query = new QueryBuilder().keyword('a'.repeat(600));
+  expect(() => query.build('recent')).toThrow('exceeds the limit of 512');
+  expect(query.build('archive')).toHaveLength(600);
+  expect(query.build('stream')).toHaveLength(600);
+});
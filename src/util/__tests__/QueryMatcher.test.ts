@@ -0,0 +1,72 @@
+import { Client } from '../../client';
+import { FilteredStreamRule, Tweet } from '../../structures';
+import { testQuery } from '../QueryMatcher';
+
+const client = new Client({ events: [] });
+
+const tweet = new Tweet(client, {
+  data: {
+    id: '10',
+    text: 'Loving the new #TwitterAPI docs, thanks @TwitterDev! https://t.co/abc',
+    author_id: '1',
+    lang: 'en',
+    conversation_id: '5',
+    in_reply_to_user_id: '2',
+    referenced_tweets: [{ type: 'replied_to', id: '5' }],
+    attachments: { media_keys: ['3_100'] },
+    entities: {
+      hashtags: [{ start: 15, end: 26, tag: 'TwitterAPI' }],
+      mentions: [{ start: 40, end: 51, username: 'TwitterDev', id: '2' }],
+      urls: [
+        {
+          start: 53,
+          end: 69,
+          url: 'https://t.co/abc',
+          expanded_url: 'https://developer.twitter.com/en/docs',
+          display_url: 'developer.twitter.com/en/docs',
+        },
+      ],
+    },
+  },
+  includes: {
+    users: [
+      { id: '1', name: 'dev', username: 'dev', verified: false },
+      { id: '2', name: 'Twitter Dev', username: 'TwitterDev' },
+    ],
+    media: [{ media_key: '3_100', type: 'photo' }],
+  },
+});
+
+test('explain which clauses of a query a tweet matched', () => {
+  const result = testQuery('(#twitterapi OR cats) from:dev -is:retweet to:TwitterDev has:images', tweet);
+  expect(result.matched).toBe(true);
+  expect(result.clauses.map(({ clause, matched }) => [clause, matched])).toEqual([
+    ['#twitterapi', true],
+    ['cats', false],
+    ['from:dev', true],
+    ['-is:retweet', true],
+    ['to:TwitterDev', true],
+    ['has:images', true],
+  ]);
+});
+
+test('match keywords and phrases as whole words regardless of case', () => {
+  expect(testQuery('"new #twitterapi docs"', tweet).matched).toBe(true);
+  expect(testQuery('love', tweet).matched).toBe(false);
+  expect(testQuery('url:developer.twitter.com lang:en conversation_id:5 in_reply_to_tweet_id:5', tweet).matched).toBe(
+    true,
+  );
+  expect(testQuery('docs -has:links', tweet).matched).toBe(false);
+});
+
+test('leave clauses that cannot be evaluated locally unknown', () => {
+  expect(testQuery('docs context:123.456', tweet).matched).toBeNull();
+  expect(testQuery('cats context:123.456', tweet).matched).toBe(false);
+  expect(testQuery('docs OR sample:10', tweet).matched).toBe(true);
+  expect(testQuery('docs is:verified', tweet).matched).toBe(false);
+});
+
+test('test a tweet against a filtered stream rule', () => {
+  const rule = new FilteredStreamRule(client, { id: '1', value: 'docs has:geo' });
+  expect(rule.test(tweet)).toMatchObject({ matched: false, clauses: [{ matched: true }, { matched: false }] });
+});
@@ -0,0 +1,84 @@
+import { lintQuery, parseQuery } from '../QueryParser';
+
+test('parse a query with groups, alternatives, negations and quoted values', () => {
+  expect(parseQuery('from:TwitterDev (#cats OR "cute dog") -is:retweet')).toEqual({
+    type: 'and',
+    start: 0,
+    end: 49,
+    children: [
+      { type: 'operator', operator: 'from', value: 'TwitterDev', quoted: false, negated: false, start: 0, end: 15 },
+      {
+        type: 'group',
+        negated: false,
+        start: 16,
+        end: 37,
+        expression: {
+          type: 'or',
+          start: 17,
+          end: 36,
+          children: [
+            { type: 'hashtag', value: 'cats', quoted: false, negated: false, start: 17, end: 22 },
+            { type: 'phrase', value: 'cute dog', quoted: true, negated: false, start: 26, end: 36 },
+          ],
+        },
+      },
+      { type: 'operator', operator: 'is', value: 'retweet', quoted: false, negated: true, start: 38, end: 49 },
+    ],
+  });
+  expect(parseQuery('url:"https://x.com/a b" @user $TWTR')).toMatchObject({
+    children: [
+      { type: 'operator', operator: 'url', value: 'https://x.com/a b', quoted: true },
+      { type: 'mention', value: 'user' },
+      { type: 'cashtag', value: 'TWTR' },
+    ],
+  });
+});
+
+test('reject queries with syntax errors when parsing', () => {
+  expect(() => parseQuery('(cats OR dogs')).toThrow('`(` at position 0 is never closed');
+  expect(() => parseQuery('cats)')).toThrow('has no matching');
+  expect(() => parseQuery('OR cats')).toThrow('`OR` at position 0');
+  expect(() => parseQuery('"cats')).toThrow('never closed');
+  expect(() => parseQuery('  ')).toThrow('no terms');
+});
+
+test('report syntax problems and precedence pitfalls when linting', () => {
+  const codes = (query: string) => lintQuery(query).map(issue => issue.code);
+  expect(codes('cats dogs OR birds')).toEqual(['MIXED_AND_OR']);
+  expect(lintQuery('cats dogs OR birds')[0].message).toContain('`(cats dogs) OR birds`');
+  expect(codes('cats or dogs')).toEqual(['LOWERCASE_OR']);
+  expect(codes('(cats OR dogs')).toEqual(['UNBALANCED_PARENTHESES']);
+  expect(codes('cats () OR OR dogs)')).toEqual([
+    'MIXED_AND_OR',
+    'EMPTY_GROUP',
+    'MISPLACED_OR',
+    'UNBALANCED_PARENTHESES',
+  ]);
+  expect(codes('cats -')).toEqual(['DANGLING_NEGATION']);
+  expect(codes('(cats -) OR dogs -OR birds')).toEqual(['DANGLING_NEGATION', 'DANGLING_NEGATION']);
+  expect(lintQuery('cats - dogs')[0].message).toBe(
+    '`-` at position 5 has to be placed right before the term or group it negates',
+  );
+  expect(codes('(cats OR dogs) -is:retweet')).toEqual([]);
+});
+
+test('report operators that are unknown, unsupported or misused when linting', () => {
+  const codes = (query: string, endpoint?: 'recent' | 'archive' | 'stream') =>
+    lintQuery(query, { endpoint }).map(issue => issue.code);
+  expect(codes('form:TwitterDev')).toEqual(['UNKNOWN_OPERATOR']);
+  expect(codes('cats sample:10')).toEqual(['UNSUPPORTED_OPERATOR']);
+  expect(codes('cats sample:10', 'stream')).toEqual([]);
+  expect(codes('cats followers_count:500', 'archive')).toEqual(['UNSUPPORTED_OPERATOR']);
+  expect(codes('bio_location:Paris', 'stream')).toEqual([]);
+  expect(codes('cats is:retweeted')).toEqual(['INVALID_OPERATOR_VALUE']);
+  expect(codes('cats is:nullcast')).toEqual(['NEGATION_REQUIRED']);
+  expect(codes('has:media -is:retweet')).toEqual(['CONJUNCTION_REQUIRED']);
+  expect(codes('has:media (cats OR lang:en)')).toEqual(['CONJUNCTION_REQUIRED']);
+  expect(codes('has:media (cats OR from:TwitterDev)')).toEqual([]);
+});
+
+test('report queries over the length limit of the endpoint when linting', () => {
+  const query = 'a'.repeat(600);
+  expect(lintQuery(query).map(issue => issue.code)).toEqual(['QUERY_TOO_LONG']);
+  expect(lintQuery(query, { endpoint: 'archive' })).toEqual([]);
+});
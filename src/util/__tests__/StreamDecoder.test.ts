@@ -0,0 +1,28 @@
+import { StreamDecoder } from '../StreamDecoder';
+
+const encode = (text: string): Uint8Array => Buffer.from(text, 'utf8');
+
+test('decode a keep-alive signal', () => {
+  const decoder = new StreamDecoder();
+  expect(decoder.push(encode('\r\n'))).toStrictEqual(['']);
+});
+
+test('reassemble a payload split across chunks', () => {
+  const decoder = new StreamDecoder();
+  expect(decoder.push(encode('{"data":'))).toStrictEqual([]);
+  expect(decoder.push(encode('{"id":"1"}}\r'))).toStrictEqual([]);
+  expect(decoder.push(encode('\n'))).toStrictEqual(['{"data":{"id":"1"}}']);
+});
+
+test('split multiple payloads merged in a chunk', () => {
+  const decoder = new StreamDecoder();
+  expect(decoder.push(encode('{"id":"1"}\r\n\r\n{"id":"2"}\r\n{"id"'))).toStrictEqual(['{"id":"1"}', '', '{"id":"2"}']);
+  expect(decoder.flush()).toBe('{"id"');
+});
+
+test('decode a multi-byte character split across chunks', () => {
+  const decoder = new StreamDecoder();
+  const bytes = encode('{"text":"🐦"}\r\n');
+  expect(decoder.push(bytes.slice(0, 11))).toStrictEqual([]);
+  expect(decoder.push(bytes.slice(11))).toStrictEqual(['{"text":"🐦"}']);
+});
@@ -27,3 +27,7 @@ test('merge objects with one common key but its value in given object is undefin
 test('merge objects with one common key but its value in given object is null', () => {
   expect(mergeDefault({ one: 1, two: 2 }, { two: null })).toStrictEqual({ one: 1, two: null });
 });
+
+test('merge objects with one common key whose value is an array', () => {
+  expect(mergeDefault({ codes: [500, 502, 503] }, { codes: [503] })).toStrictEqual({ codes: [503] });
+});
@@ -1,3 +1,7 @@
 export * from './Collection';
 export * from './Constants';
+export * from './QueryBuilder';
+export * from './QueryMatcher';
+export * from './QueryParser';
+export * from './StreamDecoder';
 export * from './Utility';